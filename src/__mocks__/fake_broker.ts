@@ -0,0 +1,438 @@
+import { each, filter, isArray, isNil, max } from 'lodash';
+import type {
+  IClientPublishOptions,
+  IClientSubscribeOptions,
+  IConnackPacket,
+  IDisconnectPacket,
+  IPublishPacket,
+  ISubscriptionGrant,
+  Packet,
+} from 'mqtt';
+
+import type { ClientOptions } from '../mqtt/constants';
+import { MqttQoS } from '../mqtt/constants';
+import { matchTopic } from '../mqtt/subscription_registry';
+
+/**
+ * 可以注入错误的操作，参考{@link FakeBroker#inject}
+ */
+type FakeBrokerOperation = 'connect' | 'publish' | 'subscribe' | 'unsubscribe';
+
+/**
+ * 连接到{@link FakeBroker}的客户端，相当于Broker和MqttClient之间的socket
+ */
+type FakeBrokerSession = {
+  clientId: string;
+  opts: ClientOptions;
+  /** Broker推送消息 */
+  deliver: (topic: string, payload: Uint8Array, packet: IPublishPacket) => void;
+  /** Broker关闭连接，MQTT 5.0的情况下会先发送DISCONNECT */
+  close: (packet?: IDisconnectPacket) => void;
+  /** socket发生错误，连接并不会因此关闭 */
+  error: (error: Error) => void;
+};
+
+type RetainedMessage = {
+  payload: Uint8Array;
+  qos: MqttQoS;
+};
+
+/**
+ * MQTT 3.1.1拒绝订阅的时候，SUBACK返回的值
+ */
+const SUBACK_FAILURE = 0x80;
+
+/**
+ * 在内存中模拟的Mqtt Broker，配合{@link LoopbackTransport}在单元测试中使用
+ *
+ * @remarks
+ *
+ * 支持：
+ *
+ * - 主题匹配（`+`、`#`通配符），同一个客户端多个订阅匹配同一条消息的时候只投递一次，QoS取最大的那个
+ * - QoS确认：QoS 0没有确认，QoS 1返回PUBACK，QoS 2返回PUBCOMP
+ * - 保留消息：订阅的时候投递匹配的保留消息，payload为空的保留消息会清除该主题的保留消息
+ * - 强制断开（{@link kick}），没有正常结束的连接会发布遗言
+ * - 注入错误（{@link inject}）、拒绝订阅（{@link reject}）、socket错误（{@link fail}）
+ *
+ * 和真实的网络一样，消息是异步投递的，断言之前调用{@link flush}
+ *
+ * @example
+ *
+ * const broker = FakeBroker.create();
+ * const builder = createLoopbackTransportBuilder(broker);
+ * const service = MqttService.create({ transportBuilder: builder }, env);
+ *
+ * await service.init();
+ * await broker.flush();
+ * broker.publish("iot/v1/c/client-1/layout_device/status", JSON.stringify(message));
+ * await broker.flush();
+ */
+class FakeBroker {
+  private __faults = new Map<FakeBrokerOperation, Error[]>();
+  private __messageId = 0;
+  private __published: IPublishPacket[] = [];
+  private __rejected = new Set</** Topic Filter */ string>();
+  private __retained = new Map</** Topic */ string, RetainedMessage>();
+  private __sessions = new Map</** Client ID */ string, FakeBrokerSession>();
+  private __subscriptions = new Map</** Client ID */ string, Map</** Topic Filter */ string, MqttQoS>>();
+
+  static create() {
+    return new FakeBroker();
+  }
+
+  /**
+   * 当前连接的所有客户端
+   */
+  get clients() {
+    return Array.from(this.__sessions.keys());
+  }
+
+  /**
+   * Broker收到的所有PUBLISH（包括遗言），按照收到的顺序
+   */
+  get published() {
+    return this.__published.slice();
+  }
+
+  /**
+   * 所有保留消息的主题
+   */
+  get retained() {
+    return Array.from(this.__retained.keys());
+  }
+
+  /**
+   * 客户端发起连接
+   *
+   * @param session 客户端
+   * @returns CONNACK
+   */
+  connect(session: FakeBrokerSession) {
+    return this.__defer<IConnackPacket>('connect', () => {
+      /** 同一个clientId的旧连接会被Broker踢掉 */
+      const stale = this.__sessions.get(session.clientId);
+      if (!isNil(stale) && stale !== session) {
+        this.__drop(stale.clientId, true);
+        stale.close();
+      }
+
+      this.__sessions.set(session.clientId, session);
+      return {
+        cmd: 'connack',
+        returnCode: 0,
+        sessionPresent: false,
+      };
+    });
+  }
+
+  /**
+   * 客户端主动断开连接，不会发布遗言
+   *
+   * @param session 客户端，已经被同一个clientId的新连接踢掉的客户端不会影响新连接
+   */
+  disconnect(session: FakeBrokerSession) {
+    if (this.__sessions.get(session.clientId) !== session) {
+      return;
+    }
+    this.__drop(session.clientId, false);
+  }
+
+  /**
+   * 让socket发生错误，连接并不会因此关闭
+   *
+   * @param clientId Mqtt Client ID
+   * @param error 错误
+   */
+  fail(clientId: string, error: Error) {
+    const session = this.__sessions.get(clientId);
+    if (isNil(session)) {
+      return;
+    }
+    this.__schedule(() => {
+      session.error(error);
+    });
+  }
+
+  /**
+   * 等待所有已经安排的投递、确认完成
+   */
+  flush() {
+    return new Promise<void>(resolve => {
+      setTimeout(resolve, 0);
+    });
+  }
+
+  /**
+   * 让下一次操作失败
+   *
+   * @param operation 操作类型
+   * @param error 操作失败的原因，可以多次调用，按照调用的顺序依次使用
+   *
+   * @example
+   *
+   * broker.inject("subscribe", new Error("Subscribe error"));
+   */
+  inject(operation: FakeBrokerOperation, error: Error) {
+    const errors = this.__faults.get(operation) || [];
+    errors.push(error);
+    this.__faults.set(operation, errors);
+  }
+
+  /**
+   * 强制断开连接，例如Broker重启、会话被管理员踢掉，没有正常结束的连接会发布遗言
+   *
+   * @param clientId Mqtt Client ID
+   * @param packet MQTT 5.0的DISCONNECT报文
+   */
+  kick(clientId: string, packet?: IDisconnectPacket) {
+    const session = this.__sessions.get(clientId);
+    if (isNil(session)) {
+      return;
+    }
+
+    this.__drop(clientId, true);
+    this.__schedule(() => {
+      session.close(packet);
+    });
+  }
+
+  /**
+   * 发布消息，clientId为空表示由服务端（例如API）发布
+   *
+   * @param topic Mqtt主题
+   * @param message 消息内容
+   * @param opts 发布配置
+   * @param clientId 发布消息的Mqtt Client ID
+   * @returns QoS 0返回undefined，QoS 1返回PUBACK，QoS 2返回PUBCOMP
+   */
+  publish(topic: string, message: string | Uint8Array, opts: IClientPublishOptions = {}, clientId?: string) {
+    return this.__defer<Packet | undefined>('publish', () => {
+      const qos = (opts.qos || MqttQoS.Once) as MqttQoS;
+      const payload = typeof message === 'string' ? new TextEncoder().encode(message) : message;
+      const messageId = qos === MqttQoS.Once ? undefined : this.__nextMessageId();
+
+      this.__published.push({
+        cmd: 'publish',
+        topic,
+        payload: payload as IPublishPacket['payload'],
+        qos,
+        retain: opts.retain === true,
+        dup: false,
+        messageId,
+        properties: opts.properties,
+      });
+
+      if (opts.retain === true) {
+        if (payload.length === 0) {
+          this.__retained.delete(topic);
+        } else {
+          this.__retained.set(topic, { payload, qos });
+        }
+      }
+
+      this.__route(topic, payload, qos);
+
+      if (qos === MqttQoS.Once) {
+        return undefined;
+      }
+      return {
+        cmd: qos === MqttQoS.AtLeastOnce ? 'puback' : 'pubcomp',
+        messageId,
+      } as Packet;
+    });
+  }
+
+  /**
+   * 拒绝之后对某个主题过滤器的订阅，SUBACK返回128
+   *
+   * @param topic 主题过滤器
+   */
+  reject(topic: string) {
+    this.__rejected.add(topic);
+  }
+
+  /**
+   * 清空所有状态，已经连接的客户端会被强制断开（不发布遗言）
+   */
+  reset() {
+    const sessions = Array.from(this.__sessions.values());
+    this.__sessions.clear();
+    this.__subscriptions.clear();
+    this.__retained.clear();
+    this.__rejected.clear();
+    this.__faults.clear();
+    this.__published = [];
+    this.__messageId = 0;
+    each(sessions, session => {
+      session.close();
+    });
+  }
+
+  /**
+   * 客户端订阅主题
+   *
+   * @param clientId Mqtt Client ID
+   * @param topic 主题过滤器
+   * @param options 订阅配置
+   * @returns SUBACK中的授权结果
+   */
+  subscribe(
+    clientId: string,
+    topic: string | string[],
+    options: IClientSubscribeOptions = { qos: MqttQoS.AtLeastOnce },
+  ) {
+    return this.__defer<ISubscriptionGrant[]>('subscribe', () => {
+      const subscriptions = this.__subscriptions.get(clientId) || new Map<string, MqttQoS>();
+      this.__subscriptions.set(clientId, subscriptions);
+
+      const granted: ISubscriptionGrant[] = [];
+      each(isArray(topic) ? topic : [topic], t => {
+        if (this.__rejected.has(t)) {
+          granted.push({ topic: t, qos: SUBACK_FAILURE });
+          return;
+        }
+
+        const qos = options.qos as MqttQoS;
+        subscriptions.set(t, qos);
+        granted.push({ topic: t, qos });
+
+        this.__retained.forEach((retained, retainedTopic) => {
+          if (!matchTopic(t, retainedTopic)) {
+            return;
+          }
+          this.__deliver(clientId, retainedTopic, retained.payload, Math.min(retained.qos, qos) as MqttQoS, true);
+        });
+      });
+      return granted;
+    });
+  }
+
+  /**
+   * 客户端订阅的所有主题过滤器
+   *
+   * @param clientId Mqtt Client ID
+   * @returns
+   */
+  subscriptionsOf(clientId: string) {
+    return Array.from((this.__subscriptions.get(clientId) || new Map()).keys()) as string[];
+  }
+
+  /**
+   * 客户端取消订阅主题
+   *
+   * @param clientId Mqtt Client ID
+   * @param topic 主题过滤器
+   * @returns UNSUBACK
+   */
+  unsubscribe(clientId: string, topic: string | string[]) {
+    return this.__defer<Packet | undefined>('unsubscribe', () => {
+      const subscriptions = this.__subscriptions.get(clientId);
+      each(isArray(topic) ? topic : [topic], t => {
+        if (!isNil(subscriptions)) {
+          subscriptions.delete(t);
+        }
+      });
+      return {
+        cmd: 'unsuback',
+        messageId: this.__nextMessageId(),
+      } as Packet;
+    });
+  }
+
+  /**
+   * 异步执行操作，如果注入了错误，操作失败
+   */
+  private __defer<T>(operation: FakeBrokerOperation, execute: () => T) {
+    return new Promise<T>((resolve, reject) => {
+      this.__schedule(() => {
+        const errors = this.__faults.get(operation) || [];
+        const error = errors.shift();
+        if (!isNil(error)) {
+          return reject(error);
+        }
+        resolve(execute());
+      });
+    });
+  }
+
+  private __deliver(clientId: string, topic: string, payload: Uint8Array, qos: MqttQoS, retain: boolean) {
+    const session = this.__sessions.get(clientId);
+    if (isNil(session)) {
+      return;
+    }
+
+    const packet: IPublishPacket = {
+      cmd: 'publish',
+      topic,
+      payload: payload as IPublishPacket['payload'],
+      qos,
+      retain,
+      dup: false,
+      messageId: qos === MqttQoS.Once ? undefined : this.__nextMessageId(),
+    };
+    this.__schedule(() => {
+      /** 投递之前连接可能已经断开 */
+      if (this.__sessions.get(clientId) !== session) {
+        return;
+      }
+      session.deliver(topic, payload, packet);
+    });
+  }
+
+  /**
+   * 移除客户端的会话
+   *
+   * @param clientId Mqtt Client ID
+   * @param publishWill 是否发布遗言
+   */
+  private __drop(clientId: string, publishWill: boolean) {
+    const session = this.__sessions.get(clientId);
+    if (isNil(session)) {
+      return;
+    }
+
+    this.__sessions.delete(clientId);
+    this.__subscriptions.delete(clientId);
+
+    const will = session.opts.will;
+    if (publishWill && !isNil(will)) {
+      this.publish(
+        will.topic,
+        will.payload as string | Uint8Array,
+        {
+          qos: will.qos,
+          retain: will.retain,
+        },
+        clientId,
+      );
+    }
+  }
+
+  private __nextMessageId() {
+    this.__messageId = (this.__messageId % 65535) + 1;
+    return this.__messageId;
+  }
+
+  /**
+   * 把消息投递给所有订阅了匹配的主题过滤器的客户端，包括发布者自己
+   */
+  private __route(topic: string, payload: Uint8Array, qos: MqttQoS) {
+    this.__subscriptions.forEach((subscriptions, clientId) => {
+      const matched = filter(Array.from(subscriptions.keys()), f => matchTopic(f, topic));
+      if (matched.length === 0) {
+        return;
+      }
+
+      const granted = max(matched.map(f => subscriptions.get(f))) as MqttQoS;
+      this.__deliver(clientId, topic, payload, Math.min(granted, qos) as MqttQoS, false);
+    });
+  }
+
+  private __schedule(task: () => void) {
+    Promise.resolve().then(task);
+  }
+}
+
+export { FakeBroker };
+export type { FakeBrokerOperation, FakeBrokerSession };
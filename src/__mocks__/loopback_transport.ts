@@ -0,0 +1,543 @@
+import { each, isArray, isFunction, isNil } from 'lodash';
+import type {
+  CloseCallback,
+  IClientPublishOptions,
+  IClientSubscribeOptions,
+  IConnackPacket,
+  IDisconnectPacket,
+  ISubscriptionGrant,
+  Packet,
+  PacketCallback,
+} from 'mqtt';
+
+import type { Business } from '../mqtt/business';
+import type {
+  Callable,
+  ITransport,
+  ReconnectSchedule,
+  TransportBuilder,
+  TransportConnection,
+  TransportCredentials,
+  TransportPublishOptions,
+} from '../mqtt/constants';
+import {
+  GUEST_CLIENT_ID,
+  MqttEvent,
+  MqttProtocolVersion,
+  MqttQoS,
+  MqttStoreKind,
+  TOPIC,
+  TOPIC_HEADER,
+  TOPIC_VERSION,
+  TransportEvent,
+} from '../mqtt/constants';
+import { MqttTransportError, isFailureReasonCode } from '../mqtt/errors';
+import { OutboundQueue } from '../mqtt/outbound_queue';
+import { ReconnectScheduler } from '../mqtt/reconnect_policy';
+import type { FakeBroker, FakeBrokerSession } from './fake_broker';
+
+/**
+ * Transport Based on {@link FakeBroker}
+ *
+ * @remarks
+ *
+ * 和ClassicalTransport的行为保持一致（事件、重连、离线发布队列），只是把MqttClient和Broker换成了内存中的{@link FakeBroker}，
+ *   用于在没有网络的情况下测试MqttService、MqttServiceWorker。
+ *
+ * 通过{@link createLoopbackTransportBuilder}创建TransportBuilder
+ */
+class LoopbackTransport implements ITransport {
+  private __broker: FakeBroker;
+  private __connected = false;
+  private __connecting = false;
+  private __connection: TransportConnection;
+  /** 是否主动调用了end，主动结束的连接不需要重连 */
+  private __ending = false;
+  private __listeners: Map</** Event */ string, /** Listener */ Set<Callable>> = new Map();
+  private __mqttTopics = new Set<string>();
+  private __outboundQueue: OutboundQueue;
+  private __reconnectScheduler: ReconnectScheduler;
+  private __reconnecting = false;
+  /** 当前（或者最近一次）连接，相当于ClassicalTransport的MqttClient */
+  private __session: FakeBrokerSession | null = null;
+
+  static create(connection: TransportConnection, broker: FakeBroker): ITransport {
+    return new LoopbackTransport(connection, broker);
+  }
+
+  constructor(connection: TransportConnection, broker: FakeBroker) {
+    this.__broker = broker;
+    this.__connection = connection;
+    this.__reconnectScheduler = ReconnectScheduler.create(connection.reconnectPolicy);
+    /** 测试之间不应该互相影响，离线发布队列只保存在内存中 */
+    this.__outboundQueue = OutboundQueue.create({
+      key: connection.opts.clientId,
+      policy: connection.outboundQueue,
+    });
+  }
+
+  get brokerUrl() {
+    return this.__connection.brokerUrl;
+  }
+
+  get clientId() {
+    return this.__connection.opts.clientId;
+  }
+
+  get connected() {
+    return this.__connected;
+  }
+
+  get dropPolicy() {
+    return this.__outboundQueue.dropPolicy;
+  }
+
+  get isGuest() {
+    return this.__connection.opts.clientId === GUEST_CLIENT_ID;
+  }
+
+  get opts() {
+    return this.__connection.opts;
+  }
+
+  get nextReconnectAt() {
+    return this.__reconnectScheduler.nextReconnectAt;
+  }
+
+  get protocolVersion() {
+    return this.__connection.opts.protocolVersion === MqttProtocolVersion.V5
+      ? MqttProtocolVersion.V5
+      : MqttProtocolVersion.V311;
+  }
+
+  get queueDepth() {
+    return this.__outboundQueue.depth;
+  }
+
+  get reconnectAttempts() {
+    return this.__reconnectScheduler.attempts;
+  }
+
+  get reconnecting() {
+    return this.__reconnecting || this.__reconnectScheduler.scheduled;
+  }
+
+  get topics() {
+    return Array.from(this.__mqttTopics.values());
+  }
+
+  addEventListener(event: MqttEvent | TransportEvent, callable: Callable) {
+    const handlers = this.__listeners.get(event) || new Set();
+    handlers.add(callable);
+    this.__listeners.set(event, handlers);
+  }
+
+  clearOutboundQueue() {
+    this.__outboundQueue.clear();
+  }
+
+  connect() {
+    if (!isNil(this.__session) || this.__connecting) {
+      return;
+    }
+
+    this.__ending = false;
+    this.__open();
+  }
+
+  dispose() {
+    this.__listeners.clear();
+  }
+
+  dispatchEvent(event: MqttEvent | TransportEvent, args: any[]) {
+    const handlers = this.__listeners.get(event) || new Set();
+    handlers.forEach(callable => {
+      callable.func.apply(callable.thisArg, args);
+    });
+  }
+
+  end(force?: boolean, opts?: Object, cb?: CloseCallback) {
+    if (isNil(this.__session)) {
+      return;
+    }
+
+    if (this.isGuest) {
+      return;
+    }
+
+    const session = this.__session;
+    const wasConnected = this.__connected;
+
+    this.__ending = true;
+    this.__connected = false;
+    this.__reconnecting = false;
+    this.__reconnectScheduler.cancel();
+    this.__broker.disconnect(session);
+
+    /** 和MqttClient一样，异步派发Close、End */
+    Promise.resolve().then(() => {
+      if (wasConnected) {
+        this.dispatchEvent(MqttEvent.Close, []);
+      }
+      this.dispatchEvent(MqttEvent.End, []);
+      if (isFunction(cb)) {
+        cb();
+      }
+    });
+  }
+
+  /**
+   * 根据Mqtt Topic，获得关注的业务
+   *
+   * @param mqttTopic
+   * @returns
+   *
+   * @example
+   *
+   * const topic = 'iot/v1/c/923aed8850694291b7cd4f76f47571bc/layout_device/status';
+   * const subject = getSubject(topic); // layout_device/status
+   */
+  getSubject(
+    /**
+     * Mqtt topic，e.g iot/v1/c/923aed8850694291b7cd4f76f47571bc/layout_device/status
+     */
+    mqttTopic: string,
+  ): string | null {
+    const reg = new RegExp(`${TOPIC_HEADER}\\/${TOPIC_VERSION}\\/c\\/${this.clientId}\\/(\\S+)`);
+    const match = reg.exec(mqttTopic);
+    return isNil(match) ? null : match[1];
+  }
+
+  getTopic(
+    /**
+     * 业务主题，e.g layout_device/status
+     */
+    subject: string,
+  ) {
+    return `${TOPIC.CLIENT}/${this.clientId}/${subject}`;
+  }
+
+  publish(
+    topic: string,
+    message: string,
+    opts: TransportPublishOptions = {
+      dup: false,
+      qos: MqttQoS.AtLeastOnce,
+      retain: false,
+    },
+    callback?: PacketCallback,
+  ) {
+    const { signal, ...options } = opts;
+    let published: Promise<Packet | undefined>;
+    /**
+     * 队列中还有消息的时候，新消息也要排队，保证发布顺序
+     */
+    if (!this.connected || this.__outboundQueue.depth > 0) {
+      published = this.__outboundQueue.enqueue(topic, message, options, signal);
+      this.__flushOutboundQueue();
+    } else {
+      published = this.__publish(topic, message, options);
+    }
+
+    return published.then(
+      packet => {
+        if (isFunction(callback)) {
+          callback(undefined, packet);
+        }
+        return packet;
+      },
+      (error: Error) => {
+        if (isFunction(callback)) {
+          callback(error);
+        }
+        throw error;
+      },
+    );
+  }
+
+  /**
+   * Connect again using the same options as connect()
+   * @returns
+   */
+  reconnect() {
+    if (isNil(this.__session)) {
+      return;
+    }
+
+    if (this.__connected) {
+      this.__broker.disconnect(this.__session);
+      this.__connected = false;
+    }
+
+    this.__ending = false;
+    this.__reconnecting = true;
+    this.__reconnectScheduler.reset();
+    this.dispatchEvent(MqttEvent.Reconnect, []);
+    this.__open();
+  }
+
+  removeEventListener(event: MqttEvent | TransportEvent, callable?: Callable) {
+    if (isNil(callable)) {
+      this.__listeners.delete(event);
+      return;
+    }
+
+    const handlers = this.__listeners.get(event) || new Set();
+    if (handlers.has(callable)) {
+      handlers.delete(callable);
+      this.__listeners.set(event, handlers);
+    }
+  }
+
+  /**
+   * FakeBroker本身就会投递保留消息，没有需要重放的消息
+   */
+  replay(topic: string | string[]) {
+    return Promise.resolve(0);
+  }
+
+  reportBusinesses(reporter: string, businesses: Business[], holder: string) {
+    return;
+  }
+
+  subscribe(topic: string | string[], options: IClientSubscribeOptions = { qos: MqttQoS.AtLeastOnce }) {
+    if (isNil(this.__session)) {
+      return Promise.resolve<ISubscriptionGrant[]>([]);
+    }
+
+    each(isArray(topic) ? topic : [topic], t => {
+      this.__mqttTopics.add(t);
+    });
+
+    const subscribed = this.__connected
+      ? this.__broker.subscribe(this.clientId, topic, options)
+      : Promise.reject<ISubscriptionGrant[]>(new Error('Connection closed'));
+
+    return subscribed.then(
+      granted => {
+        this.dispatchEvent(TransportEvent.SubscribeResolve, [granted]);
+        /**
+         * MQTT 3.1.1被拒绝的订阅返回128，MQTT 5.0返回的是Reason Code
+         */
+        each(granted, g => {
+          if (this.protocolVersion === MqttProtocolVersion.V5 && isFailureReasonCode(g.qos)) {
+            this.dispatchEvent(TransportEvent.ReasonCode, [
+              MqttTransportError.fromReasonCode(g.qos),
+              'suback',
+              g.topic,
+            ]);
+          }
+        });
+        return granted;
+      },
+      (error: Error) => {
+        const transportError = MqttTransportError.from(error);
+        this.dispatchEvent(TransportEvent.SubscribeReject, [transportError]);
+        throw transportError;
+      },
+    );
+  }
+
+  transferOutboundQueue(transport: ITransport) {
+    return this.__outboundQueue.transfer((m, signal) => transport.publish(m.topic, m.message, { ...m.opts, signal }));
+  }
+
+  unsubscribe(topic: string | string[], opts?: Object, callback?: PacketCallback) {
+    if (isNil(this.__session)) {
+      return Promise.resolve(undefined);
+    }
+
+    each(isArray(topic) ? topic : [topic], t => {
+      this.__mqttTopics.delete(t);
+    });
+
+    const unsubscribed = this.__connected
+      ? this.__broker.unsubscribe(this.clientId, topic)
+      : Promise.reject<Packet | undefined>(new Error('Connection closed'));
+
+    return unsubscribed.then(
+      packet => {
+        if (isFunction(callback)) {
+          callback(undefined, packet);
+        }
+        return packet;
+      },
+      (error: Error) => {
+        if (isFunction(callback)) {
+          callback(error);
+        }
+        throw error;
+      },
+    );
+  }
+
+  /**
+   * 下一次连接的时候使用新的连接凭证
+   */
+  updateCredentials(credentials: TransportCredentials) {
+    this.__connection = {
+      ...this.__connection,
+      opts: {
+        ...this.__connection.opts,
+        ...credentials,
+      },
+    };
+  }
+
+  /**
+   * 连接建立之后，按照顺序发布离线发布队列中的消息
+   */
+  private __flushOutboundQueue() {
+    if (!this.connected) {
+      return;
+    }
+
+    this.__outboundQueue.flush(
+      m => this.__publish(m.topic, m.message, m.opts),
+      () => this.connected,
+    );
+  }
+
+  /**
+   * 连接关闭，MQTT 5.0的情况下Broker会先发送DISCONNECT
+   */
+  private __handleClose(session: FakeBrokerSession, packet?: IDisconnectPacket) {
+    if (this.__session !== session) {
+      return;
+    }
+
+    this.__connected = false;
+    this.__reconnecting = false;
+
+    if (!isNil(packet)) {
+      this.dispatchEvent(MqttEvent.Disconnect, [packet]);
+      if (isFailureReasonCode(packet.reasonCode)) {
+        this.dispatchEvent(TransportEvent.ReasonCode, [
+          MqttTransportError.fromReasonCode(packet.reasonCode, packet.properties && packet.properties.reasonString),
+          'disconnect',
+        ]);
+      }
+    }
+    this.dispatchEvent(MqttEvent.Close, []);
+    this.__scheduleReconnect();
+  }
+
+  /**
+   * 向FakeBroker发起连接
+   */
+  private __open() {
+    const session: FakeBrokerSession = {
+      clientId: this.clientId,
+      opts: this.__connection.opts,
+      deliver: (topic, payload, packet) => {
+        this.dispatchEvent(MqttEvent.Message, [topic, payload, packet]);
+      },
+      close: packet => {
+        this.__handleClose(session, packet);
+      },
+      error: error => {
+        this.dispatchEvent(MqttEvent.Error, [MqttTransportError.from(error)]);
+      },
+    };
+
+    this.__session = session;
+    this.__connecting = true;
+    this.__broker.connect(session).then(
+      (connack: IConnackPacket) => {
+        this.__connecting = false;
+        if (this.__session !== session) {
+          return;
+        }
+        /** 连接建立之前调用了end */
+        if (this.__ending) {
+          this.__broker.disconnect(session);
+          return;
+        }
+
+        this.__connected = true;
+        this.__reconnecting = false;
+        this.__reconnectScheduler.reset();
+        this.dispatchEvent(MqttEvent.Connect, [connack]);
+        this.__flushOutboundQueue();
+      },
+      (error: Error) => {
+        this.__connecting = false;
+        if (this.__session !== session || this.__ending) {
+          return;
+        }
+
+        this.dispatchEvent(MqttEvent.Error, [MqttTransportError.from(error)]);
+        this.__handleClose(session);
+      },
+    );
+  }
+
+  private __publish(topic: string, message: string, opts: IClientPublishOptions) {
+    return this.__broker.publish(topic, message, opts, this.clientId);
+  }
+
+  /**
+   * 连接关闭之后，按照{@link ReconnectPolicy}安排下一次重连
+   */
+  private __scheduleReconnect() {
+    if (this.__ending) {
+      return;
+    }
+
+    const scheduled = this.__reconnectScheduler.schedule(() => {
+      if (this.__ending) {
+        return;
+      }
+      this.__reconnecting = true;
+      this.dispatchEvent(MqttEvent.Reconnect, []);
+      this.__open();
+    });
+
+    if (!scheduled) {
+      this.dispatchEvent(TransportEvent.ReconnectExhausted, [this.__reconnectScheduler.attempts]);
+      return;
+    }
+
+    const schedule: ReconnectSchedule = {
+      attempts: this.__reconnectScheduler.attempts,
+      nextReconnectAt: this.__reconnectScheduler.nextReconnectAt,
+    };
+    this.dispatchEvent(TransportEvent.ReconnectScheduled, [schedule]);
+  }
+}
+
+/**
+ * 创建使用{@link LoopbackTransport}的TransportBuilder
+ *
+ * @param broker 内存中的Broker
+ * @param overrides 覆盖默认配置，例如reconnectPolicy、protocolVersion
+ * @returns
+ *
+ * @remarks
+ *
+ * 默认不持久化QoS 1/2 packet（{@link MqttStoreKind.Memory}），遗言payload为空对象（测试环境通常没有crypto.subtle）
+ *
+ * @example
+ *
+ * const broker = FakeBroker.create();
+ * const service = MqttService.create(
+ *   { transportBuilder: createLoopbackTransportBuilder(broker) },
+ *   env
+ * );
+ */
+function createLoopbackTransportBuilder(
+  broker: FakeBroker,
+  overrides: Partial<TransportBuilder> = {},
+): TransportBuilder {
+  return {
+    suspendWhenBrowserTabHidden: false,
+    useSharedClientId: false,
+    store: MqttStoreKind.Memory,
+    willPayload: async () => ({}),
+    build: conn => LoopbackTransport.create(conn, broker),
+    postBuild: () => undefined,
+    ...overrides,
+  };
+}
+
+export { LoopbackTransport, createLoopbackTransportBuilder };
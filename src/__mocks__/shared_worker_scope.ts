@@ -0,0 +1,507 @@
+import { EventEmitter } from 'events';
+import { isArray, isFunction, isNil } from 'lodash';
+import type {
+  CloseCallback,
+  IClientPublishOptions,
+  IClientSubscribeOptions,
+  IConnackPacket,
+  ISubscriptionGrant,
+  MqttClient,
+  PacketCallback,
+} from 'mqtt';
+import mqtt from 'mqtt';
+
+import type { ClientOptions } from '../mqtt/constants';
+import { MqttTransportError } from '../mqtt/errors';
+import { bootSharedWorker } from '../mqtt/shared_worker';
+import type { WorkerMessage, WorkerReply } from '../mqtt/shared_worker_constants';
+import { SharedWorkerMessage, WorkerAction, WorkerFeedback } from '../mqtt/shared_worker_constants';
+import { FakeBroker } from './fake_broker';
+import type { FakeBrokerSession } from './fake_broker';
+
+const DEFAULT_WAIT_TIMEOUT = 5000;
+
+type MessageListener = (event: MessageEvent) => void;
+
+/**
+ * 模拟的MessagePort
+ *
+ * @remarks
+ *
+ * 和浏览器一样，消息经过structured clone之后在下一个宏任务投递给另一端；
+ *   调用start之前收到的消息会暂存，任意一端close之后，两端都不再投递消息
+ */
+class FakeMessagePort {
+  static pair(): [FakeMessagePort, FakeMessagePort] {
+    const aa = new FakeMessagePort();
+    const bb = new FakeMessagePort();
+    aa.__peer = bb;
+    bb.__peer = aa;
+    return [aa, bb];
+  }
+
+  private __closed = false;
+  private __handleClose: () => void = () => undefined;
+  private __listeners = new Set<MessageListener>();
+  private __peer: FakeMessagePort | null = null;
+  private __pending: MessageEvent[] = [];
+  private __started = false;
+  private __whenClosed = new Promise<void>(resolve => (this.__handleClose = resolve));
+
+  get closed() {
+    return this.__closed;
+  }
+
+  /** 任意一端close之后完成 */
+  whenClosed() {
+    return this.__whenClosed;
+  }
+
+  addEventListener(type: string, listener: MessageListener) {
+    if (type === 'message') {
+      this.__listeners.add(listener);
+    }
+  }
+
+  removeEventListener(type: string, listener: MessageListener) {
+    if (type === 'message') {
+      this.__listeners.delete(listener);
+    }
+  }
+
+  start() {
+    this.__started = true;
+
+    const pending = this.__pending;
+    this.__pending = [];
+    pending.forEach(event => this.__receive(event));
+  }
+
+  close() {
+    this.__closed = true;
+    this.__handleClose();
+    if (this.__peer !== null) {
+      this.__peer.__closed = true;
+      this.__peer.__handleClose();
+    }
+  }
+
+  postMessage(message: any) {
+    const peer = this.__peer;
+    if (this.__closed || peer === null) {
+      return;
+    }
+
+    const event = { data: structuredClone(message), ports: [] } as unknown as MessageEvent;
+    setTimeout(() => peer.__receive(event), 0);
+  }
+
+  private __receive(event: MessageEvent) {
+    if (this.__closed) {
+      return;
+    }
+
+    if (!this.__started) {
+      this.__pending.push(event);
+      return;
+    }
+
+    this.__listeners.forEach(listener => listener(event));
+  }
+}
+
+type FeedbackWaiter = {
+  predicate: (message: WorkerMessage) => boolean;
+  resolve: (message: WorkerMessage) => void;
+};
+
+/**
+ * 模拟的Browser Tab，扮演SharedWorkerTransport与SharedWorker通信的一端
+ *
+ * @remarks
+ *
+ * 和SharedWorkerTransport一样自动回应Ping，并且把WorkerFeedback.Reply还原成指令的执行结果
+ */
+class FakeBrowserTab {
+  static create(port: FakeMessagePort) {
+    return new FakeBrowserTab(port);
+  }
+
+  private __port: FakeMessagePort;
+  private __received: WorkerMessage[] = [];
+  private __seq = 0;
+  private __waiters = new Set<FeedbackWaiter>();
+
+  constructor(port: FakeMessagePort) {
+    this.__port = port;
+    this.__port.addEventListener('message', this.__handleMessage);
+    this.__port.start();
+  }
+
+  /** SharedWorker是否已经关闭了这个Browser Tab的MessagePort */
+  get closed() {
+    return this.__port.closed;
+  }
+
+  /** 收到的所有消息，不包括Ping */
+  get received() {
+    return this.__received;
+  }
+
+  receivedOf(type: WorkerFeedback) {
+    return this.__received.filter(m => m.type === type);
+  }
+
+  /**
+   * 发送指令，不等待执行结果
+   *
+   * @param type
+   * @param args
+   */
+  post(type: WorkerAction, args: any = {}) {
+    this.__port.postMessage(SharedWorkerMessage.create({ args, type }));
+  }
+
+  /**
+   * 发送携带关联ID的指令，等待SharedWorker单播的WorkerFeedback.Reply
+   *
+   * @param type
+   * @param args
+   * @returns 指令的执行结果
+   */
+  async request<T = any>(type: WorkerAction, args: any = {}): Promise<T> {
+    const id = `${++this.__seq}`;
+    const replied = this.waitFor(WorkerFeedback.Reply, m => m.id === id);
+    this.__port.postMessage(SharedWorkerMessage.create({ args, id, type }));
+
+    const { args: reply } = await replied;
+    const { error, result } = reply as WorkerReply;
+    if (error) {
+      throw new MqttTransportError(error);
+    }
+    return result;
+  }
+
+  /**
+   * 等待下一条匹配的消息，调用之前已经收到的消息不算
+   *
+   * @param type
+   * @param predicate
+   * @param timeout
+   * @returns
+   */
+  waitFor(
+    type: WorkerFeedback,
+    predicate: (message: WorkerMessage) => boolean = () => true,
+    timeout = DEFAULT_WAIT_TIMEOUT,
+  ): Promise<WorkerMessage> {
+    return new Promise((resolve, reject) => {
+      const waiter: FeedbackWaiter = {
+        predicate: m => m.type === type && predicate(m),
+        resolve: m => {
+          clearTimeout(timer);
+          this.__waiters.delete(waiter);
+          resolve(m);
+        },
+      };
+      const timer = setTimeout(() => {
+        this.__waiters.delete(waiter);
+        reject(new Error(`FakeBrowserTab: wait for ${type} timeout after ${timeout}ms`));
+      }, timeout);
+
+      this.__waiters.add(waiter);
+    });
+  }
+
+  /** 模拟关闭Browser Tab */
+  unload() {
+    this.post(WorkerAction.BeforeBrowserTabUnload);
+  }
+
+  /** SharedWorker关闭这个Browser Tab的MessagePort之后完成 */
+  whenClosed() {
+    return this.__port.whenClosed();
+  }
+
+  private __handleMessage = (event: MessageEvent<WorkerMessage>) => {
+    const message = event.data;
+    if (message.type === WorkerFeedback.Ping) {
+      this.post(WorkerAction.Pong);
+      return;
+    }
+
+    this.__received.push(message);
+    Array.from(this.__waiters.values())
+      .filter(w => w.predicate(message))
+      .forEach(w => w.resolve(message));
+  };
+}
+
+/**
+ * 模拟的SharedWorkerGlobalScope，每一次connect相当于一个Browser Tab调用了new SharedWorker
+ *
+ * @example
+ *
+ * const scope = FakeSharedWorkerGlobalScope.boot();
+ * const tab = scope.connect();
+ * tab.post(WorkerAction.MqttConnect, { brokerUrl, opts });
+ * await tab.waitFor(WorkerFeedback.MqttConnect);
+ */
+class FakeSharedWorkerGlobalScope {
+  /**
+   * 创建模拟的全局作用域，并且在上面运行bootSharedWorker
+   */
+  static boot() {
+    const scope = new FakeSharedWorkerGlobalScope();
+    bootSharedWorker(scope as unknown as SharedWorkerGlobalScope);
+    return scope;
+  }
+
+  onconnect: ((event: MessageEvent) => any) | null = null;
+
+  private __tabs: FakeBrowserTab[] = [];
+
+  get tabs() {
+    return this.__tabs;
+  }
+
+  connect() {
+    const [tabPort, workerPort] = FakeMessagePort.pair();
+    const tab = FakeBrowserTab.create(tabPort);
+    this.__tabs.push(tab);
+
+    if (this.onconnect) {
+      this.onconnect({ data: null, ports: [workerPort] } as unknown as MessageEvent);
+    }
+    return tab;
+  }
+}
+
+type LocalBrokerEvent = 'client' | 'clientDisconnect' | 'subscribe' | 'unsubscribe';
+
+/**
+ * 连接到{@link FakeBroker}的MqttClient，只实现SharedWorker用到的部分
+ *
+ * @remarks
+ *
+ * 和MqttClient一样异步派发事件，不会自动重连；连接、断开、订阅、取消订阅通过observer通知{@link LocalBroker}
+ */
+class FakeMqttClient extends EventEmitter {
+  connected = false;
+  options: ClientOptions;
+  reconnecting = false;
+
+  private __broker: FakeBroker;
+  /** 是否主动调用了end */
+  private __ending = false;
+  private __observer: EventEmitter;
+  /** 当前（或者最近一次）连接 */
+  private __session: FakeBrokerSession | null = null;
+
+  constructor(broker: FakeBroker, opts: ClientOptions, observer: EventEmitter) {
+    super();
+    this.__broker = broker;
+    this.__observer = observer;
+    this.options = opts;
+    this.__open();
+  }
+
+  end(force?: boolean, opts?: Object, cb?: CloseCallback) {
+    const session = this.__session;
+    const wasConnected = this.connected;
+
+    this.__ending = true;
+    this.__session = null;
+    this.connected = false;
+    this.reconnecting = false;
+    if (!isNil(session)) {
+      this.__broker.disconnect(session);
+    }
+    if (wasConnected) {
+      this.__observer.emit('clientDisconnect');
+    }
+
+    Promise.resolve().then(() => {
+      if (wasConnected) {
+        this.emit('close');
+      }
+      this.emit('end');
+      if (isFunction(cb)) {
+        cb();
+      }
+    });
+    return this;
+  }
+
+  publish(topic: string, message: string | Uint8Array, opts: IClientPublishOptions, cb?: PacketCallback) {
+    this.__broker.publish(topic, message, opts, this.options.clientId).then(
+      packet => isFunction(cb) && cb(undefined, packet),
+      (error: Error) => isFunction(cb) && cb(error),
+    );
+    return this;
+  }
+
+  reconnect() {
+    if (!isNil(this.__session)) {
+      return this;
+    }
+
+    this.__ending = false;
+    this.reconnecting = true;
+    this.emit('reconnect');
+    this.__open();
+    return this;
+  }
+
+  subscribe(
+    topic: string | string[],
+    options: IClientSubscribeOptions,
+    cb?: (error: Error | null, granted: ISubscriptionGrant[]) => void,
+  ) {
+    const topics = isArray(topic) ? topic : [topic];
+    this.__observer.emit('subscribe', topics);
+    this.__broker.subscribe(this.options.clientId, topics, options).then(
+      granted => isFunction(cb) && cb(null, granted),
+      (error: Error) => isFunction(cb) && cb(error, []),
+    );
+    return this;
+  }
+
+  unsubscribe(topic: string | string[], opts?: Object | PacketCallback, cb?: PacketCallback) {
+    const callback = isFunction(opts) ? opts : cb;
+    const topics = isArray(topic) ? topic : [topic];
+    this.__observer.emit('unsubscribe', topics);
+    this.__broker.unsubscribe(this.options.clientId, topics).then(
+      packet => isFunction(callback) && callback(undefined, packet),
+      (error: Error) => isFunction(callback) && callback(error),
+    );
+    return this;
+  }
+
+  private __open() {
+    const session: FakeBrokerSession = {
+      clientId: this.options.clientId,
+      opts: this.options,
+      deliver: (topic, payload, packet) => {
+        this.emit('message', topic, payload, packet);
+      },
+      close: packet => {
+        if (this.__session !== session) {
+          return;
+        }
+        this.__session = null;
+        this.connected = false;
+        this.reconnecting = false;
+        this.__observer.emit('clientDisconnect');
+        if (!isNil(packet)) {
+          this.emit('disconnect', packet);
+        }
+        this.emit('close');
+      },
+      error: error => {
+        this.emit('error', error);
+      },
+    };
+
+    this.__session = session;
+    this.__broker.connect(session).then(
+      (connack: IConnackPacket) => {
+        if (this.__session !== session || this.__ending) {
+          return;
+        }
+
+        this.connected = true;
+        this.reconnecting = false;
+        this.__observer.emit('client');
+        this.emit('connect', connack);
+      },
+      (error: Error) => {
+        if (this.__session !== session || this.__ending) {
+          return;
+        }
+
+        this.__session = null;
+        this.reconnecting = false;
+        this.emit('error', error);
+        this.emit('close');
+      },
+    );
+  }
+}
+
+/**
+ * 进程内的Mqtt Broker（{@link FakeBroker}），SharedWorker调用mqtt.connect创建的MqttClient都会连接到它
+ *
+ * @remarks
+ *
+ * 记录每一次SUBSCRIBE、UNSUBSCRIBE的主题，用于断言SharedWorker是否合并了多个Browser Tab的订阅
+ */
+class LocalBroker {
+  static start() {
+    return new LocalBroker(FakeBroker.create());
+  }
+
+  readonly brokerUrl = 'mqtt://local-broker';
+  readonly subscribes: string[][] = [];
+  readonly unsubscribes: string[][] = [];
+
+  private __broker: FakeBroker;
+  private __connect: jest.SpyInstance;
+  private __observer = new EventEmitter();
+
+  constructor(broker: FakeBroker) {
+    this.__broker = broker;
+    this.__connect = jest
+      .spyOn(mqtt, 'connect')
+      .mockImplementation(
+        (_: any, opts?: any) =>
+          new FakeMqttClient(this.__broker, opts as ClientOptions, this.__observer) as unknown as MqttClient,
+      );
+
+    this.__observer.on('subscribe', (topics: string[]) => {
+      this.subscribes.push(topics);
+    });
+    this.__observer.on('unsubscribe', (topics: string[]) => {
+      this.unsubscribes.push(topics);
+    });
+  }
+
+  /** 当前连接的客户端数量 */
+  get connectedClients() {
+    return this.__broker.clients.length;
+  }
+
+  async publish(topic: string, message: string) {
+    await this.__broker.publish(topic, message);
+  }
+
+  /**
+   * 等待Broker的下一个事件，例如客户端连接（client）、断开（clientDisconnect）、取消订阅（unsubscribe）
+   *
+   * @param event
+   * @param timeout
+   * @returns
+   */
+  waitFor(event: LocalBrokerEvent, timeout = DEFAULT_WAIT_TIMEOUT) {
+    return new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.__observer.removeListener(event, listener);
+        reject(new Error(`LocalBroker: wait for ${event} timeout after ${timeout}ms`));
+      }, timeout);
+      const listener = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+
+      this.__observer.once(event, listener);
+    });
+  }
+
+  async close() {
+    this.__connect.mockRestore();
+    this.__broker.reset();
+    await this.__broker.flush();
+  }
+}
+
+export { FakeBrowserTab, FakeMessagePort, FakeSharedWorkerGlobalScope, LocalBroker };
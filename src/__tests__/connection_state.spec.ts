@@ -0,0 +1,119 @@
+import { ConnectionStateMachine } from '../mqtt/connection_state';
+import type { ConnectionStatus, ITransport } from '../mqtt/constants';
+import { ConnectionState, MqttEvent, TransportEvent } from '../mqtt/constants';
+
+function createMachine(state?: ConnectionState) {
+  const onChange = jest.fn<void, [ConnectionStatus, ConnectionStatus]>();
+  const machine = ConnectionStateMachine.create(onChange);
+  if (state) {
+    machine.transition(state);
+    onChange.mockClear();
+  }
+  return { machine, onChange };
+}
+
+describe('ConnectionStateMachine', () => {
+  test('infer from transport', () => {
+    expect(ConnectionStateMachine.infer()).toBe(ConnectionState.Idle);
+    expect(ConnectionStateMachine.infer({ connected: true, reconnecting: false } as ITransport)).toBe(
+      ConnectionState.Online,
+    );
+    expect(ConnectionStateMachine.infer({ connected: false, reconnecting: true } as ITransport)).toBe(
+      ConnectionState.Reconnecting,
+    );
+    expect(ConnectionStateMachine.infer({ connected: false, reconnecting: false } as ITransport)).toBe(
+      ConnectionState.Idle,
+    );
+  });
+
+  test('connect, drop and reconnect', () => {
+    const { machine, onChange } = createMachine(ConnectionState.Connecting);
+
+    machine.digest(MqttEvent.Connect, []);
+    expect(machine.state).toBe(ConnectionState.Online);
+
+    machine.digest(MqttEvent.Close, []);
+    expect(machine.state).toBe(ConnectionState.Offline);
+
+    machine.digest(TransportEvent.ReconnectScheduled, []);
+    expect(machine.state).toBe(ConnectionState.Reconnecting);
+
+    /** 重连期间MqttClient派发的close/offline不会打断Reconnecting */
+    machine.digest(MqttEvent.Offline, []);
+    expect(machine.state).toBe(ConnectionState.Reconnecting);
+
+    machine.digest(MqttEvent.Connect, []);
+    expect(onChange.mock.calls.map(([next]) => next.state)).toEqual([
+      ConnectionState.Online,
+      ConnectionState.Offline,
+      ConnectionState.Reconnecting,
+      ConnectionState.Online,
+    ]);
+  });
+
+  test('notify only on change', () => {
+    const { machine, onChange } = createMachine(ConnectionState.Online);
+
+    machine.digest(MqttEvent.Connect, []);
+    machine.transition(ConnectionState.Online);
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  test('keep Suspended, Ended and Failed on close', () => {
+    for (const state of [ConnectionState.Suspended, ConnectionState.Ended, ConnectionState.Failed]) {
+      const { machine } = createMachine(state);
+      machine.digest(MqttEvent.Close, []);
+      machine.digest(MqttEvent.Disconnect, []);
+      machine.digest(MqttEvent.Offline, []);
+      expect(machine.state).toBe(state);
+    }
+  });
+
+  test('end', () => {
+    const { machine } = createMachine(ConnectionState.Online);
+    machine.digest(MqttEvent.End, []);
+    expect(machine.state).toBe(ConnectionState.Ended);
+
+    const suspended = createMachine(ConnectionState.Suspended).machine;
+    suspended.digest(MqttEvent.End, []);
+    expect(suspended.state).toBe(ConnectionState.Suspended);
+  });
+
+  test('keep the failure after the transport ends', () => {
+    const { machine } = createMachine(ConnectionState.Reconnecting);
+    const error = new Error('Connection refused');
+
+    machine.digest(MqttEvent.Error, [error]);
+    machine.digest(TransportEvent.ReconnectExhausted, [3]);
+    machine.digest(MqttEvent.End, []);
+
+    expect(machine.state).toBe(ConnectionState.Failed);
+    expect(machine.status.lastError).toBe(error);
+  });
+
+  test('record errors without changing state', () => {
+    const { machine, onChange } = createMachine(ConnectionState.Online);
+    const { since } = machine.status;
+    const error = new Error('Subscribe error');
+
+    machine.digest(MqttEvent.Error, [error]);
+    expect(machine.status).toMatchObject({ state: ConnectionState.Online, since, lastError: error });
+    expect(machine.status.lastErrorAt).not.toBeNull();
+    expect(onChange).toHaveBeenCalledTimes(1);
+  });
+
+  test('fail', () => {
+    const { machine } = createMachine(ConnectionState.Online);
+    const error = new Error('Not authorized');
+
+    machine.fail(error);
+    expect(machine.state).toBe(ConnectionState.Failed);
+    expect(machine.status.lastError).toBe(error);
+  });
+
+  test('evicted', () => {
+    const { machine } = createMachine(ConnectionState.Online);
+    machine.digest(TransportEvent.Evicted, []);
+    expect(machine.state).toBe(ConnectionState.Offline);
+  });
+});
@@ -0,0 +1,84 @@
+import type { Packet } from 'mqtt';
+
+import { LastMessageCache } from '../mqtt/last_message_cache';
+
+type Subscriber = { name: string };
+
+function createPacket(topic: string) {
+  return { cmd: 'publish', topic } as Packet;
+}
+
+function set(cache: LastMessageCache<Subscriber>, topic: string, recipients: Subscriber[] = []) {
+  cache.set(topic, new TextEncoder().encode(topic), createPacket(topic), recipients);
+  jest.advanceTimersByTime(1);
+}
+
+describe('LastMessageCache', () => {
+  const a = { name: 'a' };
+  const b = { name: 'b' };
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('replay missed messages once', () => {
+    const cache = LastMessageCache.create<Subscriber>();
+    set(cache, 'iot/v1/c/123/device', [a]);
+    set(cache, 'iot/v1/c/123/online', [a]);
+    set(cache, 'iot/v1/c/456/device', [a]);
+
+    expect(cache.missedBy(a, ['iot/v1/c/123/#'])).toEqual([]);
+    expect(cache.missedBy(b, ['iot/v1/c/123/#']).map(m => m.topic)).toEqual([
+      'iot/v1/c/123/device',
+      'iot/v1/c/123/online',
+    ]);
+    expect(cache.missedBy(b, ['iot/v1/c/123/#'])).toEqual([]);
+    expect(cache.missedBy(b, ['iot/v1/c/+/device']).map(m => m.topic)).toEqual(['iot/v1/c/456/device']);
+  });
+
+  test('keep the last message per topic', () => {
+    const cache = LastMessageCache.create<Subscriber>();
+    set(cache, 'iot/v1/c/123/device', [a]);
+    set(cache, 'iot/v1/c/123/online');
+    set(cache, 'iot/v1/c/123/device');
+
+    expect(cache.size).toBe(2);
+
+    /** 重新收到的消息还没有发给a，并且按照接收时间排在后面 */
+    const missed = cache.missedBy(a, ['#']);
+    expect(missed.map(m => m.topic)).toEqual(['iot/v1/c/123/online', 'iot/v1/c/123/device']);
+    expect(new TextDecoder().decode(missed[1].payload)).toBe('iot/v1/c/123/device');
+    expect(missed[1].packet).toEqual(createPacket('iot/v1/c/123/device'));
+  });
+
+  test('evict the least recently updated topic', () => {
+    const cache = LastMessageCache.create<Subscriber>(2);
+    set(cache, 'a');
+    set(cache, 'b');
+    set(cache, 'a');
+    set(cache, 'c');
+
+    expect(cache.size).toBe(2);
+    expect(cache.missedBy(a, ['#']).map(m => m.topic)).toEqual(['a', 'c']);
+  });
+
+  test('disabled with zero capacity', () => {
+    const cache = LastMessageCache.create<Subscriber>(0);
+    set(cache, 'a');
+
+    expect(cache.size).toBe(0);
+    expect(cache.missedBy(a, ['#'])).toEqual([]);
+  });
+
+  test('clear', () => {
+    const cache = LastMessageCache.create<Subscriber>();
+    set(cache, 'a');
+    cache.clear();
+
+    expect(cache.missedBy(a, ['#'])).toEqual([]);
+  });
+});
@@ -0,0 +1,122 @@
+import { MUTEX_RETRY_INTERVAL } from '../mqtt/cross_tab_mutex';
+import { LEADER_LEASE_DURATION, LEADER_LEASE_RENEW_INTERVAL, LeaderElector } from '../mqtt/leader_election';
+
+const NAME = 'mqtt_leader_client-1';
+
+function writeLease(owner: string, expiresAt = Date.now() + LEADER_LEASE_DURATION) {
+  localStorage.setItem(NAME, JSON.stringify({ owner, expiresAt }));
+}
+
+function readLease() {
+  const text = localStorage.getItem(NAME);
+  return text === null ? null : JSON.parse(text);
+}
+
+/** jsdom没有实现Web Locks API，这里覆盖的是localStorage租约 */
+describe('LeaderElector', () => {
+  const electors: LeaderElector[] = [];
+
+  function createElector(candidate: string) {
+    const elector = LeaderElector.create(NAME, candidate);
+    electors.push(elector);
+    return elector;
+  }
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    electors.splice(0).forEach(e => e.resign());
+    localStorage.clear();
+    jest.useRealTimers();
+  });
+
+  test('acquire the lease once confirmed', async () => {
+    const a = createElector('a');
+    const onElected = jest.fn();
+
+    a.elect(onElected);
+    await jest.advanceTimersByTimeAsync(MUTEX_RETRY_INTERVAL - 1);
+    expect(onElected).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(onElected).toHaveBeenCalledTimes(1);
+    expect(a.isLeader).toBeTruthy();
+    expect(readLease()).toMatchObject({ owner: 'a' });
+
+    /** 续约不会重复通知 */
+    await jest.advanceTimersByTimeAsync(LEADER_LEASE_RENEW_INTERVAL * 3);
+    expect(onElected).toHaveBeenCalledTimes(1);
+  });
+
+  test('yield to the last writer', async () => {
+    const a = createElector('a');
+    const onElected = jest.fn();
+
+    a.elect(onElected);
+    /** 另一个Browser Tab在a写入之前读到了空的租约，并且在a确认之前写入 */
+    writeLease('x');
+    await jest.advanceTimersByTimeAsync(MUTEX_RETRY_INTERVAL);
+
+    expect(onElected).not.toHaveBeenCalled();
+    expect(a.isLeader).toBeFalsy();
+    expect(readLease()).toMatchObject({ owner: 'x' });
+  });
+
+  test('yield to a live lease', async () => {
+    writeLease('x');
+    const a = createElector('a');
+
+    a.elect(() => undefined);
+    await jest.advanceTimersByTimeAsync(LEADER_LEASE_DURATION - 1);
+    expect(a.isLeader).toBeFalsy();
+    expect(readLease()).toMatchObject({ owner: 'x' });
+  });
+
+  test('take over after resign', async () => {
+    const a = createElector('a');
+    const b = createElector('b');
+    a.elect(() => undefined);
+    await jest.advanceTimersByTimeAsync(MUTEX_RETRY_INTERVAL);
+    b.elect(() => undefined);
+    await jest.advanceTimersByTimeAsync(MUTEX_RETRY_INTERVAL);
+    expect(b.isLeader).toBeFalsy();
+
+    a.resign();
+    expect(a.isLeader).toBeFalsy();
+    expect(readLease()).toBeNull();
+
+    await jest.advanceTimersByTimeAsync(LEADER_LEASE_RENEW_INTERVAL);
+    expect(b.isLeader).toBeTruthy();
+  });
+
+  test('take over after expiry', async () => {
+    /** Leader崩溃了，没有机会释放租约 */
+    writeLease('x');
+    const b = createElector('b');
+    b.elect(() => undefined);
+
+    await jest.advanceTimersByTimeAsync(LEADER_LEASE_DURATION + LEADER_LEASE_RENEW_INTERVAL);
+    expect(b.isLeader).toBeTruthy();
+    expect(readLease()).toMatchObject({ owner: 'b' });
+  });
+
+  test('depose when the lease is taken over', async () => {
+    const a = createElector('a');
+    const onDeposed = jest.fn();
+    a.elect(() => undefined, onDeposed);
+    await jest.advanceTimersByTimeAsync(MUTEX_RETRY_INTERVAL);
+    expect(a.isLeader).toBeTruthy();
+
+    /** 后台的Browser Tab被节流，租约过期之后被其他Browser Tab抢占 */
+    writeLease('x');
+    await jest.advanceTimersByTimeAsync(LEADER_LEASE_RENEW_INTERVAL);
+    expect(a.isLeader).toBeFalsy();
+    expect(onDeposed).toHaveBeenCalledTimes(1);
+
+    /** resign不会删除其他Browser Tab的租约 */
+    a.resign();
+    expect(readLease()).toMatchObject({ owner: 'x' });
+  });
+});
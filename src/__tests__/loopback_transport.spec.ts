@@ -0,0 +1,238 @@
+import type { IPublishPacket } from 'mqtt';
+
+import { FakeBroker } from '../__mocks__/fake_broker';
+import { LoopbackTransport } from '../__mocks__/loopback_transport';
+import type { ITransport } from '../mqtt/constants';
+import { MqttEvent, MqttQoS, TransportEvent } from '../mqtt/constants';
+
+const CLIENT_ID = 'client-1';
+
+function createTransport(broker: FakeBroker, clientId = CLIENT_ID): ITransport {
+  return LoopbackTransport.create(
+    {
+      brokerUrl: 'loopback://broker',
+      opts: {
+        clientId,
+        password: 'password',
+        will: {
+          topic: `iot/v1/cb/${clientId}/disconnect`,
+          payload: JSON.stringify({ clientId }),
+          qos: MqttQoS.AtLeastOnce,
+          retain: false,
+        },
+      },
+      reconnectPolicy: {
+        initialDelay: 0,
+        jitter: 0,
+        maxAttempts: 3,
+      },
+    },
+    broker,
+  );
+}
+
+function listen(transport: ITransport, event: MqttEvent | TransportEvent) {
+  const func = jest.fn();
+  transport.addEventListener(event, { thisArg: null, func });
+  return func;
+}
+
+async function connect(transport: ITransport, broker: FakeBroker) {
+  transport.connect();
+  await broker.flush();
+}
+
+describe('LoopbackTransport', () => {
+  let broker: FakeBroker;
+
+  beforeEach(() => {
+    broker = FakeBroker.create();
+  });
+
+  test('connect', async () => {
+    const transport = createTransport(broker);
+    const onConnect = listen(transport, MqttEvent.Connect);
+
+    await connect(transport, broker);
+
+    expect(transport.connected).toBeTruthy();
+    expect(broker.clients).toEqual([CLIENT_ID]);
+    expect(onConnect).toBeCalledTimes(1);
+    expect(onConnect.mock.calls[0][0]).toMatchObject({ cmd: 'connack', returnCode: 0 });
+  });
+
+  test('deliver once to overlapping subscriptions', async () => {
+    const transport = createTransport(broker);
+    const onMessage = listen(transport, MqttEvent.Message);
+    await connect(transport, broker);
+
+    const granted = await transport.subscribe(['a/+/c', 'a/#'], { qos: MqttQoS.AtLeastOnce });
+    expect(granted).toEqual([
+      { topic: 'a/+/c', qos: MqttQoS.AtLeastOnce },
+      { topic: 'a/#', qos: MqttQoS.AtLeastOnce },
+    ]);
+
+    await broker.publish('a/b/c', 'hello', { qos: MqttQoS.OnlyOnce });
+    await broker.publish('x/y', 'ignored');
+    await broker.flush();
+
+    expect(onMessage).toBeCalledTimes(1);
+    const [topic, payload, packet] = onMessage.mock.calls[0] as [string, Uint8Array, IPublishPacket];
+    expect(topic).toBe('a/b/c');
+    expect(new TextDecoder().decode(payload)).toBe('hello');
+    expect(packet.qos).toBe(MqttQoS.AtLeastOnce);
+  });
+
+  test('acknowledge by QoS', async () => {
+    const transport = createTransport(broker);
+    await connect(transport, broker);
+
+    await expect(transport.publish('a', 'qos0', { qos: MqttQoS.Once })).resolves.toBeUndefined();
+    await expect(transport.publish('a', 'qos1', { qos: MqttQoS.AtLeastOnce })).resolves.toMatchObject({
+      cmd: 'puback',
+    });
+    await expect(transport.publish('a', 'qos2', { qos: MqttQoS.OnlyOnce })).resolves.toMatchObject({
+      cmd: 'pubcomp',
+    });
+    expect(broker.published.map(p => p.topic)).toEqual(['a', 'a', 'a']);
+  });
+
+  test('queue publishes until connected', async () => {
+    const transport = createTransport(broker);
+    transport.connect();
+
+    const published = transport.publish('a', 'queued', { qos: MqttQoS.AtLeastOnce });
+    expect(transport.queueDepth).toBe(1);
+
+    await expect(published).resolves.toMatchObject({ cmd: 'puback' });
+    expect(transport.queueDepth).toBe(0);
+  });
+
+  test('drop aborted publishes from queue', async () => {
+    const transport = createTransport(broker);
+    const controller = new AbortController();
+
+    const published = transport.publish('a', 'rpc', { qos: MqttQoS.AtLeastOnce, signal: controller.signal });
+    expect(transport.queueDepth).toBe(1);
+
+    controller.abort();
+    expect(transport.queueDepth).toBe(0);
+    await expect(published).resolves.toBeUndefined();
+
+    await connect(transport, broker);
+    expect(broker.published).toEqual([]);
+  });
+
+  test('keep queue after end', async () => {
+    const transport = createTransport(broker);
+    await connect(transport, broker);
+
+    transport.end(true);
+    await broker.flush();
+    const published = transport.publish('a', 'queued', { qos: MqttQoS.AtLeastOnce });
+    expect(transport.queueDepth).toBe(1);
+
+    transport.reconnect();
+    await expect(published).resolves.toMatchObject({ cmd: 'puback' });
+    expect(transport.queueDepth).toBe(0);
+  });
+
+  test('clear queue', async () => {
+    const transport = createTransport(broker);
+    const published = transport.publish('a', 'queued', { qos: MqttQoS.AtLeastOnce });
+
+    transport.clearOutboundQueue();
+    await expect(published).resolves.toBeUndefined();
+    expect(transport.queueDepth).toBe(0);
+  });
+
+  test('transfer queue', async () => {
+    const stale = createTransport(broker);
+    const transport = createTransport(broker);
+    const published = stale.publish('a', 'queued', { qos: MqttQoS.AtLeastOnce });
+
+    await stale.transferOutboundQueue(transport);
+    expect(stale.queueDepth).toBe(0);
+    expect(transport.queueDepth).toBe(1);
+
+    await connect(transport, broker);
+    await expect(published).resolves.toMatchObject({ cmd: 'puback' });
+    expect(broker.published.map(p => p.topic)).toEqual(['a']);
+  });
+
+  test('retained messages', async () => {
+    await broker.publish('a/b', 'retained', { qos: MqttQoS.AtLeastOnce, retain: true });
+    expect(broker.retained).toEqual(['a/b']);
+
+    const transport = createTransport(broker);
+    const onMessage = listen(transport, MqttEvent.Message);
+    await connect(transport, broker);
+    await transport.subscribe('a/+');
+    await broker.flush();
+
+    expect(onMessage).toBeCalledTimes(1);
+    expect((onMessage.mock.calls[0][2] as IPublishPacket).retain).toBeTruthy();
+
+    await broker.publish('a/b', '', { retain: true });
+    expect(broker.retained).toEqual([]);
+  });
+
+  test('forced disconnect publishes will and reconnects', async () => {
+    const transport = createTransport(broker);
+    const onClose = listen(transport, MqttEvent.Close);
+    const onConnect = listen(transport, MqttEvent.Connect);
+    const onScheduled = listen(transport, TransportEvent.ReconnectScheduled);
+    await connect(transport, broker);
+
+    broker.kick(CLIENT_ID);
+    await broker.flush();
+
+    expect(broker.published.map(p => p.topic)).toEqual([`iot/v1/cb/${CLIENT_ID}/disconnect`]);
+    expect(onClose).toBeCalledTimes(1);
+    expect(onScheduled).toBeCalledTimes(1);
+
+    await broker.flush();
+    expect(onConnect).toBeCalledTimes(2);
+    expect(transport.connected).toBeTruthy();
+  });
+
+  test('end does not publish will', async () => {
+    const transport = createTransport(broker);
+    const onEnd = listen(transport, MqttEvent.End);
+    await connect(transport, broker);
+
+    transport.end(true);
+    await broker.flush();
+
+    expect(onEnd).toBeCalledTimes(1);
+    expect(transport.connected).toBeFalsy();
+    expect(broker.clients).toEqual([]);
+    expect(broker.published).toEqual([]);
+  });
+
+  test('inject errors', async () => {
+    const transport = createTransport(broker);
+    const onError = listen(transport, MqttEvent.Error);
+    const onReject = listen(transport, TransportEvent.SubscribeReject);
+
+    broker.inject('connect', new Error('Connection refused: Not authorized'));
+    await connect(transport, broker);
+    expect(onError).toBeCalledTimes(1);
+    expect(transport.connected).toBeFalsy();
+
+    await broker.flush();
+    expect(transport.connected).toBeTruthy();
+
+    broker.inject('subscribe', new Error('Subscribe error'));
+    await expect(transport.subscribe('a')).rejects.toThrow('Subscribe error');
+    expect(onReject).toBeCalledTimes(1);
+
+    broker.reject('b');
+    await expect(transport.subscribe('b')).resolves.toEqual([{ topic: 'b', qos: 128 }]);
+
+    broker.fail(CLIENT_ID, new Error('ECONNRESET'));
+    await broker.flush();
+    expect(onError).toBeCalledTimes(2);
+    expect(transport.connected).toBeTruthy();
+  });
+});
@@ -0,0 +1,289 @@
+import { FakeBroker } from '../__mocks__/fake_broker';
+import { useMSTDependence } from '../__mocks__/hooks';
+import { createLoopbackTransportBuilder } from '../__mocks__/loopback_transport';
+import { Business } from '../mqtt/business';
+import {
+  CK_ACCESS_TOKEN,
+  CK_MQTT_CLIENT_ID,
+  CK_MQTT_HOST,
+  CK_MQTT_HOST_PROTOCOL,
+  CK_MQTT_PASSWORD,
+  CK_WATCHED_BUSINESS_PREFIX,
+  MqttEvent,
+  MqttQoS,
+  MqttServiceState,
+  TransportEvent,
+} from '../mqtt/constants';
+import { MqttService } from '../mqtt/mqtt_service';
+
+const CLIENT_ID = 'client-1';
+const SUBJECT = 'layout_device/status';
+
+type Env = ReturnType<typeof useMSTDependence>;
+
+async function createEnv(): Promise<Env> {
+  const env = useMSTDependence();
+  (env.api.post as jest.Mock).mockResolvedValue({ code: 200, data: true, desc: '' });
+
+  await env.cache.setItem(CK_ACCESS_TOKEN, 'header.payload.signature');
+  await env.cache.setItem(CK_MQTT_PASSWORD, 'password');
+  await env.cache.setItem(CK_MQTT_HOST, 'broker');
+  await env.cache.setItem(CK_MQTT_HOST_PROTOCOL, 'loopback');
+  await env.cache.setItem(CK_MQTT_CLIENT_ID, CLIENT_ID);
+  return env;
+}
+
+function createService(broker: FakeBroker, env: Env) {
+  return MqttService.create(
+    {
+      id: 'user-1',
+      /** 共享缓存中的clientId，不需要调用API获取 */
+      transportBuilder: createLoopbackTransportBuilder(broker, {
+        useSharedClientId: true,
+        reconnectPolicy: { initialDelay: 0, jitter: 0 },
+      }),
+    },
+    env,
+  );
+}
+
+function notified(env: Env, url: string) {
+  return (env.api.post as jest.Mock).mock.calls.filter(([u]) => u === url).length;
+}
+
+function publishTo(broker: FakeBroker, subject: string, bid: number) {
+  return broker.publish(
+    `iot/v1/c/${CLIENT_ID}/${subject}`,
+    JSON.stringify({
+      clientId: CLIENT_ID,
+      method: 'report',
+      payload: { bid },
+      service: subject,
+      srcAddr: 'api',
+    }),
+  );
+}
+
+describe('MqttService with LoopbackTransport', () => {
+  let broker: FakeBroker;
+  let env: Env;
+  let service: MqttService;
+
+  beforeEach(async () => {
+    broker = FakeBroker.create();
+    env = await createEnv();
+    service = createService(broker, env);
+    await service.init();
+    await broker.flush();
+  });
+
+  afterEach(async () => {
+    await service.quit();
+  });
+
+  test('init', () => {
+    expect(service.state).toBe(MqttServiceState.Running);
+    expect(broker.clients).toEqual([CLIENT_ID]);
+    expect(broker.subscriptionsOf(CLIENT_ID)).toEqual([`iot/v1/c/${CLIENT_ID}/#`]);
+  });
+
+  test('watch and unwatch', async () => {
+    const worker = service.createWorker();
+    const business = Business.create({ subject: SUBJECT, bid: 1 });
+    const handler = jest.fn();
+
+    await worker.watch(business, handler);
+    expect(worker.isWatching(business)).toBeTruthy();
+    expect(notified(env, '/v2/client/notify/sub')).toBe(1);
+
+    await publishTo(broker, SUBJECT, 1);
+    await publishTo(broker, SUBJECT, 2);
+    await broker.flush();
+    expect(handler).toBeCalledTimes(1);
+    expect(handler.mock.calls[0][0]).toMatchObject({ payload: { bid: 1 } });
+
+    await worker.unwatch(business);
+    expect(worker.isWatching(business)).toBeFalsy();
+    expect(notified(env, '/v2/client/notify/unsub')).toBe(1);
+
+    await publishTo(broker, SUBJECT, 1);
+    await broker.flush();
+    expect(handler).toBeCalledTimes(1);
+  });
+
+  test('dispose message handler', async () => {
+    const worker = service.createWorker();
+    const business = Business.create({ subject: SUBJECT, bid: 1 });
+    const handler = jest.fn();
+
+    await expect(worker.messagesOf(business).next()).resolves.toEqual({ value: undefined, done: true });
+
+    const dispose = await worker.watch(business, handler);
+    dispose();
+    await publishTo(broker, SUBJECT, 1);
+    await broker.flush();
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  test('isolate reference change listener failures', async () => {
+    const worker = service.createWorker();
+    const business = Business.create({ subject: SUBJECT, bid: 1 });
+    const listener = jest.fn();
+    service.addEventListener(TransportEvent.BusinessReferenceChange, {
+      thisArg: null,
+      func: () => {
+        throw new Error('broken listener');
+      },
+    });
+    service.addEventListener(TransportEvent.BusinessReferenceChange, { thisArg: null, func: listener });
+
+    await expect(worker.watch(business)).resolves.toBeInstanceOf(Function);
+    expect(listener).toHaveBeenLastCalledWith(business.id, 1, 0);
+
+    await expect(worker.unwatch(business)).resolves.toBeUndefined();
+    expect(listener).toHaveBeenLastCalledWith(business.id, 0, 1);
+  });
+
+  test('reference counting', async () => {
+    const aa = service.createWorker();
+    const bb = service.createWorker();
+    const business = Business.create({ subject: SUBJECT, bid: 1 });
+
+    await aa.watch(business);
+    await bb.watch(business);
+    expect(notified(env, '/v2/client/notify/sub')).toBe(1);
+    /** 同一个Browser Tab的引用记在同一份租约上 */
+    const { leases } = await env.cache.getItem<any>(`${CK_WATCHED_BUSINESS_PREFIX}${business.id}`);
+    expect(Object.values(leases)).toEqual([expect.objectContaining({ reference: 2 })]);
+
+    await aa.unwatch(business);
+    expect(notified(env, '/v2/client/notify/unsub')).toBe(0);
+
+    await bb.unwatch(business);
+    expect(notified(env, '/v2/client/notify/unsub')).toBe(1);
+    await expect(env.cache.getItem(`${CK_WATCHED_BUSINESS_PREFIX}${business.id}`)).resolves.toBeUndefined();
+  });
+
+  test('resubscribe after forced disconnect', async () => {
+    broker.kick(CLIENT_ID);
+    await broker.flush();
+    expect(broker.clients).toEqual([]);
+
+    await broker.flush();
+    expect(broker.clients).toEqual([CLIENT_ID]);
+    expect(broker.subscriptionsOf(CLIENT_ID)).toEqual([`iot/v1/c/${CLIENT_ID}/#`]);
+  });
+
+  test('quit', async () => {
+    const worker = service.createWorker();
+    const business = Business.create({ subject: SUBJECT, bid: 1 });
+    await worker.watch(business);
+
+    await service.quit();
+    await broker.flush();
+
+    expect(notified(env, '/v2/client/notify/unsub')).toBe(1);
+    expect(service.state).toBe(MqttServiceState.Created);
+    expect(broker.clients).toEqual([]);
+    expect(broker.published).toEqual([]);
+  });
+
+  test('quit while recovering', async () => {
+    (env.api.get as jest.Mock).mockResolvedValue({ code: 200, data: CLIENT_ID, desc: '' });
+    const recovering = service.recover();
+    expect(service.state).toBe(MqttServiceState.Recovering);
+
+    await service.quit();
+    await recovering;
+    await broker.flush();
+
+    expect(service.state).toBe(MqttServiceState.Created);
+    expect(broker.clients).toEqual([]);
+  });
+
+  test('recover after failing to build transport', async () => {
+    (env.api.get as jest.Mock)
+      .mockRejectedValueOnce(new Error('network error'))
+      .mockResolvedValue({ code: 200, data: CLIENT_ID, desc: '' });
+
+    await service.recover();
+    expect(service.state).toBe(MqttServiceState.Running);
+
+    await service.recover();
+    await broker.flush();
+    expect(service.state).toBe(MqttServiceState.Running);
+    expect(broker.clients).toEqual([CLIENT_ID]);
+  });
+
+  test('renew clientId on rebuild only when asked', async () => {
+    const classical = MqttService.create(
+      {
+        id: 'user-1',
+        transportBuilder: createLoopbackTransportBuilder(broker, {
+          useSharedClientId: false,
+          reconnectPolicy: { initialDelay: 0, jitter: 0 },
+        }),
+      },
+      env,
+    );
+    (env.api.get as jest.Mock)
+      .mockResolvedValueOnce({ code: 200, data: 'client-2', desc: '' })
+      .mockResolvedValueOnce({ code: 200, data: 'client-3', desc: '' });
+
+    await classical.init();
+    await classical.rebuild();
+    await broker.flush();
+    expect(classical.sharedTransport.clientId).toBe('client-2');
+
+    await classical.rebuild(true);
+    await broker.flush();
+    expect(classical.sharedTransport.clientId).toBe('client-3');
+    expect(broker.clients).toEqual([CLIENT_ID, 'client-3']);
+
+    await classical.quit();
+  });
+
+  test('suspend while recovering', async () => {
+    (env.api.get as jest.Mock).mockResolvedValue({ code: 200, data: CLIENT_ID, desc: '' });
+    const recovering = service.recover();
+    service.suspend();
+    expect(service.state).toBe(MqttServiceState.Recovering);
+
+    await recovering;
+    await broker.flush();
+    expect(service.state).toBe(MqttServiceState.Suspended);
+    expect(broker.clients).toEqual([]);
+
+    service.resume();
+    await broker.flush();
+    expect(service.state).toBe(MqttServiceState.Running);
+    expect(broker.clients).toEqual([CLIENT_ID]);
+  });
+
+  test('suspend while resubscribing', async () => {
+    service.addEventListener(MqttEvent.Connect, { thisArg: null, func: () => service.suspend() });
+    broker.kick(CLIENT_ID);
+    await broker.flush();
+    await broker.flush();
+
+    expect(service.state).toBe(MqttServiceState.Suspended);
+  });
+
+  test('keep queued publishes across suspend', async () => {
+    service.suspend();
+    await broker.flush();
+    const published = service.sharedTransport.publish('iot/v1/s/client-1/log/report', 'queued', {
+      qos: MqttQoS.AtLeastOnce,
+    });
+
+    /** 还没有重新连接就再次挂起，离线期间排队的消息仍然保留 */
+    service.resume();
+    service.suspend();
+    await broker.flush();
+    expect(service.sharedTransport.queueDepth).toBe(1);
+
+    service.resume();
+    await expect(published).resolves.toMatchObject({ cmd: 'puback' });
+    expect(broker.published.map(p => p.topic)).toEqual(['iot/v1/s/client-1/log/report']);
+  });
+});
@@ -0,0 +1,216 @@
+import type { Packet } from 'mqtt';
+
+import { MemoryCache } from '../cache';
+import { MqttQoS, OutboundDropPolicy } from '../mqtt/constants';
+import { MqttNotConnectedError, MqttOutboundQueueFullError } from '../mqtt/errors';
+import type { OutboundMessage } from '../mqtt/outbound_queue';
+import { OutboundQueue } from '../mqtt/outbound_queue';
+
+const KEY = 'outbound';
+
+function createPacket(m: OutboundMessage) {
+  return { cmd: 'publish', topic: m.topic, payload: m.message, qos: m.opts.qos || 0 } as Packet;
+}
+
+/** 等待串行的持久化写入完成 */
+function persisted() {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+describe('OutboundQueue', () => {
+  test('flush in order', async () => {
+    const queue = OutboundQueue.create({ key: KEY });
+    const published: string[] = [];
+
+    const first = queue.enqueue('a', '1', { qos: MqttQoS.Once });
+    const second = queue.enqueue('b', '2', { qos: MqttQoS.Once });
+    expect(queue.depth).toBe(2);
+
+    await queue.flush(
+      async m => {
+        published.push(m.topic);
+        return createPacket(m);
+      },
+      () => true,
+    );
+
+    expect(published).toEqual(['a', 'b']);
+    await expect(first).resolves.toMatchObject({ topic: 'a' });
+    await expect(second).resolves.toMatchObject({ topic: 'b' });
+    expect(queue.depth).toBe(0);
+  });
+
+  test('keep messages when not connected', async () => {
+    const queue = OutboundQueue.create({ key: KEY });
+    const publish = jest.fn(() => Promise.reject(new MqttNotConnectedError()));
+
+    const response = queue.enqueue('a', '1', { qos: MqttQoS.Once });
+    await queue.flush(publish, () => true);
+    expect(queue.depth).toBe(1);
+
+    await queue.flush(
+      async m => createPacket(m),
+      () => false,
+    );
+    expect(queue.depth).toBe(1);
+
+    await queue.flush(
+      async m => createPacket(m),
+      () => true,
+    );
+    await expect(response).resolves.toMatchObject({ topic: 'a' });
+  });
+
+  test('reject when the broker refuses', async () => {
+    const queue = OutboundQueue.create({ key: KEY });
+    const error = new Error('Publish error');
+
+    const response = queue.enqueue('a', '1', { qos: MqttQoS.Once });
+    await queue.flush(
+      () => Promise.reject(error),
+      () => true,
+    );
+    await expect(response).rejects.toBe(error);
+    expect(queue.depth).toBe(0);
+  });
+
+  test('drop policies', async () => {
+    const oldest = OutboundQueue.create({ key: KEY, policy: { maxSize: 1, dropPolicy: OutboundDropPolicy.Oldest } });
+    const dropped = oldest.enqueue('a', '1', { qos: MqttQoS.Once });
+    oldest.enqueue('b', '2', { qos: MqttQoS.Once });
+    await expect(dropped).resolves.toBeUndefined();
+    expect(oldest.depth).toBe(1);
+
+    const newest = OutboundQueue.create({ key: KEY, policy: { maxSize: 1, dropPolicy: OutboundDropPolicy.Newest } });
+    newest.enqueue('a', '1', { qos: MqttQoS.Once });
+    await expect(newest.enqueue('b', '2', { qos: MqttQoS.Once })).resolves.toBeUndefined();
+    expect(newest.depth).toBe(1);
+
+    const rejecting = OutboundQueue.create({ key: KEY, policy: { maxSize: 1, dropPolicy: OutboundDropPolicy.Reject } });
+    rejecting.enqueue('a', '1', { qos: MqttQoS.Once });
+    await expect(rejecting.enqueue('b', '2', { qos: MqttQoS.Once })).rejects.toBeInstanceOf(MqttOutboundQueueFullError);
+    expect(rejecting.depth).toBe(1);
+  });
+
+  test('abort', async () => {
+    const queue = OutboundQueue.create({ key: KEY });
+    const controller = new AbortController();
+
+    const response = queue.enqueue('a', '1', { qos: MqttQoS.Once }, controller.signal);
+    controller.abort();
+    await expect(response).resolves.toBeUndefined();
+    expect(queue.depth).toBe(0);
+
+    await expect(queue.enqueue('a', '1', { qos: MqttQoS.Once }, controller.signal)).resolves.toBeUndefined();
+    expect(queue.depth).toBe(0);
+  });
+
+  test('persist only durable messages', async () => {
+    const cache = MemoryCache.create();
+    const queue = OutboundQueue.create({ key: KEY, cache });
+
+    queue.enqueue('a', '1', { qos: MqttQoS.Once });
+    queue.enqueue('b', '2', { qos: MqttQoS.AtLeastOnce, retain: true, properties: { contentType: 'json' } });
+    queue.enqueue('c', '3', { qos: MqttQoS.AtLeastOnce }, new AbortController().signal);
+    await persisted();
+
+    const messages = await cache.getItem<OutboundMessage[]>(KEY);
+    expect(messages).toHaveLength(1);
+    expect(messages?.[0]).toMatchObject({ topic: 'b', opts: { qos: MqttQoS.AtLeastOnce, retain: true } });
+    expect(messages?.[0].opts).not.toHaveProperty('properties');
+  });
+
+  test('restore before the current messages', async () => {
+    const cache = MemoryCache.create();
+    OutboundQueue.create({ key: KEY, cache }).enqueue('a', '1', { qos: MqttQoS.AtLeastOnce });
+    await persisted();
+
+    const queue = OutboundQueue.create({ key: KEY, cache });
+    const published: string[] = [];
+    queue.enqueue('b', '2', { qos: MqttQoS.AtLeastOnce });
+
+    await queue.flush(
+      async m => {
+        published.push(m.topic);
+        return createPacket(m);
+      },
+      () => true,
+    );
+    await persisted();
+
+    expect(published).toEqual(['a', 'b']);
+    await expect(cache.getItem(KEY)).resolves.toBeNull();
+  });
+
+  test('keep persisted messages when enqueued before restore', async () => {
+    const cache = MemoryCache.create();
+    OutboundQueue.create({ key: KEY, cache }).enqueue('a', '1', { qos: MqttQoS.AtLeastOnce });
+    await persisted();
+
+    OutboundQueue.create({ key: KEY, cache }).enqueue('b', '2', { qos: MqttQoS.AtLeastOnce });
+    await persisted();
+
+    const messages = await cache.getItem<OutboundMessage[]>(KEY);
+    expect(messages?.map(m => m.topic)).toEqual(['a', 'b']);
+  });
+
+  test('unique ids across page loads', async () => {
+    const cache = MemoryCache.create();
+    OutboundQueue.create({ key: KEY, cache }).enqueue('a', '1', { qos: MqttQoS.AtLeastOnce });
+    OutboundQueue.create({ key: 'other', cache }).enqueue('b', '2', { qos: MqttQoS.AtLeastOnce });
+    await persisted();
+
+    /** uniqueId的计数器每次加载页面都从1开始，只能靠前缀区分 */
+    const [a] = (await cache.getItem<OutboundMessage[]>(KEY)) || [];
+    const [b] = (await cache.getItem<OutboundMessage[]>('other')) || [];
+    expect(a.id.slice(0, a.id.lastIndexOf('_'))).not.toBe(b.id.slice(0, b.id.lastIndexOf('_')));
+  });
+
+  test('clear', async () => {
+    const cache = MemoryCache.create();
+    const queue = OutboundQueue.create({ key: KEY, cache });
+
+    const response = queue.enqueue('a', '1', { qos: MqttQoS.AtLeastOnce });
+    queue.clear();
+    await persisted();
+
+    await expect(response).resolves.toBeUndefined();
+    expect(queue.depth).toBe(0);
+    await expect(cache.getItem(KEY)).resolves.toBeNull();
+  });
+
+  test('clear before restore', async () => {
+    const cache = MemoryCache.create();
+    OutboundQueue.create({ key: KEY, cache }).enqueue('a', '1', { qos: MqttQoS.AtLeastOnce });
+    await persisted();
+
+    const queue = OutboundQueue.create({ key: KEY, cache });
+    const publish = jest.fn((m: OutboundMessage) => Promise.resolve(createPacket(m)));
+    queue.clear();
+    await queue.flush(publish, () => true);
+    await persisted();
+
+    expect(publish).not.toHaveBeenCalled();
+    await expect(cache.getItem(KEY)).resolves.toBeNull();
+  });
+
+  test('transfer', async () => {
+    const cache = MemoryCache.create();
+    OutboundQueue.create({ key: KEY, cache }).enqueue('a', '1', { qos: MqttQoS.AtLeastOnce });
+    await persisted();
+
+    const queue = OutboundQueue.create({ key: KEY, cache });
+    const controller = new AbortController();
+    const response = queue.enqueue('b', '2', { qos: MqttQoS.Once }, controller.signal);
+    const publish = jest.fn((m: OutboundMessage, _signal?: AbortSignal) => Promise.resolve(createPacket(m)));
+
+    await queue.transfer(publish);
+    await persisted();
+
+    expect(publish.mock.calls.map(([m]) => m.topic)).toEqual(['a', 'b']);
+    expect(publish.mock.calls[1][1]).toBe(controller.signal);
+    await expect(response).resolves.toMatchObject({ topic: 'b' });
+    expect(queue.depth).toBe(0);
+    await expect(cache.getItem(KEY)).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,92 @@
+import { DEFAULT_RECONNECT_POLICY, ReconnectScheduler, getReconnectDelay } from '../mqtt/reconnect_policy';
+
+const POLICY = { initialDelay: 1000, maxDelay: 8000, multiplier: 2, jitter: 0.5, maxAttempts: 3 };
+
+describe('getReconnectDelay', () => {
+  test('exponential backoff', () => {
+    const delays = [0, 1, 2, 3, 4, 10].map(attempt => getReconnectDelay({ ...POLICY, jitter: 0 }, attempt));
+    expect(delays).toEqual([1000, 2000, 4000, 8000, 8000, 8000]);
+  });
+
+  test('treat negative attempts as the first one', () => {
+    expect(getReconnectDelay({ ...POLICY, jitter: 0 }, -1)).toBe(1000);
+  });
+
+  test('jitter bounds', () => {
+    /** random()取值[0, 1)，等待时间落在(base * (1 - jitter), base] */
+    expect(getReconnectDelay(POLICY, 2, () => 0)).toBe(4000);
+    expect(getReconnectDelay(POLICY, 2, () => 0.5)).toBe(3000);
+    expect(getReconnectDelay(POLICY, 2, () => 0.999999)).toBe(2000);
+
+    for (let i = 0; i < 100; i++) {
+      const delay = getReconnectDelay(DEFAULT_RECONNECT_POLICY, i % 10);
+      expect(delay).toBeGreaterThanOrEqual(0);
+      expect(delay).toBeLessThanOrEqual(DEFAULT_RECONNECT_POLICY.maxDelay);
+    }
+  });
+
+  test('clamp jitter to [0, 1]', () => {
+    expect(getReconnectDelay({ ...POLICY, jitter: -1 }, 0, () => 0.5)).toBe(1000);
+    expect(getReconnectDelay({ ...POLICY, jitter: 2 }, 0, () => 0.5)).toBe(500);
+  });
+});
+
+describe('ReconnectScheduler', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('schedule until exhausted', () => {
+    const scheduler = ReconnectScheduler.create({ ...POLICY, jitter: 0 });
+    const reconnect = jest.fn();
+
+    for (const delay of [1000, 2000, 4000]) {
+      expect(scheduler.schedule(reconnect)).toBeTruthy();
+      expect(scheduler.nextReconnectAt).toBe(Date.now() + delay);
+
+      jest.advanceTimersByTime(delay - 1);
+      expect(scheduler.scheduled).toBeTruthy();
+      jest.advanceTimersByTime(1);
+      expect(scheduler.scheduled).toBeFalsy();
+      expect(scheduler.nextReconnectAt).toBeNull();
+    }
+
+    expect(reconnect).toHaveBeenCalledTimes(3);
+    expect(scheduler.exhausted).toBeTruthy();
+    expect(scheduler.schedule(reconnect)).toBeFalsy();
+  });
+
+  test('schedule once at a time', () => {
+    const scheduler = ReconnectScheduler.create({ ...POLICY, jitter: 0 });
+    const reconnect = jest.fn();
+
+    expect(scheduler.schedule(reconnect)).toBeTruthy();
+    expect(scheduler.schedule(reconnect)).toBeTruthy();
+    expect(scheduler.attempts).toBe(1);
+
+    jest.runAllTimers();
+    expect(reconnect).toHaveBeenCalledTimes(1);
+  });
+
+  test('cancel keeps attempts, reset clears them', () => {
+    const scheduler = ReconnectScheduler.create({ ...POLICY, jitter: 0 });
+    const reconnect = jest.fn();
+
+    scheduler.schedule(reconnect);
+    scheduler.cancel();
+    jest.runAllTimers();
+    expect(reconnect).not.toHaveBeenCalled();
+    expect(scheduler.attempts).toBe(1);
+
+    scheduler.schedule(reconnect);
+    expect(scheduler.nextReconnectAt).toBe(Date.now() + 2000);
+
+    scheduler.reset();
+    expect(scheduler.attempts).toBe(0);
+    expect(scheduler.scheduled).toBeFalsy();
+  });
+});
@@ -0,0 +1,204 @@
+import { useMSTDependence } from '../__mocks__/hooks';
+import { MemoryCache, WebStorageCache } from '../cache';
+import { Business } from '../mqtt/business';
+import { CK_WATCHED_BUSINESS_INDEX, CK_WATCHED_BUSINESS_PREFIX } from '../mqtt/constants';
+import { BusinessReferenceManager } from '../mqtt/reference_manager';
+
+const TTL = 30000;
+
+/**
+ * 模拟Web Locks API，同名的锁按照请求的顺序授予
+ */
+function installWebLocks() {
+  const tails = new Map<string, Promise<unknown>>();
+  const locks = {
+    request: (name: string, callback: () => Promise<unknown>) => {
+      const granted = (tails.get(name) || Promise.resolve()).then(callback);
+      tails.set(
+        name,
+        granted.catch(() => undefined),
+      );
+      return granted;
+    },
+  };
+  Object.defineProperty(globalThis, 'navigator', { configurable: true, value: { locks } });
+}
+
+describe('BusinessReferenceManager', () => {
+  const business = Business.create({ subject: 'layout_device/status', bid: 1 });
+  let env: ReturnType<typeof useMSTDependence>;
+  let now: number;
+
+  /** 两个Browser Tab共享同一个缓存 */
+  function createTab() {
+    return BusinessReferenceManager.create({ lease: { interval: TTL / 3, ttl: TTL } }, env);
+  }
+
+  beforeEach(() => {
+    env = useMSTDependence();
+    now = Date.now();
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('count references across tabs', async () => {
+    const aa = createTab();
+    const bb = createTab();
+
+    await expect(aa.collect(business)).resolves.toBe(1);
+    await expect(aa.collect(business)).resolves.toBe(2);
+    await expect(bb.collect(business)).resolves.toBe(3);
+
+    await expect(aa.release(business)).resolves.toBe(2);
+    await expect(bb.release(business)).resolves.toBe(1);
+    await expect(aa.release(business)).resolves.toBe(0);
+    await expect(env.cache.getItem(`${CK_WATCHED_BUSINESS_PREFIX}${business.id}`)).resolves.toBeUndefined();
+    await expect(env.cache.getItem(CK_WATCHED_BUSINESS_INDEX)).resolves.toEqual([]);
+  });
+
+  test('expired leases do not count', async () => {
+    const crashed = createTab();
+    const alive = createTab();
+
+    await crashed.collect(business);
+    await alive.collect(business);
+
+    now += TTL + 1;
+    await expect(alive.release(business)).resolves.toBe(0);
+  });
+
+  test('sweep reclaims leases of dead tabs', async () => {
+    const crashed = createTab();
+    const alive = createTab();
+    await crashed.collect(business);
+
+    await expect(alive.sweep()).resolves.toEqual([]);
+
+    now += TTL + 1;
+    const reclaimed = await alive.sweep();
+    expect(reclaimed.map(f => f.id)).toEqual([business.id]);
+    await expect(env.cache.getItem(`${CK_WATCHED_BUSINESS_PREFIX}${business.id}`)).resolves.toBeUndefined();
+  });
+
+  test('renew restores reclaimed leases', async () => {
+    const frozen = createTab();
+    const alive = createTab();
+    await frozen.collect(business);
+
+    now += TTL + 1;
+    await alive.sweep();
+    const restored = await frozen.renew();
+    expect(restored.map(f => f.id)).toEqual([business.id]);
+    await expect(frozen.renew()).resolves.toEqual([]);
+
+    await expect(alive.collect(business)).resolves.toBe(2);
+  });
+
+  test('reclaim leases of orphaned tabs', async () => {
+    const orphaned = createTab();
+    const alive = createTab();
+    const other = Business.create({ subject: 'layout_device/status', bid: 2 });
+    await orphaned.collect(business);
+    await orphaned.collect(other);
+    await alive.collect(other);
+
+    /** 租约还没有过期，sweep不会回收 */
+    await expect(alive.sweep()).resolves.toEqual([]);
+
+    const reclaimed = await alive.reclaim(orphaned.tabId, [business, other]);
+    expect(reclaimed.map(f => f.id)).toEqual([business.id]);
+    expect(alive.getReference(other)).toBe(1);
+    await expect(alive.reclaim(alive.tabId, [other])).resolves.toEqual([]);
+  });
+
+  test('serialize concurrent updates across tabs', async () => {
+    const navigator = Object.getOwnPropertyDescriptor(globalThis, 'navigator');
+    installWebLocks();
+
+    try {
+      const aa = createTab();
+      const bb = createTab();
+
+      await Promise.all([aa.collect(business), bb.collect(business), aa.collect(business)]);
+      await expect(bb.collect(business)).resolves.toBe(4);
+      expect(aa.conflicts).toEqual([]);
+      expect(bb.conflicts).toEqual([]);
+    } finally {
+      if (navigator) {
+        Object.defineProperty(globalThis, 'navigator', navigator);
+      } else {
+        Reflect.deleteProperty(globalThis, 'navigator');
+      }
+    }
+  });
+
+  test('read through stale memory copies', async () => {
+    /** 两个WebStorageCache共享同一个localStorage，但是各自有内存中的副本，并且不会收到对方的storage事件 */
+    const aa = BusinessReferenceManager.create({}, { ...env, cache: new WebStorageCache(localStorage, '_TEST_') });
+    const bb = BusinessReferenceManager.create({}, { ...env, cache: new WebStorageCache(localStorage, '_TEST_') });
+
+    try {
+      await expect(bb.collect(business)).resolves.toBe(1);
+      await expect(aa.collect(business)).resolves.toBe(2);
+      await expect(bb.collect(business)).resolves.toBe(3);
+      await expect(aa.release(business)).resolves.toBe(2);
+      expect(aa.conflicts).toEqual([]);
+      expect(bb.conflicts).toEqual([]);
+    } finally {
+      localStorage.clear();
+    }
+  });
+
+  test('sync references across tabs', async () => {
+    /** MemoryCache支持监听，相当于其他Browser Tab的修改通过storage事件同步过来 */
+    const shared = { ...env, cache: MemoryCache.create() };
+    const onChange = jest.fn();
+    const aa = BusinessReferenceManager.create({}, shared);
+    const bb = BusinessReferenceManager.create({ onChange }, shared);
+    bb.start();
+
+    try {
+      await aa.collect(business);
+      expect(bb.getReference(business)).toBe(1);
+      expect(bb.getReferences()).toEqual({ [business.id]: 1 });
+      expect(onChange).toHaveBeenLastCalledWith(business.id, 1, 0);
+
+      await aa.release(business);
+      expect(bb.getReference(business)).toBe(0);
+      expect(bb.getReferences()).toEqual({});
+      expect(onChange).toHaveBeenLastCalledWith(business.id, 0, 1);
+    } finally {
+      await bb.stop();
+    }
+  });
+
+  test('stop after loading references', async () => {
+    const onChange = jest.fn();
+    const aa = createTab();
+    const bb = BusinessReferenceManager.create({ onChange }, env);
+
+    await aa.collect(business);
+    bb.start();
+    await bb.stop();
+    expect(onChange).toHaveBeenCalledWith(business.id, 1, 0);
+  });
+
+  test('empty', async () => {
+    const aa = createTab();
+    const bb = createTab();
+    const other = Business.create({ subject: 'layout_device/status', bid: 2 });
+
+    await aa.collect(business);
+    await aa.collect(business);
+    await aa.collect(other);
+    await bb.collect(other);
+
+    const released = await aa.empty();
+    expect(released.map(f => f.id)).toEqual([business.id]);
+    expect(aa.getReference(business)).toBe(0);
+    await expect(bb.release(other)).resolves.toBe(0);
+  });
+});
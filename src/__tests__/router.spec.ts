@@ -0,0 +1,56 @@
+import { Business } from '../mqtt/business';
+import type { MqttPayload } from '../mqtt/constants';
+import { MessageRoutingFallback } from '../mqtt/constants';
+import { MessageRouter } from '../mqtt/router';
+
+const SUBJECT = 'layout_device/status';
+const LOG_DETAIL = 'log/detail';
+
+function createMessage(service: string, payload: Record<string, any>): MqttPayload {
+  return { clientId: 'client-1', method: 'report', payload, service, srcAddr: 'api' };
+}
+
+describe('MessageRouter', () => {
+  const router = MessageRouter.create({
+    bidKeyPaths: { [LOG_DETAIL]: 'payload.data.deviceId' },
+  });
+
+  test('extract bid', () => {
+    expect(router.extractBid(SUBJECT, createMessage(SUBJECT, { bid: 1 }))).toBe('1');
+    expect(router.extractBid(SUBJECT, createMessage(SUBJECT, { bid: '1' }))).toBe('1');
+    expect(router.extractBid(SUBJECT, createMessage(SUBJECT, { bid: '' }))).toBeNull();
+    expect(router.extractBid(SUBJECT, createMessage(SUBJECT, {}))).toBeNull();
+  });
+
+  test('extract bid by subject', () => {
+    const message = createMessage(LOG_DETAIL, { bid: 1, data: { deviceId: 2 } });
+    expect(router.extractBid(LOG_DETAIL, message)).toBe('2');
+    expect(router.extractBid(SUBJECT, message)).toBe('1');
+  });
+
+  test('route by bid', () => {
+    const message = createMessage(SUBJECT, { bid: 1 });
+
+    expect(router.isMine(Business.create({ subject: SUBJECT, bid: 1 }), message)).toBeTruthy();
+    expect(router.isMine(Business.create({ subject: SUBJECT, bid: '1' }), message)).toBeTruthy();
+    expect(router.isMine(Business.create({ subject: SUBJECT, bid: 2 }), message)).toBeFalsy();
+  });
+
+  test('deliver everything to businesses without bid', () => {
+    const f = Business.create({ subject: SUBJECT });
+
+    expect(router.isMine(f, createMessage(SUBJECT, { bid: 1 }))).toBeTruthy();
+    expect(router.isMine(f, createMessage(SUBJECT, {}))).toBeTruthy();
+  });
+
+  test('fallback for messages without bid', () => {
+    const f = Business.create({ subject: SUBJECT, bid: 1 });
+    const message = createMessage(SUBJECT, {});
+
+    const dropping = MessageRouter.create({ fallback: MessageRoutingFallback.Drop });
+
+    expect(router.isMine(f, message)).toBeTruthy();
+    expect(dropping.isMine(f, message)).toBeFalsy();
+    expect(dropping.isMine(Business.create({ subject: SUBJECT }), message)).toBeTruthy();
+  });
+});
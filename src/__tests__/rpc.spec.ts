@@ -0,0 +1,113 @@
+import type { IPublishPacket, Packet } from 'mqtt';
+
+import type { MqttPayload } from '../mqtt/constants';
+import { MqttRpcError, MqttRpcErrorCode } from '../mqtt/errors';
+import { RpcClient, decodeCorrelationData, decodePayload, encodeCorrelationData } from '../mqtt/rpc';
+
+function createResponse(seq: string): MqttPayload {
+  return { clientId: 'client-1', method: 'reply', payload: {}, seq, service: 'log/report', srcAddr: 'api' };
+}
+
+describe('payload', () => {
+  test('decode payload', () => {
+    expect(decodePayload('online')).toBe('online');
+    expect(decodePayload(new TextEncoder().encode('online'))).toBe('online');
+    expect(decodePayload(Buffer.from('online'))).toBe('online');
+  });
+
+  test('correlation data round trip', () => {
+    const packet = {
+      cmd: 'publish',
+      properties: { correlationData: encodeCorrelationData('42') },
+    } as unknown as IPublishPacket;
+    expect(decodeCorrelationData(packet)).toBe('42');
+
+    /** 经过SharedWorker转发之后，Buffer变成了Uint8Array */
+    expect(decodeCorrelationData(structuredClone(packet))).toBe('42');
+  });
+
+  test('packets without correlation data', () => {
+    expect(decodeCorrelationData(undefined)).toBeNull();
+    expect(decodeCorrelationData({ cmd: 'puback', messageId: 1 } as Packet)).toBeNull();
+    expect(decodeCorrelationData({ cmd: 'publish', topic: 'x' } as IPublishPacket)).toBeNull();
+  });
+});
+
+describe('RpcClient', () => {
+  let rpc: RpcClient;
+
+  beforeEach(() => {
+    rpc = RpcClient.create();
+  });
+
+  afterEach(() => {
+    rpc.dispose();
+    jest.useRealTimers();
+  });
+
+  test('resolve by seq', async () => {
+    const publish = jest.fn();
+    const response = rpc.request('1', publish);
+    await Promise.resolve();
+    expect(publish).toHaveBeenCalledTimes(1);
+
+    expect(rpc.resolve(createResponse('2'))).toBeFalsy();
+    expect(rpc.resolve(createResponse('1'))).toBeTruthy();
+    await expect(response).resolves.toEqual(createResponse('1'));
+    expect(rpc.size).toBe(0);
+
+    /** 重复的响应不再匹配 */
+    expect(rpc.resolve(createResponse('1'))).toBeFalsy();
+  });
+
+  test('abort the publish signal once settled', async () => {
+    const signals: AbortSignal[] = [];
+    const response = rpc.request('1', signal => {
+      signals.push(signal);
+    });
+    await Promise.resolve();
+    expect(signals.map(s => s.aborted)).toEqual([false]);
+
+    rpc.resolve(createResponse('1'));
+    await response;
+    expect(signals.map(s => s.aborted)).toEqual([true]);
+  });
+
+  test('timeout', async () => {
+    jest.useFakeTimers();
+    const response = rpc.request('1', () => undefined, { timeout: 1000 });
+
+    jest.advanceTimersByTime(1000);
+    await expect(response).rejects.toMatchObject({ code: MqttRpcErrorCode.Timeout, seq: '1' });
+    expect(rpc.size).toBe(0);
+  });
+
+  test('abort', async () => {
+    const controller = new AbortController();
+    const response = rpc.request('1', () => undefined, { signal: controller.signal });
+
+    controller.abort();
+    await expect(response).rejects.toMatchObject({ code: MqttRpcErrorCode.Aborted });
+    await expect(rpc.request('2', () => undefined, { signal: controller.signal })).rejects.toMatchObject({
+      code: MqttRpcErrorCode.Aborted,
+    });
+    expect(rpc.size).toBe(0);
+  });
+
+  test('reject when publish fails', async () => {
+    const error = new Error('Publish error');
+    await expect(rpc.request('1', () => Promise.reject(error))).rejects.toBe(error);
+    expect(rpc.size).toBe(0);
+  });
+
+  test('dispose', async () => {
+    const responses = [rpc.request('1', () => undefined), rpc.request('2', () => undefined)];
+
+    rpc.dispose();
+    for (const response of responses) {
+      await expect(response).rejects.toBeInstanceOf(MqttRpcError);
+      await expect(response).rejects.toMatchObject({ code: MqttRpcErrorCode.Disposed });
+    }
+    expect(rpc.size).toBe(0);
+  });
+});
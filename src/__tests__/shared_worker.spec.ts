@@ -0,0 +1,206 @@
+/**
+ * @jest-environment node
+ */
+import { FakeSharedWorkerGlobalScope, LocalBroker } from '../__mocks__/shared_worker_scope';
+import { MqttQoS, MqttStoreKind } from '../mqtt/constants';
+import * as mqttStore from '../mqtt/mqtt_store';
+import type { WorkerMessage } from '../mqtt/shared_worker_constants';
+import { WorkerAction, WorkerFeedback } from '../mqtt/shared_worker_constants';
+
+const CLIENT_ID = 'client-1';
+const TOPIC = `iot/v1/c/${CLIENT_ID}/layout_device/status`;
+
+async function join(scope: FakeSharedWorkerGlobalScope, broker: LocalBroker) {
+  const tab = scope.connect();
+  const connected = tab.waitFor(WorkerFeedback.MqttConnect);
+  tab.post(WorkerAction.MqttConnect, {
+    brokerUrl: broker.brokerUrl,
+    opts: { clientId: CLIENT_ID, password: 'password', username: 'user-1' },
+    store: MqttStoreKind.Memory,
+  });
+  await connected;
+  return tab;
+}
+
+function payloadOf(message: WorkerMessage) {
+  return new TextDecoder().decode(message.args.payload);
+}
+
+describe('bootSharedWorker', () => {
+  let broker: LocalBroker;
+  let scope: FakeSharedWorkerGlobalScope;
+
+  beforeEach(() => {
+    broker = LocalBroker.start();
+    scope = FakeSharedWorkerGlobalScope.boot();
+  });
+
+  afterEach(async () => {
+    /** 关闭剩余的Browser Tab，SharedWorker会主动结束连接，避免关闭Broker之后触发重连 */
+    const alive = scope.tabs.filter(tab => !tab.closed);
+    const disconnected = broker.connectedClients > 0 && alive.length > 0 ? broker.waitFor('clientDisconnect') : null;
+    alive.forEach(tab => tab.unload());
+    await Promise.all([disconnected, ...alive.map(tab => tab.whenClosed())]);
+    await broker.close();
+  });
+
+  test('late join', async () => {
+    const aa = await join(scope, broker);
+    await aa.request(WorkerAction.MqttSubscribe, { topic: TOPIC, options: { qos: MqttQoS.Once } });
+    const delivered = aa.waitFor(WorkerFeedback.MqttMessage);
+    await broker.publish(TOPIC, 'online');
+    await delivered;
+
+    const bb = await join(scope, broker);
+    expect(broker.connectedClients).toBe(1);
+    expect(aa.receivedOf(WorkerFeedback.MqttConnect)).toHaveLength(1);
+    expect(bb.receivedOf(WorkerFeedback.MqttConnect)).toHaveLength(1);
+
+    await bb.request(WorkerAction.MqttSubscribe, { topic: TOPIC, options: { qos: MqttQoS.Once } });
+    await expect(bb.request(WorkerAction.MqttReplay, { topic: TOPIC })).resolves.toBe(1);
+    const [replayed] = bb.receivedOf(WorkerFeedback.MqttMessage);
+    expect(replayed.args.packet.retain).toBeTruthy();
+    expect(payloadOf(replayed)).toBe('online');
+
+    await expect(bb.request(WorkerAction.MqttReplay, { topic: TOPIC })).resolves.toBe(0);
+  });
+
+  test('concurrent connect', async () => {
+    const [aa, bb] = await Promise.all([join(scope, broker), join(scope, broker)]);
+
+    expect(broker.connectedClients).toBe(1);
+    expect(aa.receivedOf(WorkerFeedback.MqttConnect)).toHaveLength(1);
+    expect(bb.receivedOf(WorkerFeedback.MqttConnect)).toHaveLength(1);
+  });
+
+  test('subscribe dedupe', async () => {
+    const aa = await join(scope, broker);
+    const bb = await join(scope, broker);
+    const options = { qos: MqttQoS.AtLeastOnce };
+
+    await aa.request(WorkerAction.MqttSubscribe, { topic: TOPIC, options });
+    await expect(bb.request(WorkerAction.MqttSubscribe, { topic: TOPIC, options })).resolves.toEqual([
+      { topic: TOPIC, qos: MqttQoS.AtLeastOnce },
+    ]);
+    expect(broker.subscribes).toEqual([[TOPIC]]);
+
+    const delivered = Promise.all([aa.waitFor(WorkerFeedback.MqttMessage), bb.waitFor(WorkerFeedback.MqttMessage)]);
+    await broker.publish(TOPIC, 'online');
+    await delivered;
+    expect(aa.receivedOf(WorkerFeedback.MqttMessage)).toHaveLength(1);
+    expect(bb.receivedOf(WorkerFeedback.MqttMessage)).toHaveLength(1);
+
+    await aa.request(WorkerAction.MqttUnsubscribe, { topic: TOPIC });
+    expect(broker.unsubscribes).toEqual([]);
+
+    await bb.request(WorkerAction.MqttUnsubscribe, { topic: TOPIC });
+    expect(broker.unsubscribes).toEqual([[TOPIC]]);
+  });
+
+  test('unload', async () => {
+    const aa = await join(scope, broker);
+    const bb = await join(scope, broker);
+    await aa.request(WorkerAction.MqttSubscribe, { topic: TOPIC, options: { qos: MqttQoS.Once } });
+
+    const unsubscribed = broker.waitFor('unsubscribe');
+    aa.unload();
+    await unsubscribed;
+    expect(aa.closed).toBeTruthy();
+    expect(broker.unsubscribes).toEqual([[TOPIC]]);
+    expect(broker.connectedClients).toBe(1);
+
+    const disconnected = broker.waitFor('clientDisconnect');
+    bb.unload();
+    await disconnected;
+    expect(bb.closed).toBeTruthy();
+    expect(broker.connectedClients).toBe(0);
+  });
+
+  test('reject commands from ended port', async () => {
+    const aa = await join(scope, broker);
+    const bb = await join(scope, broker);
+
+    const ended = aa.waitFor(WorkerFeedback.MqttEnd);
+    aa.post(WorkerAction.MqttEnd, { force: true });
+    await ended;
+
+    aa.post(WorkerAction.MqttReconnect);
+    await expect(
+      aa.request(WorkerAction.MqttSubscribe, { topic: TOPIC, options: { qos: MqttQoS.Once } }),
+    ).rejects.toThrow(WorkerAction.MqttConnect);
+    expect(broker.subscribes).toEqual([]);
+
+    /** 重新发送MqttConnect之后恢复正常 */
+    const rejoined = aa.waitFor(WorkerFeedback.MqttConnect);
+    aa.post(WorkerAction.MqttConnect, {
+      brokerUrl: broker.brokerUrl,
+      opts: { clientId: CLIENT_ID, password: 'password', username: 'user-1' },
+      store: MqttStoreKind.Memory,
+    });
+    await rejoined;
+    await aa.request(WorkerAction.MqttSubscribe, { topic: TOPIC, options: { qos: MqttQoS.Once } });
+    expect(broker.subscribes).toEqual([[TOPIC]]);
+    expect(bb.receivedOf(WorkerFeedback.MqttEnd)).toHaveLength(0);
+  });
+
+  test('end while setting up', async () => {
+    /** 推迟openMqttStores，模拟等待IndexedDB的时候Browser Tab已经调用了end */
+    const { openMqttStores } = mqttStore;
+    let open: () => void = () => undefined;
+    const deferred = jest
+      .spyOn(mqttStore, 'openMqttStores')
+      .mockImplementation((...args) => new Promise(resolve => (open = () => resolve(openMqttStores(...args)))));
+
+    const tab = scope.connect();
+    const ended = tab.waitFor(WorkerFeedback.MqttEnd);
+    tab.post(WorkerAction.MqttConnect, {
+      brokerUrl: broker.brokerUrl,
+      opts: { clientId: CLIENT_ID, password: 'password', username: 'user-1' },
+      store: MqttStoreKind.Memory,
+    });
+    tab.post(WorkerAction.MqttEnd, { force: true });
+    await ended;
+
+    open();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    expect(broker.connectedClients).toBe(0);
+    deferred.mockRestore();
+
+    /** 之后加入的Browser Tab会重新创建Mqtt Client */
+    await join(scope, broker);
+    expect(broker.connectedClients).toBe(1);
+  });
+
+  test('end', async () => {
+    const aa = await join(scope, broker);
+    const bb = await join(scope, broker);
+
+    const ended = aa.waitFor(WorkerFeedback.MqttEnd);
+    aa.post(WorkerAction.MqttEnd, { force: true });
+    await ended;
+    expect(broker.connectedClients).toBe(1);
+    expect(bb.receivedOf(WorkerFeedback.MqttEnd)).toHaveLength(0);
+
+    const disconnected = broker.waitFor('clientDisconnect');
+    const ending = bb.waitFor(WorkerFeedback.MqttEnd);
+    bb.post(WorkerAction.MqttEnd, { force: true });
+    await Promise.all([disconnected, ending]);
+    expect(aa.receivedOf(WorkerFeedback.MqttEnd)).toHaveLength(1);
+    expect(bb.receivedOf(WorkerFeedback.MqttEnd)).toHaveLength(1);
+
+    /** 连接结束之后加入的Browser Tab会重新创建Mqtt Client */
+    await join(scope, broker);
+    expect(broker.connectedClients).toBe(1);
+  });
+
+  test('acknowledge end after the client is closed', async () => {
+    const aa = await join(scope, broker);
+    const bb = await join(scope, broker);
+
+    await expect(aa.request(WorkerAction.MqttEnd, { force: true })).resolves.toBeUndefined();
+    expect(broker.connectedClients).toBe(1);
+
+    await expect(bb.request(WorkerAction.MqttEnd, { force: true })).resolves.toBeUndefined();
+    expect(bb.receivedOf(WorkerFeedback.MqttEnd)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,89 @@
+import { SubscriptionRegistry, matchTopic } from '../mqtt/subscription_registry';
+
+describe('matchTopic', () => {
+  test('exact', () => {
+    expect(matchTopic('iot/v1/c/123/device', 'iot/v1/c/123/device')).toBeTruthy();
+    expect(matchTopic('iot/v1/c/123/device', 'iot/v1/c/123')).toBeFalsy();
+    expect(matchTopic('iot/v1/c/123', 'iot/v1/c/123/device')).toBeFalsy();
+  });
+
+  test('single level wildcard', () => {
+    expect(matchTopic('iot/v1/c/+/device', 'iot/v1/c/123/device')).toBeTruthy();
+    expect(matchTopic('iot/v1/c/+', 'iot/v1/c/123')).toBeTruthy();
+    expect(matchTopic('iot/v1/c/+', 'iot/v1/c/123/device')).toBeFalsy();
+    expect(matchTopic('iot/v1/c/+', 'iot/v1/c')).toBeFalsy();
+    expect(matchTopic('iot/v1/c/+', 'iot/v1/c/')).toBeTruthy();
+  });
+
+  test('multi level wildcard', () => {
+    expect(matchTopic('iot/v1/c/123/#', 'iot/v1/c/123/device/online')).toBeTruthy();
+    expect(matchTopic('iot/v1/c/123/#', 'iot/v1/c/123')).toBeTruthy();
+    expect(matchTopic('iot/v1/c/123/#', 'iot/v1/c/456')).toBeFalsy();
+    expect(matchTopic('#', 'iot/v1/c/123')).toBeTruthy();
+
+    /** #只能出现在最后一层 */
+    expect(matchTopic('iot/#/123', 'iot/v1/c/123')).toBeFalsy();
+  });
+
+  test('topics starting with $', () => {
+    expect(matchTopic('#', '$SYS/broker/uptime')).toBeFalsy();
+    expect(matchTopic('+/broker/uptime', '$SYS/broker/uptime')).toBeFalsy();
+    expect(matchTopic('$SYS/#', '$SYS/broker/uptime')).toBeTruthy();
+  });
+
+  test('shared subscription', () => {
+    expect(matchTopic('$share/group/iot/v1/c/123/#', 'iot/v1/c/123/device')).toBeTruthy();
+    expect(matchTopic('$share/group/iot/v1/c/+', 'iot/v1/c/123/device')).toBeFalsy();
+  });
+});
+
+describe('SubscriptionRegistry', () => {
+  const TOPIC = 'iot/v1/c/123/#';
+  const OTHER = 'iot/v1/c/456/#';
+
+  test('subscribe on the first subscriber, unsubscribe on the last one', () => {
+    const registry = SubscriptionRegistry.create<string>();
+
+    expect(registry.acquire('a', [TOPIC, TOPIC])).toEqual([TOPIC]);
+    expect(registry.acquire('b', [TOPIC, OTHER])).toEqual([OTHER]);
+    expect(registry.acquire('b', TOPIC)).toEqual([]);
+    expect(registry.subscribersOf(TOPIC)).toEqual(['a', 'b']);
+
+    expect(registry.release('a', TOPIC)).toEqual([]);
+    expect(registry.release('a', TOPIC)).toEqual([]);
+    expect(registry.release('b', TOPIC)).toEqual([TOPIC]);
+    expect(registry.has(TOPIC)).toBeFalsy();
+    expect(registry.topics).toEqual([OTHER]);
+  });
+
+  test('release all', () => {
+    const registry = SubscriptionRegistry.create<string>();
+    registry.acquire('a', [TOPIC, OTHER]);
+    registry.acquire('b', OTHER);
+
+    expect(registry.topicsOf('a')).toEqual([TOPIC, OTHER]);
+    expect(registry.releaseAll('a')).toEqual([TOPIC]);
+    expect(registry.topicsOf('a')).toEqual([]);
+    expect(registry.topics).toEqual([OTHER]);
+  });
+
+  test('subscribers matching', () => {
+    const registry = SubscriptionRegistry.create<string>();
+    registry.acquire('a', [TOPIC, 'iot/v1/c/+/device']);
+    registry.acquire('b', OTHER);
+
+    expect(registry.subscribersMatching('iot/v1/c/123/device')).toEqual(['a']);
+    expect(registry.subscribersMatching('iot/v1/c/456/device')).toEqual(['a', 'b']);
+    expect(registry.subscribersMatching('iot/v1/c/789/online')).toEqual([]);
+  });
+
+  test('forget grants of stale topics', () => {
+    const registry = SubscriptionRegistry.create<string>();
+    registry.acquire('a', TOPIC);
+    registry.grant([{ topic: TOPIC, qos: 1 }]);
+    expect(registry.grantOf(TOPIC)).toEqual({ topic: TOPIC, qos: 1 });
+
+    registry.release('a', TOPIC);
+    expect(registry.grantOf(TOPIC)).toBeUndefined();
+  });
+});
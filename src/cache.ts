@@ -38,6 +38,13 @@ type CacheItemDescriptor = {
   writable: boolean;
 };
 
+/**
+ * 缓存项变化的监听函数
+ * @param key 缓存项的key，不包含前缀
+ * @param value 缓存项的值，删除的时候为null
+ */
+type CacheChangeListener = (key: string, value: unknown) => void;
+
 interface ICache {
   readonly size: number;
   getItem: <T = unknown>(key: string) => Promise<T | null>;
@@ -49,6 +56,19 @@ interface ICache {
   removeItem: (key: string) => Promise<void>;
   clear: () => Promise<void>;
   defineCacheItem: (key: string, nextDescriptor: Partial<CacheItemDescriptor>) => void;
+  /**
+   * 监听缓存项变化
+   * @remarks
+   * 可选的能力，例如MqttService需要在token刷新之后，更新Mqtt连接的密码
+   * @returns 取消监听
+   */
+  subscribe?: (listener: CacheChangeListener) => () => void;
+  /**
+   * 丢弃缓存项在内存中的副本，下一次getItem读取存储中最新的值
+   * @remarks
+   * 可选的能力，例如BusinessReferenceManager持有跨Browser Tab的互斥锁的时候，需要读到其他Browser Tab刚刚写入的值
+   */
+  invalidate?: (key: string) => void;
 }
 
 interface ICacheItem<T = unknown> {
@@ -89,6 +109,15 @@ class WebStorageCache implements ICache {
   private __storage = window.localStorage;
   private __updates = new Set<string>([]);
   private __removes = new Set<string>([]);
+  private __listeners = new Set<CacheChangeListener>();
+  /**
+   * 其他Browser Tab修改了同一个Storage的时候触发
+   * @remarks
+   * 我们在构造函数中，重新绑定了这个函数
+   */
+  private __handleStorage = (event: StorageEvent) => {
+    return;
+  };
   private __keys(storage: Storage) {
     const keys = new Set<string>([]);
     for (let i = 0; i < storage.length; i++) {
@@ -174,6 +203,36 @@ class WebStorageCache implements ICache {
     this.__cacheKeyPrefix = cacheKeyPrefix;
     this.__isMyCacheKey = new RegExp(`^${cacheKeyPrefix}(\\S+)$`, 'g');
     this.__storage = storage;
+    this.__handleStorage = ((event: StorageEvent) => {
+      const key = event.key;
+      // storage.clear()的时候key为null
+      if (event.storageArea !== this.__storage || key === null) {
+        return;
+      }
+      if (!key.startsWith(this.__cacheKeyPrefix)) {
+        return;
+      }
+
+      let value: unknown = null;
+      if (event.newValue === null) {
+        this.__items.delete(key);
+      } else {
+        try {
+          const item: ICacheItem<any> = JSON.parse(event.newValue);
+          this.__items.set(key, item);
+          value = item.value;
+        } catch (error) {
+          console.error(
+            `${new Date().toLocaleString('zh-CN', {
+              hour12: false,
+            })} WebStorageCache#__handleStorage: ${error}`,
+          );
+          return;
+        }
+      }
+
+      this.__notify(key.slice(this.__cacheKeyPrefix.length), value);
+    }).bind(this);
     this.restore();
   }
   get size() {
@@ -220,6 +279,19 @@ class WebStorageCache implements ICache {
   private __prependPrefix(key: string) {
     return `${this.__cacheKeyPrefix}${key}`;
   }
+  private __notify(k: string, value: unknown) {
+    this.__listeners.forEach(listener => {
+      try {
+        listener(k, value);
+      } catch (error) {
+        console.error(
+          `${new Date().toLocaleString('zh-CN', {
+            hour12: false,
+          })} WebStorageCache#__notify: ${error}`,
+        );
+      }
+    });
+  }
   async setItem<T = unknown>(
     k: string,
     value: T,
@@ -238,6 +310,7 @@ class WebStorageCache implements ICache {
       });
       this.__updates.add(key);
       this.__persist();
+      this.__notify(k, value);
     }
 
     return Promise.resolve();
@@ -251,6 +324,7 @@ class WebStorageCache implements ICache {
       this.__items.delete(key);
       this.__removes.add(key);
       this.__persist();
+      this.__notify(k, null);
     }
 
     return Promise.resolve();
@@ -267,9 +341,37 @@ class WebStorageCache implements ICache {
     keys.forEach(k => {
       this.__items.delete(k);
       this.__storage.removeItem(k);
+      this.__notify(k.slice(this.__cacheKeyPrefix.length), null);
     });
     return Promise.resolve();
   }
+  /**
+   * 监听缓存项变化，包括当前Browser Tab的修改，以及其他Browser Tab通过同一个Storage的修改（storage事件）
+   * @param listener
+   * @returns 取消监听
+   */
+  subscribe(listener: CacheChangeListener) {
+    if (this.__listeners.size === 0) {
+      window.addEventListener('storage', this.__handleStorage);
+    }
+    this.__listeners.add(listener);
+
+    return () => {
+      this.__listeners.delete(listener);
+      if (this.__listeners.size === 0) {
+        window.removeEventListener('storage', this.__handleStorage);
+      }
+    };
+  }
+  /**
+   * 丢弃内存中的副本，下一次getItem直接读取Storage
+   * @remarks
+   * 其他Browser Tab的修改要等到storage事件到达之后才会同步到内存中的副本
+   * @param k
+   */
+  invalidate(k: string) {
+    this.__items.delete(this.__prependPrefix(k));
+  }
   defineCacheItem(k: string, nextDescriptor: Partial<CacheItemDescriptor>) {
     const key = this.__prependPrefix(k);
     const currentDescriptor = this.__descriptors.get(key);
@@ -298,6 +400,7 @@ class WebStorageCache implements ICache {
 
 class MemoryCache implements ICache {
   private items = new Map<string, ICacheItem<any>>();
+  private listeners = new Set<CacheChangeListener>();
   static create() {
     return new MemoryCache();
   }
@@ -318,22 +421,45 @@ class MemoryCache implements ICache {
       key,
       value,
     });
+    this.notify(key, value);
     return Promise.resolve();
   }
 
   async removeItem(key: string) {
     this.items.delete(key);
+    this.notify(key, null);
     return Promise.resolve();
   }
 
   async clear() {
+    const keys = Array.from(this.items.keys());
     this.items.clear();
+    keys.forEach(k => this.notify(k, null));
     return Promise.resolve();
   }
   defineCacheItem() {
     return;
   }
+  subscribe(listener: CacheChangeListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+  private notify(key: string, value: unknown) {
+    this.listeners.forEach(listener => {
+      try {
+        listener(key, value);
+      } catch (error) {
+        console.error(
+          `${new Date().toLocaleString('zh-CN', {
+            hour12: false,
+          })} MemoryCache#notify: ${error}`,
+        );
+      }
+    });
+  }
 }
 
 export { MemoryCache, WebStorageCache };
-export type { ICache, ICacheItem };
+export type { CacheChangeListener, ICache, ICacheItem };
@@ -0,0 +1,361 @@
+import { each, isFunction, isNil } from "lodash";
+
+import type {
+  Callable,
+  IMqttService,
+  ITransport,
+  TransportBuilder,
+  TransportCapabilities,
+  TransportConnection,
+} from "./constants";
+import {
+  MqttEvent,
+  MqttServiceState,
+  TransportEvent,
+  TransportKind,
+} from "./constants";
+
+/**
+ * 默认等待Transport响应的时长，毫秒，超时之后退回到ClassicalTransport
+ */
+const DEFAULT_TRANSPORT_SELECTION_TIMEOUT = 10000;
+
+/**
+ * 这些事件说明SharedWorker（或者Leader Browser Tab）已经响应了MqttConnect，即使Broker暂时连不上
+ */
+const TRANSPORT_ANSWERS = [
+  MqttEvent.Close,
+  MqttEvent.Connect,
+  MqttEvent.Error,
+  MqttEvent.Offline,
+  TransportEvent.ReconnectScheduled,
+];
+
+type AutoTransportOptions = {
+  /** 等待Transport响应MqttConnect的时长，毫秒 */
+  timeout: number;
+  /**
+   * 选定Transport（包括退回到ClassicalTransport）的时候调用
+   *
+   * @param kind 选定的Transport类型
+   * @param reason 选择的原因
+   */
+  onSelect?: (kind: TransportKind, reason: string) => void;
+};
+
+/**
+ * Worker构造函数是否支持`{ type: "module" }`
+ *
+ * @remarks
+ *
+ * 不支持的浏览器会忽略type，因此只能通过type是否被读取来判断
+ *
+ * @see [Feature detection for module workers](https://web.dev/articles/module-workers#feature_detection)
+ */
+function supportsModuleWorker() {
+  if (typeof Worker === "undefined") {
+    return false;
+  }
+
+  let supported = false;
+  const tester = {
+    get type(): WorkerType {
+      supported = true;
+      return "module";
+    },
+  };
+  try {
+    new Worker("blob://", tester).terminate();
+  } catch (error) {
+    /** 只关心type有没有被读取，blob://本身就是无效的地址 */
+  }
+  return supported;
+}
+
+function supportsLocalStorage() {
+  try {
+    return typeof localStorage !== "undefined" && !isNil(localStorage);
+  } catch (error) {
+    /** 禁用了Cookie的时候，访问localStorage会抛出SecurityError */
+    return false;
+  }
+}
+
+/**
+ * 检测当前浏览器支持的能力
+ *
+ * @returns
+ */
+function detectTransportCapabilities(): TransportCapabilities {
+  const hasLocks = typeof navigator !== "undefined" && "locks" in navigator;
+  return {
+    broadcastChannel:
+      typeof BroadcastChannel !== "undefined" &&
+      (hasLocks || supportsLocalStorage()),
+    moduleWorker: supportsModuleWorker(),
+    sharedWorker: typeof SharedWorker !== "undefined",
+  };
+}
+
+/**
+ * 根据浏览器支持的能力选择Transport
+ *
+ * @param capabilities 浏览器支持的能力
+ * @returns
+ *
+ * @remarks
+ *
+ * 优先级：SharedWorker > BroadcastChannel > Classical
+ *
+ * worker.ts以ES module编写，不支持module worker的浏览器（例如旧版本的Firefox、Safari），
+ *   SharedWorker的实现往往也不完整，这时候选择BroadcastChannel更稳妥
+ */
+function selectTransportKind(capabilities: TransportCapabilities) {
+  if (capabilities.sharedWorker && capabilities.moduleWorker) {
+    return TransportKind.SharedWorker;
+  }
+  if (capabilities.broadcastChannel) {
+    return TransportKind.BroadcastChannel;
+  }
+  return TransportKind.Classical;
+}
+
+/**
+ * 根据浏览器支持的能力自动选择Transport的TransportBuilder
+ *
+ * @remarks
+ *
+ * 第一次使用的时候检测浏览器支持的能力（参考{@link detectTransportCapabilities}），选择最合适的Transport，
+ *   之后的所有配置（useSharedClientId等）都转交给选定Transport对应的TransportBuilder。
+ *
+ * 选定的是SharedWorker或者BroadcastChannel的时候，如果SharedWorker无法启动（{@link TransportEvent.TransportUnavailable}），
+ *   或者在{@link AutoTransportOptions#timeout}之内没有任何响应，就退回到ClassicalTransport，
+ *   通过{@link IMqttService#rebuild}重建Transport。ClassicalTransport不共享clientId，
+ *   而共享的clientId仍然被其他Browser Tab使用，因此退回的时候为当前Browser Tab重新获取clientId。
+ *
+ * 配置是动态转交的，因此不能通过展开（`{ ...SUPPORTED_TRANSPORT_BUILDER.auto }`）来定制，
+ *   而是定制每一个候选的TransportBuilder
+ *
+ * @example
+ *
+ * const transportBuilder = AutoTransportBuilder.create(
+ *   (kind) => ({
+ *     ...SUPPORTED_TRANSPORT_BUILDER[kind],
+ *     willPayload: WillPayloadProviders.ticket(),
+ *   }),
+ *   {
+ *     onSelect: (kind, reason) => track("mqtt_transport", { kind, reason }),
+ *   }
+ * );
+ */
+class AutoTransportBuilder implements TransportBuilder {
+  private __candidate: (kind: TransportKind) => TransportBuilder;
+  private __capabilities: TransportCapabilities | null = null;
+  private __kind: TransportKind | null = null;
+  private __options: AutoTransportOptions;
+  /** 停止等待当前Transport的响应，参考{@link __watch} */
+  private __unwatch: (() => void) | null = null;
+
+  static create(
+    candidate: (kind: TransportKind) => TransportBuilder,
+    options?: Partial<AutoTransportOptions>
+  ) {
+    return new AutoTransportBuilder(candidate, options);
+  }
+
+  constructor(
+    /** 每一种Transport对应的TransportBuilder */
+    candidate: (kind: TransportKind) => TransportBuilder,
+    options: Partial<AutoTransportOptions> = {}
+  ) {
+    this.__candidate = candidate;
+    this.__options = {
+      timeout: DEFAULT_TRANSPORT_SELECTION_TIMEOUT,
+      ...options,
+    };
+  }
+
+  /**
+   * 当前浏览器支持的能力
+   */
+  get capabilities() {
+    if (isNil(this.__capabilities)) {
+      this.__capabilities = detectTransportCapabilities();
+    }
+    return this.__capabilities;
+  }
+
+  /**
+   * 选定的Transport类型
+   */
+  get kind() {
+    if (isNil(this.__kind)) {
+      const capabilities = this.capabilities;
+      this.__select(
+        selectTransportKind(capabilities),
+        `capabilities: ${JSON.stringify(capabilities)}`
+      );
+    }
+    return this.__kind as TransportKind;
+  }
+
+  get suspendWhenBrowserTabHidden() {
+    return this.__current.suspendWhenBrowserTabHidden;
+  }
+
+  get useSharedClientId() {
+    return this.__current.useSharedClientId;
+  }
+
+  get reconnectPolicy() {
+    return this.__current.reconnectPolicy;
+  }
+
+  get heartbeat() {
+    return this.__current.heartbeat;
+  }
+
+  get outboundQueue() {
+    return this.__current.outboundQueue;
+  }
+
+  get store() {
+    return this.__current.store;
+  }
+
+  get willPayload() {
+    return this.__current.willPayload;
+  }
+
+  get protocolVersion() {
+    return this.__current.protocolVersion;
+  }
+
+  get mqtt5() {
+    return this.__current.mqtt5;
+  }
+
+  build(connection: TransportConnection) {
+    return this.__current.build(connection);
+  }
+
+  postBuild(service: IMqttService, transport: ITransport) {
+    this.__current.postBuild(service, transport);
+
+    /** 上一个Transport已经被替换，不再等待它的响应 */
+    if (!isNil(this.__unwatch)) {
+      this.__unwatch();
+    }
+    if (this.kind !== TransportKind.Classical) {
+      this.__watch(service, transport);
+    }
+  }
+
+  private get __current() {
+    return this.__candidate(this.kind);
+  }
+
+  /**
+   * 退回到ClassicalTransport，并且重建Transport
+   */
+  private __fallback(service: IMqttService, reason: string) {
+    if (this.__kind === TransportKind.Classical) {
+      return;
+    }
+
+    console.warn(
+      `${new Date().toLocaleString("zh-CN", {
+        hour12: false,
+      })} AutoTransportBuilder: fallback from ${
+        this.__kind
+      } to classical, reason: ${reason}`
+    );
+
+    const wasShared = this.useSharedClientId;
+    this.__select(TransportKind.Classical, reason);
+    service.rebuild(wasShared && !this.useSharedClientId);
+  }
+
+  private __select(kind: TransportKind, reason: string) {
+    this.__kind = kind;
+
+    console.info(
+      `${new Date().toLocaleString("zh-CN", {
+        hour12: false,
+      })} AutoTransportBuilder: select ${kind}, reason: ${reason}`
+    );
+
+    if (isFunction(this.__options.onSelect)) {
+      this.__options.onSelect(kind, reason);
+    }
+  }
+
+  /**
+   * 等待Transport响应MqttConnect，超时或者Transport无法启动的时候退回到ClassicalTransport
+   *
+   * @remarks
+   *
+   * Transport已经结束（quit、suspend），或者已经被recover替换的时候，不再等待，也不会退回
+   */
+  private __watch(service: IMqttService, transport: ITransport) {
+    const { timeout } = this.__options;
+
+    const settle = () => {
+      clearTimeout(timer);
+      each(TRANSPORT_ANSWERS, (evt) => {
+        transport.removeEventListener(evt, answered);
+      });
+      transport.removeEventListener(MqttEvent.End, answered);
+      transport.removeEventListener(
+        TransportEvent.TransportUnavailable,
+        unavailable
+      );
+      if (this.__unwatch === settle) {
+        this.__unwatch = null;
+      }
+    };
+    const isStale = () =>
+      service.sharedTransport !== transport ||
+      (service.state !== MqttServiceState.Initializing &&
+        service.state !== MqttServiceState.Running);
+    const answered: Callable = {
+      thisArg: this,
+      func: settle,
+    };
+    const unavailable: Callable = {
+      thisArg: this,
+      func: () => {
+        settle();
+        if (isStale()) {
+          return;
+        }
+        this.__fallback(service, `${this.__kind} transport is unavailable`);
+      },
+    };
+    const timer = setTimeout(() => {
+      settle();
+      if (transport.connected || isStale()) {
+        return;
+      }
+      this.__fallback(service, `no answer within ${timeout}ms`);
+    }, timeout);
+
+    each(TRANSPORT_ANSWERS, (evt) => {
+      transport.addEventListener(evt, answered);
+    });
+    transport.addEventListener(MqttEvent.End, answered);
+    transport.addEventListener(
+      TransportEvent.TransportUnavailable,
+      unavailable
+    );
+    this.__unwatch = settle;
+  }
+}
+
+export {
+  AutoTransportBuilder,
+  DEFAULT_TRANSPORT_SELECTION_TIMEOUT,
+  detectTransportCapabilities,
+  selectTransportKind,
+};
+export type { AutoTransportOptions };
@@ -0,0 +1,1170 @@
+import {
+  each,
+  filter,
+  isArray,
+  isFunction,
+  isNil,
+  map,
+  uniqueId,
+} from "lodash";
+import type {
+  CloseCallback,
+  IClientPublishOptions,
+  IClientSubscribeOptions,
+  IConnackPacket,
+  IDisconnectPacket,
+  ISubscriptionGrant,
+  Packet,
+  PacketCallback,
+} from "mqtt";
+
+import type { Business } from "./business";
+import { ClassicalTransport } from "./classical_transport";
+import type {
+  Callable,
+  HeartbeatPolicy,
+  ITransport,
+  ReconnectSchedule,
+  TransportConnection,
+  TransportCredentials,
+  TransportPublishOptions,
+} from "./constants";
+import {
+  GUEST_CLIENT_ID,
+  MqttEvent,
+  MqttProtocolVersion,
+  MqttQoS,
+  TOPIC,
+  TOPIC_HEADER,
+  TOPIC_VERSION,
+  TransportEvent,
+} from "./constants";
+import type { SerializedMqttError } from "./errors";
+import {
+  MqttNotConnectedError,
+  MqttRequestTimeoutError,
+  MqttTransportError,
+  isFailureReasonCode,
+} from "./errors";
+import { LeaderElector } from "./leader_election";
+import { OutboundQueue } from "./outbound_queue";
+import type { WorkerMessage, WorkerReply } from "./shared_worker_constants";
+import {
+  SharedWorkerMessage,
+  WORKER_REQUEST_TIMEOUT,
+  WorkerAction,
+  WorkerFeedback,
+} from "./shared_worker_constants";
+import { SubscriptionRegistry } from "./subscription_registry";
+import { uniqueTabId } from "./utils";
+
+/**
+ * BroadcastChannel上传递的消息，在{@link WorkerMessage}的基础上增加了发送者和接收者
+ */
+type ChannelMessage<T = any> = WorkerMessage<T> & {
+  /**
+   * 是否是Leader派发的反馈
+   *
+   * @remarks
+   *
+   * {@link WorkerAction}和{@link WorkerFeedback}有同名的值（例如MqttConnect），
+   *   所有Browser Tab共用一个BroadcastChannel，需要区分指令和反馈
+   */
+  feedback: boolean;
+  /** 发送消息的Browser Tab */
+  from: string;
+  /** 接收消息的Browser Tab，为空表示所有Browser Tab */
+  to?: string[];
+};
+
+/**
+ * 默认的Leader心跳策略：每10秒一次，3分钟没有回应视为失联
+ *
+ * @remarks
+ *
+ * 和SharedWorker不同，Leader本身也是一个Browser Tab，在后台的时候定时器会被浏览器节流，最多每分钟执行一次，
+ *   Leader检查Follower、发送Ping，Follower检查Leader都会推迟到一分钟之后，
+ *   因此timeout要远大于节流之后的间隔，否则后台的Leader和Follower会互相视为失联
+ *
+ * @see [Timer throttling in Chrome](https://developer.chrome.com/blog/timer-throttling-in-chrome-88)
+ */
+const DEFAULT_LEADER_HEARTBEAT_POLICY: HeartbeatPolicy = {
+  interval: 10000,
+  timeout: 180000,
+};
+
+/**
+ * Transport Based on BroadcastChannel
+ *
+ * @remarks
+ *
+ * 部分嵌入式浏览器、Android WebView不支持SharedWorker。
+ *   BroadcastChannelTransport在同一个clientId的所有Browser Tab之间选举一个Leader（参考{@link LeaderElector}），
+ *   只有Leader持有Mqtt连接（内部是一个ClassicalTransport），其他Browser Tab（Follower）通过BroadcastChannel
+ *   把指令发送给Leader，Leader再把Mqtt事件转发给Follower。
+ *
+ * 指令和反馈沿用SharedWorker的{@link WorkerAction}、{@link WorkerFeedback}，Leader扮演的就是SharedWorker的角色：
+ *
+ *         |- BrowserTab(Leader) -> ClassicalTransport -> Broker
+ * Browser |- BrowserTab(Follower) -|
+ *         |- BrowserTab(Follower) -|-> BroadcastChannel -> BrowserTab(Leader)
+ *
+ * Leader关闭之后，浏览器释放锁，排队的下一个Browser Tab成为Leader，重新连接Broker，
+ *   并且广播{@link WorkerFeedback.LeaderElected}，Follower收到之后重新登记连接、重新订阅。
+ *
+ * 和SharedWorker不同，Leader本身也是一个Browser Tab，因此Leader关闭的时候连接会短暂中断
+ *
+ * Leader和Follower之间同样有心跳（参考{@link DEFAULT_LEADER_HEARTBEAT_POLICY}）：Leader移除失联的Follower，释放它订阅的主题；
+ *   Follower失去Leader的心跳之后标记为未连接，publish进入离线发布队列，等待重新登记
+ */
+class BroadcastChannelTransport implements ITransport {
+  private __channel: BroadcastChannel | null = null;
+  private __connected = false;
+  private __connection: TransportConnection;
+  private __elector: LeaderElector;
+  private __heartbeat: HeartbeatPolicy;
+  /** 仅Leader使用，定时移除失联的Follower，并且向其余的Follower发送Ping */
+  private __heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  /** 仅Follower使用，检查Leader的心跳 */
+  private __heartbeatWatchdog: ReturnType<typeof setInterval> | null = null;
+  private __initialized = false;
+  /** 仅Leader使用，真正持有Mqtt连接的Transport */
+  private __inner: ClassicalTransport | null = null;
+  /** 仅Leader使用，最近一次CONNACK，用于回应后加入的Follower */
+  private __lastConnack: IConnackPacket | null = null;
+  private __lastPingAt = 0;
+  /** 仅Leader使用，每一个Follower最后一次发送指令（包括Pong）的时间 */
+  private __lastSeen = new Map</** Browser Tab */ string, number>();
+  private __listeners: Map</** Event */ string, /** Listener */ Set<Callable>> =
+    new Map();
+  private __mqttTopics = new Set<string>();
+  private __nextReconnectAt: number | null = null;
+  private __outboundQueue: OutboundQueue;
+  private __pendingReplies = new Map<
+    /** WorkerMessage ID */ string,
+    {
+      resolve: (result: any) => void;
+      reject: (error: Error) => void;
+      timer: ReturnType<typeof setTimeout>;
+    }
+  >();
+  private __reconnectAttempts = 0;
+  private __reconnecting = false;
+  /** 仅Leader使用，每一个Browser Tab订阅的主题 */
+  private __subscriptions = SubscriptionRegistry.create<string>();
+  private __tabId = uniqueTabId();
+  /** 仅Leader使用，仍然需要Mqtt连接的Browser Tab */
+  private __tabs = new Set<string>();
+  private __handleBeforeWindowUnload = () => {
+    return;
+  };
+  private __handleChannelMessage: (
+    event: MessageEvent<ChannelMessage>
+  ) => void = () => {
+    return;
+  };
+
+  static create(connection: TransportConnection): ITransport {
+    return new BroadcastChannelTransport(connection);
+  }
+
+  constructor(connection: TransportConnection) {
+    this.__connection = connection;
+    this.__elector = LeaderElector.create(
+      `mqtt_leader_${connection.opts.clientId}`,
+      this.__tabId
+    );
+    this.__heartbeat = {
+      ...DEFAULT_LEADER_HEARTBEAT_POLICY,
+      ...connection.heartbeat,
+    };
+    /** 参考SharedWorkerTransport，多个Browser Tab共享同一个clientId，离线发布队列只保存在内存中 */
+    this.__outboundQueue = OutboundQueue.create({
+      key: connection.opts.clientId,
+      policy: connection.outboundQueue,
+    });
+
+    this.__handleChannelMessage = ((event: MessageEvent<ChannelMessage>) => {
+      const message = event.data;
+      if (!isNil(message.to) && !message.to.includes(this.__tabId)) {
+        return;
+      }
+
+      if (message.feedback) {
+        this.__digest(message);
+        return;
+      }
+
+      if (this.__elector.isLeader && !isNil(this.__inner)) {
+        this.__handleCommand(message);
+      }
+    }).bind(this);
+
+    /**
+     * 用户直接关闭浏览器标签的时候触发
+     *
+     * 业务引用由MqttService#quit释放（参考quitBeforeBrowserTabUnload）
+     */
+    this.__handleBeforeWindowUnload = (() => {
+      this.__post(WorkerAction.BeforeBrowserTabUnload, {});
+      this.__abdicate();
+      this.__elector.resign();
+    }).bind(this);
+  }
+
+  get brokerUrl() {
+    return this.__connection.brokerUrl;
+  }
+
+  get clientId() {
+    return this.__connection.opts.clientId;
+  }
+
+  get connected() {
+    return this.__connected;
+  }
+
+  get dropPolicy() {
+    return this.__outboundQueue.dropPolicy;
+  }
+
+  get isGuest() {
+    return this.__connection.opts.clientId === GUEST_CLIENT_ID;
+  }
+
+  /**
+   * 当前Browser Tab是否是Leader，也就是是否持有Mqtt连接
+   */
+  get isLeader() {
+    return this.__elector.isLeader;
+  }
+
+  get opts() {
+    return this.__connection.opts;
+  }
+
+  get nextReconnectAt() {
+    return this.__nextReconnectAt;
+  }
+
+  get protocolVersion() {
+    return this.__connection.opts.protocolVersion === MqttProtocolVersion.V5
+      ? MqttProtocolVersion.V5
+      : MqttProtocolVersion.V311;
+  }
+
+  get queueDepth() {
+    return this.__outboundQueue.depth;
+  }
+
+  get reconnectAttempts() {
+    return this.__reconnectAttempts;
+  }
+
+  get reconnecting() {
+    return this.__reconnecting;
+  }
+
+  get topics() {
+    return Array.from(this.__mqttTopics.values());
+  }
+
+  addEventListener(event: MqttEvent | TransportEvent, callable: Callable) {
+    const handlers = this.__listeners.get(event) || new Set();
+    handlers.add(callable);
+    this.__listeners.set(event, handlers);
+  }
+
+  clearOutboundQueue() {
+    this.__outboundQueue.clear();
+  }
+
+  connect() {
+    if (this.__initialized) {
+      return;
+    }
+
+    this.__initialized = true;
+
+    this.__channel = new BroadcastChannel(`mqtt_${this.clientId}`);
+    this.__channel.addEventListener("message", this.__handleChannelMessage);
+    window.addEventListener("beforeunload", this.__handleBeforeWindowUnload);
+
+    /**
+     * 如果已经有Leader，登记当前Browser Tab；如果还没有Leader，这条指令会丢失，
+     *   等到Leader选出来之后，{@link WorkerFeedback.LeaderElected}会触发重新登记
+     */
+    this.__post(WorkerAction.MqttConnect, {});
+    this.__startHeartbeatWatchdog();
+    this.__elector.elect(
+      () => this.__lead(),
+      () => this.__abdicate()
+    );
+  }
+
+  dispose() {
+    this.__pendingReplies.forEach((pending) => {
+      clearTimeout(pending.timer);
+      pending.reject(new Error("BroadcastChannelTransport is disposed"));
+    });
+    this.__pendingReplies.clear();
+    this.__stopHeartbeatWatchdog();
+
+    this.__post(WorkerAction.BeforeBrowserTabUnload, {});
+    this.__abdicate();
+    this.__elector.resign();
+
+    if (!isNil(this.__channel)) {
+      this.__channel.removeEventListener(
+        "message",
+        this.__handleChannelMessage
+      );
+      this.__channel.close();
+      this.__channel = null;
+    }
+    window.removeEventListener("beforeunload", this.__handleBeforeWindowUnload);
+
+    this.__initialized = false;
+  }
+
+  dispatchEvent(event: MqttEvent | TransportEvent, args: any[]) {
+    const handlers = this.__listeners.get(event) || new Set();
+    handlers.forEach((callable) => {
+      callable.func.apply(callable.thisArg, args);
+    });
+  }
+
+  /**
+   * 关闭MQTT Client和Broker之间的链接
+   * @remarks
+   * 和SharedWorkerTransport一样，只有最后一个需要Mqtt连接的Browser Tab调用end，Leader才会真正关闭连接
+   */
+  end(force?: boolean, opts?: Object, cb?: CloseCallback) {
+    /**
+     * Leader响应之后（最后一个Browser Tab需要等Mqtt Client关闭）才调用cb，
+     *   超过{@link WORKER_REQUEST_TIMEOUT}没有响应，同样调用cb，不再等待
+     */
+    const done = () => {
+      if (isFunction(cb)) {
+        cb();
+      }
+    };
+    this.__send(WorkerAction.MqttEnd, { force, opts }).then(
+      done,
+      (error: Error) => {
+        console.error(
+          `${new Date().toLocaleString("zh-CN", {
+            hour12: false,
+          })} BroadcastChannelTransport: end error\n  ${error}`
+        );
+        done();
+      }
+    );
+  }
+
+  /**
+   * 根据Mqtt Topic，获得关注的业务
+   *
+   * @param mqttTopic
+   * @returns
+   *
+   * @example
+   *
+   * const topic = 'iot/v1/c/923aed8850694291b7cd4f76f47571bc/layout_device/status';
+   * const subject = getSubject(topic); // layout_device/status
+   */
+  getSubject(
+    /**
+     * Mqtt topic，e.g iot/v1/c/923aed8850694291b7cd4f76f47571bc/layout_device/status
+     */
+    mqttTopic: string
+  ): string | null {
+    const reg = new RegExp(
+      `${TOPIC_HEADER}\\/${TOPIC_VERSION}\\/c\\/${this.clientId}\\/(\\S+)`
+    );
+    const match = reg.exec(mqttTopic);
+    return isNil(match) ? null : match[1];
+  }
+
+  getTopic(
+    /**
+     * 业务主题，e.g layout_device/status
+     */
+    subject: string
+  ) {
+    return `${TOPIC.CLIENT}/${this.clientId}/${subject}`;
+  }
+
+  publish(
+    topic: string,
+    message: string,
+    opts: TransportPublishOptions = {
+      dup: false,
+      qos: MqttQoS.AtLeastOnce,
+      retain: false,
+    },
+    callback?: PacketCallback
+  ) {
+    const { signal, ...options } = opts;
+    let published: Promise<Packet | undefined>;
+    /**
+     * 还没有连接Leader，或者Leader还没有连接Broker，这时候消息先进入离线发布队列；
+     *   队列中还有消息的时候，新消息也要排队，保证发布顺序
+     */
+    if (!this.__connected || this.__outboundQueue.depth > 0) {
+      published = this.__outboundQueue.enqueue(topic, message, options, signal);
+      this.__flushOutboundQueue();
+    } else {
+      published = this.__publish(topic, message, options);
+    }
+
+    return published.then(
+      (packet) => {
+        if (isFunction(callback)) {
+          callback(undefined, packet);
+        }
+        return packet;
+      },
+      (error: Error) => {
+        if (isFunction(callback)) {
+          callback(error);
+        }
+        throw error;
+      }
+    );
+  }
+
+  reconnect() {
+    this.__send(WorkerAction.MqttReconnect, {}).catch((error: Error) => {
+      console.error(
+        `${new Date().toLocaleString("zh-CN", {
+          hour12: false,
+        })} BroadcastChannelTransport: reconnect error\n  ${error}`
+      );
+    });
+  }
+
+  removeEventListener(event: MqttEvent | TransportEvent, callable?: Callable) {
+    if (isNil(callable)) {
+      this.__listeners.delete(event);
+      return;
+    }
+
+    const handlers = this.__listeners.get(event) || new Set();
+    if (handlers.has(callable)) {
+      handlers.delete(callable);
+      this.__listeners.set(event, handlers);
+    }
+  }
+
+  /**
+   * Leader不缓存最后一条消息，订阅完成之前不会有消息，因此没有错过的消息需要重放
+   */
+  replay(topic: string | string[]) {
+    return Promise.resolve(0);
+  }
+
+  /**
+   * 业务引用由每一个Browser Tab的MqttService#quit释放，Leader不需要转交，因此不需要上报
+   */
+  reportBusinesses(reporter: string, businesses: Business[], holder: string) {
+    return;
+  }
+
+  subscribe(
+    topic: string | string[],
+    options: IClientSubscribeOptions = { qos: MqttQoS.AtLeastOnce }
+  ) {
+    each(isArray(topic) ? topic : [topic], (t) => {
+      this.__mqttTopics.add(t);
+    });
+
+    return this.__send<ISubscriptionGrant[]>(WorkerAction.MqttSubscribe, {
+      topic,
+      options,
+    }).then(
+      (granted) => {
+        this.dispatchEvent(TransportEvent.SubscribeResolve, [granted]);
+        /**
+         * MQTT 3.1.1被拒绝的订阅返回128，MQTT 5.0返回的是Reason Code
+         */
+        each(granted, (g) => {
+          if (
+            this.protocolVersion === MqttProtocolVersion.V5 &&
+            isFailureReasonCode(g.qos)
+          ) {
+            this.dispatchEvent(TransportEvent.ReasonCode, [
+              MqttTransportError.fromReasonCode(g.qos),
+              "suback",
+              g.topic,
+            ]);
+          }
+        });
+        return granted;
+      },
+      (error: Error) => {
+        const transportError = MqttTransportError.from(error);
+        this.dispatchEvent(TransportEvent.SubscribeReject, [transportError]);
+        throw transportError;
+      }
+    );
+  }
+
+  transferOutboundQueue(transport: ITransport) {
+    return this.__outboundQueue.transfer((m, signal) =>
+      transport.publish(m.topic, m.message, { ...m.opts, signal })
+    );
+  }
+
+  unsubscribe(
+    topic: string | string[],
+    opts?: Object,
+    callback?: PacketCallback
+  ) {
+    each(isArray(topic) ? topic : [topic], (t) => {
+      this.__mqttTopics.delete(t);
+    });
+
+    return this.__send<Packet | undefined>(WorkerAction.MqttUnsubscribe, {
+      topic,
+      opts,
+    }).then(
+      (packet) => {
+        if (isFunction(callback)) {
+          callback(undefined, packet);
+        }
+        return packet;
+      },
+      (error: Error) => {
+        if (isFunction(callback)) {
+          callback(error);
+        }
+        throw error;
+      }
+    );
+  }
+
+  /**
+   * 每一个Browser Tab都保存最新的连接凭证，成为Leader的时候使用；
+   *   当前的Leader收到之后更新自己的Mqtt连接
+   */
+  updateCredentials(credentials: TransportCredentials) {
+    this.__connection = {
+      ...this.__connection,
+      opts: {
+        ...this.__connection.opts,
+        ...credentials,
+      },
+    };
+
+    this.__send(WorkerAction.MqttUpdateCredentials, credentials).catch(
+      (error: Error) => {
+        console.error(
+          `${new Date().toLocaleString("zh-CN", {
+            hour12: false,
+          })} BroadcastChannelTransport: update credentials error\n  ${error}`
+        );
+      }
+    );
+  }
+
+  /**
+   * 当前Browser Tab成为Leader：创建Mqtt连接，并且通知其他Browser Tab重新登记
+   */
+  private __lead() {
+    console.info(
+      `${new Date().toLocaleString("zh-CN", {
+        hour12: false,
+      })} BroadcastChannelTransport: ${this.__tabId} is elected as leader`
+    );
+
+    const inner = ClassicalTransport.create(
+      this.__connection
+    ) as ClassicalTransport;
+    this.__inner = inner;
+    this.__tabs = new Set([this.__tabId]);
+
+    const relay = (
+      event: MqttEvent | TransportEvent,
+      func: Callable["func"]
+    ) => {
+      inner.addEventListener(event, { thisArg: this, func });
+    };
+
+    relay(MqttEvent.Connect, (connack: IConnackPacket) => {
+      this.__lastConnack = connack;
+      this.__feedback(WorkerFeedback.MqttConnect, { connack });
+    });
+    relay(MqttEvent.Reconnect, () => {
+      this.__feedback(WorkerFeedback.MqttReconnect, {});
+    });
+    relay(MqttEvent.Close, () => {
+      this.__lastConnack = null;
+      this.__feedback(WorkerFeedback.MqttClose, {});
+    });
+    relay(MqttEvent.Disconnect, (packet: IDisconnectPacket) => {
+      this.__feedback(WorkerFeedback.MqttDisconnect, { packet });
+    });
+    relay(MqttEvent.Offline, () => {
+      this.__feedback(WorkerFeedback.MqttOffline, {});
+    });
+    relay(MqttEvent.Error, (error: MqttTransportError) => {
+      this.__feedback(WorkerFeedback.MqttError, {
+        error: MqttTransportError.from(error).toJSON(),
+      });
+    });
+    relay(MqttEvent.End, () => {
+      this.__lastConnack = null;
+      this.__feedback(WorkerFeedback.MqttEnd, {});
+    });
+    relay(
+      MqttEvent.Message,
+      (topic: string, payload: Uint8Array, packet: Packet) => {
+        this.__feedback(
+          WorkerFeedback.MqttMessage,
+          { topic, payload, packet },
+          this.__subscriptions.subscribersMatching(topic)
+        );
+      }
+    );
+    relay(TransportEvent.ReconnectScheduled, (schedule: ReconnectSchedule) => {
+      this.__feedback(WorkerFeedback.MqttReconnectScheduled, schedule);
+    });
+    relay(TransportEvent.ReconnectExhausted, (attempts: number) => {
+      this.__feedback(WorkerFeedback.MqttReconnectExhausted, { attempts });
+    });
+
+    inner.connect();
+    this.__heartbeatTimer = setInterval(
+      () => this.__beat(),
+      this.__heartbeat.interval
+    );
+
+    this.__feedback(WorkerFeedback.LeaderElected, {});
+    /** 当前Browser Tab自己的订阅也要在新的Mqtt连接上重新登记 */
+    this.__rejoin();
+  }
+
+  /**
+   * 当前Browser Tab不再是Leader：关闭Mqtt连接
+   */
+  private __abdicate() {
+    const inner = this.__inner;
+    if (isNil(inner)) {
+      return;
+    }
+
+    if (this.__heartbeatTimer !== null) {
+      clearInterval(this.__heartbeatTimer);
+    }
+    this.__heartbeatTimer = null;
+
+    this.__inner = null;
+    this.__lastConnack = null;
+    this.__lastSeen.clear();
+    this.__subscriptions.clear();
+    this.__tabs.clear();
+    inner.end(true);
+    inner.dispose();
+  }
+
+  /**
+   * Leader移除超过{@link HeartbeatPolicy#timeout}没有回应的Follower，然后向其余的Follower发送Ping
+   *
+   * @remarks
+   *
+   * 崩溃或者被浏览器丢弃（discard）的Browser Tab不会发送BeforeBrowserTabUnload，只能通过心跳发现；
+   *   移除之后已经没有任何Browser Tab需要Mqtt连接的时候，关闭连接
+   */
+  private __beat() {
+    const inner = this.__inner;
+    if (isNil(inner)) {
+      return;
+    }
+
+    const now = Date.now();
+    each(this.__followers(), (tab) => {
+      if (now - (this.__lastSeen.get(tab) || 0) <= this.__heartbeat.timeout) {
+        return;
+      }
+
+      console.info(
+        `${new Date().toLocaleString("zh-CN", {
+          hour12: false,
+        })} BroadcastChannelTransport: evict ${tab} without heartbeat for ${
+          this.__heartbeat.timeout
+        }ms`
+      );
+
+      this.__release(tab);
+      if (this.__tabs.size === 0) {
+        inner.end(true);
+      }
+    });
+
+    const followers = this.__followers();
+    if (followers.length > 0) {
+      this.__feedback(WorkerFeedback.Ping, {}, followers);
+    }
+  }
+
+  /**
+   * Leader执行指令
+   *
+   * @param type 指令类型
+   * @param args 指令参数
+   * @param from 发送指令的Browser Tab
+   * @returns 指令的执行结果
+   */
+  private __execute(
+    type: WorkerAction,
+    args: Record<string, any>,
+    from: string
+  ): Promise<any> {
+    const inner = this.__inner;
+    if (isNil(inner)) {
+      return Promise.reject(new Error("Not a leader"));
+    }
+
+    switch (type) {
+      case WorkerAction.MqttConnect:
+      case WorkerAction.MqttReconnect: {
+        this.__tabs.add(from);
+        this.__lastSeen.set(from, Date.now());
+        if (inner.connected && !isNil(this.__lastConnack)) {
+          this.__feedback(
+            WorkerFeedback.MqttConnect,
+            { connack: this.__lastConnack },
+            [from]
+          );
+        } else if (type === WorkerAction.MqttReconnect) {
+          inner.reconnect();
+        }
+        return Promise.resolve(undefined);
+      }
+      case WorkerAction.MqttEnd: {
+        this.__release(from);
+        if (this.__tabs.size > 0) {
+          this.__feedback(WorkerFeedback.MqttEnd, {}, [from]);
+          return Promise.resolve(undefined);
+        }
+
+        /** 最后一个Browser Tab结束，等Mqtt Client关闭之后再响应 */
+        return new Promise((resolve) => {
+          inner.end(args.force, args.opts, () => resolve(undefined));
+        });
+      }
+      case WorkerAction.BeforeBrowserTabUnload: {
+        this.__release(from);
+        return Promise.resolve(undefined);
+      }
+      case WorkerAction.MqttPublish: {
+        return inner.publish(args.topic, args.message, args.opts);
+      }
+      case WorkerAction.MqttSubscribe: {
+        const { topic, options = { qos: MqttQoS.AtLeastOnce } } = args;
+        const ts = this.__subscriptions.acquire(from, topic);
+        const subscribed: ISubscriptionGrant[] = map(
+          filter(isArray(topic) ? topic : [topic], (t) => !ts.includes(t)),
+          (t) =>
+            this.__subscriptions.grantOf(t) || { topic: t, qos: options.qos }
+        );
+        if (ts.length === 0) {
+          return Promise.resolve(subscribed);
+        }
+
+        return inner.subscribe(ts, options).then(
+          (granted) => {
+            this.__subscriptions.grant(granted);
+            return [...subscribed, ...granted];
+          },
+          (error: Error) => {
+            /** 订阅失败，撤销登记，下一次订阅仍然会向Broker发送SUBSCRIBE */
+            this.__subscriptions.release(from, ts);
+            throw error;
+          }
+        );
+      }
+      case WorkerAction.MqttUnsubscribe: {
+        const ts = this.__subscriptions.release(from, args.topic);
+        if (ts.length === 0) {
+          return Promise.resolve(undefined);
+        }
+        return inner.unsubscribe(ts, args.opts);
+      }
+      case WorkerAction.MqttUpdateCredentials: {
+        inner.updateCredentials(args as TransportCredentials);
+        return Promise.resolve(undefined);
+      }
+      default:
+        return Promise.resolve(undefined);
+    }
+  }
+
+  /**
+   * Leader处理Follower发送的指令，执行结果通过{@link WorkerFeedback.Reply}单播给Follower
+   */
+  private __handleCommand(message: ChannelMessage) {
+    const { args, from, id, type } = message;
+    if (from === this.__tabId) {
+      return;
+    }
+
+    /** 任何指令都说明Follower仍然存活 */
+    if (this.__tabs.has(from)) {
+      this.__lastSeen.set(from, Date.now());
+    }
+    if (type === WorkerAction.Pong) {
+      return;
+    }
+
+    this.__execute(type as WorkerAction, args, from).then(
+      (result) => {
+        this.__reply(from, id, { result });
+      },
+      (error: Error) => {
+        this.__reply(from, id, {
+          error: MqttTransportError.from(error).toJSON(),
+        });
+      }
+    );
+  }
+
+  /**
+   * 处理Leader转发的反馈，Leader自己的反馈不经过BroadcastChannel，也由这里处理
+   */
+  private __digest(message: ChannelMessage) {
+    const { args, from, id, type } = message;
+
+    switch (type) {
+      case WorkerFeedback.MqttConnect: {
+        this.__connected = true;
+        this.__lastPingAt = Date.now();
+        this.__reconnecting = false;
+        this.__reconnectAttempts = 0;
+        this.__nextReconnectAt = null;
+        this.dispatchEvent(MqttEvent.Connect, [args.connack]);
+        this.__flushOutboundQueue();
+        return;
+      }
+      case WorkerFeedback.MqttReconnect: {
+        this.__connected = false;
+        this.__reconnecting = true;
+        this.__nextReconnectAt = null;
+        this.dispatchEvent(MqttEvent.Reconnect, []);
+        return;
+      }
+      case WorkerFeedback.MqttReconnectScheduled: {
+        const schedule = args as ReconnectSchedule;
+        this.__reconnecting = true;
+        this.__reconnectAttempts = schedule.attempts;
+        this.__nextReconnectAt = schedule.nextReconnectAt;
+        this.dispatchEvent(TransportEvent.ReconnectScheduled, [schedule]);
+        return;
+      }
+      case WorkerFeedback.MqttReconnectExhausted: {
+        this.__reconnecting = false;
+        this.__reconnectAttempts = args.attempts;
+        this.__nextReconnectAt = null;
+        this.dispatchEvent(TransportEvent.ReconnectExhausted, [args.attempts]);
+        return;
+      }
+      case WorkerFeedback.MqttClose: {
+        this.__connected = false;
+        this.__reconnecting = false;
+        this.dispatchEvent(MqttEvent.Close, []);
+        return;
+      }
+      case WorkerFeedback.MqttDisconnect: {
+        const packet = args.packet as IDisconnectPacket;
+        this.__connected = false;
+        this.__reconnecting = false;
+        this.dispatchEvent(MqttEvent.Disconnect, [packet]);
+        if (isFailureReasonCode(packet.reasonCode)) {
+          this.dispatchEvent(TransportEvent.ReasonCode, [
+            MqttTransportError.fromReasonCode(
+              packet.reasonCode,
+              packet.properties && packet.properties.reasonString
+            ),
+            "disconnect",
+          ]);
+        }
+        return;
+      }
+      case WorkerFeedback.MqttOffline: {
+        this.__connected = false;
+        this.__reconnecting = false;
+        this.dispatchEvent(MqttEvent.Offline, []);
+        return;
+      }
+      case WorkerFeedback.MqttError: {
+        this.dispatchEvent(MqttEvent.Error, [
+          new MqttTransportError(args.error as SerializedMqttError),
+        ]);
+        return;
+      }
+      case WorkerFeedback.MqttEnd: {
+        this.__connected = false;
+        this.__reconnecting = false;
+        this.dispatchEvent(MqttEvent.End, []);
+        return;
+      }
+      case WorkerFeedback.MqttMessage: {
+        this.dispatchEvent(MqttEvent.Message, [
+          args.topic,
+          args.payload,
+          args.packet,
+        ]);
+        return;
+      }
+      case WorkerFeedback.Ping: {
+        this.__lastPingAt = Date.now();
+        this.__post(WorkerAction.Pong, {});
+        return;
+      }
+      case WorkerFeedback.LeaderElected: {
+        if (from === this.__tabId) {
+          return;
+        }
+        /** 租约被其他Browser Tab抢占，当前Browser Tab已经不再是Leader */
+        this.__abdicate();
+        this.__rejoin();
+        return;
+      }
+      case WorkerFeedback.Reply: {
+        if (isNil(id)) {
+          return;
+        }
+
+        const pending = this.__pendingReplies.get(id);
+        if (isNil(pending)) {
+          return;
+        }
+
+        this.__pendingReplies.delete(id);
+        clearTimeout(pending.timer);
+        const reply = args as WorkerReply;
+        if (isNil(reply.error)) {
+          pending.resolve(reply.result);
+          return;
+        }
+
+        pending.reject(new MqttTransportError(reply.error));
+        return;
+      }
+      default:
+        return;
+    }
+  }
+
+  /**
+   * Leader派发反馈：其他Browser Tab通过BroadcastChannel接收，Leader自己直接处理
+   *
+   * @param type 反馈类型
+   * @param args 反馈参数
+   * @param to 接收反馈的Browser Tab，为空表示所有Browser Tab
+   */
+  private __feedback(
+    type: WorkerFeedback,
+    args: Record<string, any>,
+    to?: string[]
+  ) {
+    const message: ChannelMessage = {
+      ...SharedWorkerMessage.create({ args, type }),
+      feedback: true,
+      from: this.__tabId,
+      to,
+    };
+
+    if (isNil(to) || to.some((t) => t !== this.__tabId)) {
+      this.__postMessage(message);
+    }
+    if (isNil(to) || to.includes(this.__tabId)) {
+      this.__digest(message);
+    }
+  }
+
+  /**
+   * 仅Leader使用，除了Leader自己之外，仍然需要Mqtt连接的Browser Tab
+   */
+  private __followers() {
+    return filter(Array.from(this.__tabs.values()), (t) => t !== this.__tabId);
+  }
+
+  private __flushOutboundQueue() {
+    if (!this.__connected) {
+      return;
+    }
+
+    this.__outboundQueue.flush(
+      (m) => this.__publish(m.topic, m.message, m.opts),
+      () => this.__connected
+    );
+  }
+
+  /**
+   * 发送不需要响应的指令
+   */
+  private __post(type: WorkerAction, args: Record<string, any>) {
+    this.__postMessage({
+      ...SharedWorkerMessage.create({ args, type }),
+      feedback: false,
+      from: this.__tabId,
+    });
+  }
+
+  private __postMessage(message: ChannelMessage) {
+    if (isNil(this.__channel)) {
+      return;
+    }
+    this.__channel.postMessage(message);
+  }
+
+  private __publish(
+    topic: string,
+    message: string,
+    opts: IClientPublishOptions
+  ) {
+    return this.__send<Packet | undefined>(WorkerAction.MqttPublish, {
+      topic,
+      message,
+      opts,
+    });
+  }
+
+  /**
+   * Leader在新的Mqtt连接上重新登记当前Browser Tab，以及当前Browser Tab订阅的主题
+   *
+   * @remarks
+   *
+   * 发给上一个Leader、尚未响应的指令不会再有响应，直接以{@link MqttNotConnectedError}取消，
+   *   离线发布队列中的消息因此留在队列中，重新连接之后再发布
+   */
+  private __rejoin() {
+    this.__connected = false;
+    this.__pendingReplies.forEach((pending) => {
+      clearTimeout(pending.timer);
+      pending.reject(new MqttNotConnectedError());
+    });
+    this.__pendingReplies.clear();
+
+    this.__send(WorkerAction.MqttConnect, {}).catch(() => undefined);
+    if (this.__mqttTopics.size > 0) {
+      this.subscribe(this.topics).catch((error: Error) => {
+        console.error(
+          `${new Date().toLocaleString("zh-CN", {
+            hour12: false,
+          })} BroadcastChannelTransport: resubscribe error\n  ${error}`
+        );
+      });
+    }
+  }
+
+  /**
+   * 释放Browser Tab的订阅，已经没有任何Browser Tab订阅的主题向Broker发送UNSUBSCRIBE
+   */
+  private __release(tab: string) {
+    this.__tabs.delete(tab);
+    this.__lastSeen.delete(tab);
+    const ts = this.__subscriptions.releaseAll(tab);
+    if (ts.length > 0 && !isNil(this.__inner)) {
+      this.__inner.unsubscribe(ts).catch((error: Error) => {
+        console.error(
+          `${new Date().toLocaleString("zh-CN", {
+            hour12: false,
+          })} BroadcastChannelTransport: unsubscribe error\n  ${error}`
+        );
+      });
+    }
+  }
+
+  private __reply(to: string, id: string | undefined, reply: WorkerReply) {
+    if (isNil(id)) {
+      return;
+    }
+
+    this.__postMessage({
+      ...SharedWorkerMessage.create({
+        args: reply,
+        id,
+        type: WorkerFeedback.Reply,
+      }),
+      feedback: true,
+      from: this.__tabId,
+      to: [to],
+    });
+  }
+
+  /**
+   * 发送需要响应的指令，Leader直接执行，Follower通过BroadcastChannel发送给Leader
+   *
+   * @remarks
+   *
+   * 还没有Leader、或者Leader被冻结的时候不会有响应，超过{@link WORKER_REQUEST_TIMEOUT}以{@link MqttRequestTimeoutError}结束
+   */
+  private __send<T = any>(type: WorkerAction, args: Record<string, any>) {
+    if (this.__elector.isLeader && !isNil(this.__inner)) {
+      return this.__execute(type, args, this.__tabId) as Promise<T>;
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const id = uniqueId(`${this.__tabId}_`);
+      const timer = setTimeout(() => {
+        this.__pendingReplies.delete(id);
+        reject(new MqttRequestTimeoutError(type, WORKER_REQUEST_TIMEOUT));
+      }, WORKER_REQUEST_TIMEOUT);
+      this.__pendingReplies.set(id, { resolve, reject, timer });
+      this.__postMessage({
+        ...SharedWorkerMessage.create({ args, id, type }),
+        feedback: false,
+        from: this.__tabId,
+      });
+    });
+  }
+
+  /**
+   * Follower超过{@link HeartbeatPolicy#timeout}没有收到Leader的Ping，视为Leader失联（例如Leader崩溃、被冻结）
+   *
+   * @remarks
+   *
+   * 标记为未连接，之后的publish进入离线发布队列，然后重新登记：
+   *   Leader仍然存活（只是把当前Browser Tab当作失联的Follower移除了）的时候会重新回应MqttConnect，
+   *   否则等待新的Leader广播{@link WorkerFeedback.LeaderElected}
+   */
+  private __startHeartbeatWatchdog() {
+    this.__stopHeartbeatWatchdog();
+
+    this.__lastPingAt = Date.now();
+    this.__heartbeatWatchdog = setInterval(() => {
+      if (
+        this.__elector.isLeader ||
+        !this.__connected ||
+        Date.now() - this.__lastPingAt <= this.__heartbeat.timeout
+      ) {
+        return;
+      }
+
+      console.error(
+        `${new Date().toLocaleString("zh-CN", {
+          hour12: false,
+        })} BroadcastChannelTransport: no heartbeat from leader for ${
+          this.__heartbeat.timeout
+        }ms`
+      );
+
+      this.__connected = false;
+      this.__reconnecting = false;
+      this.dispatchEvent(MqttEvent.Offline, []);
+      this.__rejoin();
+    }, this.__heartbeat.interval);
+  }
+
+  private __stopHeartbeatWatchdog() {
+    if (this.__heartbeatWatchdog !== null) {
+      clearInterval(this.__heartbeatWatchdog);
+    }
+    this.__heartbeatWatchdog = null;
+  }
+}
+
+export { BroadcastChannelTransport, DEFAULT_LEADER_HEARTBEAT_POLICY };
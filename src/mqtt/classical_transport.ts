@@ -1,4 +1,4 @@
-import { each, isArray, isNil, isString } from "lodash";
+import { each, isArray, isFunction, isNil, isString } from "lodash";
 import type {
   ClientSubscribeCallback,
   CloseCallback,
@@ -6,21 +6,38 @@ import type {
   IClientSubscribeOptions,
   IConnackPacket,
   IDisconnectPacket,
+  ISubscriptionGrant,
   MqttClient,
+  Packet,
   PacketCallback,
 } from "mqtt";
 import mqtt from "mqtt";
 
-import type { Callable, ClientOptions, ITransport } from "./constants";
+import type { Business } from "./business";
+import type {
+  Callable,
+  ClientOptions,
+  ITransport,
+  ReconnectSchedule,
+  TransportConnection,
+  TransportCredentials,
+  TransportPublishOptions,
+} from "./constants";
 import {
+  CK_MQTT_OUTBOUND_QUEUE_PREFIX,
   GUEST_CLIENT_ID,
   MqttEvent,
+  MqttProtocolVersion,
   MqttQoS,
   TOPIC,
   TOPIC_HEADER,
   TOPIC_VERSION,
   TransportEvent,
 } from "./constants";
+import { MqttTransportError, isFailureReasonCode } from "./errors";
+import { openMqttStores } from "./mqtt_store";
+import { OutboundQueue } from "./outbound_queue";
+import { ReconnectScheduler } from "./reconnect_policy";
 
 /**
  * Transport Based on Mqtt
@@ -32,21 +49,31 @@ import {
  * @see [Reason code](https://www.emqx.com/en/blog/mqtt5-new-features-reason-code-and-ack)
  */
 class ClassicalTransport implements ITransport {
-  private __connection: { brokerUrl: string; opts: ClientOptions };
+  private __connecting = false;
+  private __connection: TransportConnection;
+  /** 是否主动调用了end，主动结束的连接不需要重连 */
+  private __ending = false;
   private __listeners: Map</** Event */ string, /** Listener */ Set<Callable>> =
     new Map();
   private __mqttClient: MqttClient | null = null;
   private __mqttTopics = new Set<string>();
+  private __outboundQueue: OutboundQueue;
+  private __reconnectScheduler: ReconnectScheduler;
 
-  static create(connection: {
-    brokerUrl: string;
-    opts: ClientOptions;
-  }): ITransport {
+  static create(connection: TransportConnection): ITransport {
     return new ClassicalTransport(connection);
   }
 
-  constructor(connection: { brokerUrl: string; opts: ClientOptions }) {
+  constructor(connection: TransportConnection) {
     this.__connection = connection;
+    this.__reconnectScheduler = ReconnectScheduler.create(
+      connection.reconnectPolicy
+    );
+    this.__outboundQueue = OutboundQueue.create({
+      key: `${CK_MQTT_OUTBOUND_QUEUE_PREFIX}${connection.opts.clientId}`,
+      cache: connection.cache,
+      policy: connection.outboundQueue,
+    });
   }
 
   get brokerUrl() {
@@ -64,6 +91,10 @@ class ClassicalTransport implements ITransport {
     return this.__mqttClient.connected;
   }
 
+  get dropPolicy() {
+    return this.__outboundQueue.dropPolicy;
+  }
+
   get isGuest() {
     return this.__connection.opts.clientId === GUEST_CLIENT_ID;
   }
@@ -72,11 +103,31 @@ class ClassicalTransport implements ITransport {
     return this.__connection.opts;
   }
 
+  get nextReconnectAt() {
+    return this.__reconnectScheduler.nextReconnectAt;
+  }
+
+  get protocolVersion() {
+    return this.__connection.opts.protocolVersion === MqttProtocolVersion.V5
+      ? MqttProtocolVersion.V5
+      : MqttProtocolVersion.V311;
+  }
+
+  get queueDepth() {
+    return this.__outboundQueue.depth;
+  }
+
+  get reconnectAttempts() {
+    return this.__reconnectScheduler.attempts;
+  }
+
   get reconnecting() {
     if (isNil(this.__mqttClient)) {
       return false;
     }
-    return this.__mqttClient.reconnecting;
+    return (
+      this.__mqttClient.reconnecting || this.__reconnectScheduler.scheduled
+    );
   }
 
   get topics() {
@@ -89,19 +140,42 @@ class ClassicalTransport implements ITransport {
     this.__listeners.set(event, handlers);
   }
 
+  clearOutboundQueue() {
+    this.__outboundQueue.clear();
+  }
+
   connect() {
-    if (!isNil(this.__mqttClient)) {
+    if (!isNil(this.__mqttClient) || this.__connecting) {
       return;
     }
 
-    const { brokerUrl, opts } = this.__connection;
+    const { brokerUrl, opts, store } = this.__connection;
+
+    this.__ending = false;
+    this.__connecting = true;
 
-    // TODO Broker返回bad username or password，怎么处理？
+    /**
+     * 先恢复尚未完成的QoS 1/2 packet，再创建MqttClient，参考{@link openMqttStores}
+     */
+    openMqttStores(opts.clientId, store).then((stores) => {
+      this.__connecting = false;
+      if (this.__ending) {
+        return;
+      }
+      this.__constructMqttClient(brokerUrl, { ...opts, ...stores });
+    });
+  }
 
-    const client = mqtt.connect(brokerUrl, opts);
+  private __constructMqttClient(brokerUrl: string, opts: ClientOptions) {
+    /**
+     * 关闭MqttClient的自动重连，重连交给{@link ReconnectScheduler}
+     */
+    const client = mqtt.connect(brokerUrl, { ...opts, reconnectPeriod: 0 });
     client.on(MqttEvent.Connect, (connack: IConnackPacket) => {
       console.info("Transport connect");
+      this.__reconnectScheduler.reset();
       this.dispatchEvent(MqttEvent.Connect, [connack]);
+      this.__flushOutboundQueue();
     });
     client.on(MqttEvent.Reconnect, () => {
       console.info("Transport reconnect");
@@ -110,20 +184,31 @@ class ClassicalTransport implements ITransport {
     client.on(MqttEvent.Close, () => {
       console.info("Transport close");
       this.dispatchEvent(MqttEvent.Close, []);
+      this.__scheduleReconnect();
     });
     client.on(MqttEvent.Disconnect, (packet: IDisconnectPacket) => {
       console.warn("Transport disconnect");
       this.dispatchEvent(MqttEvent.Disconnect, [packet]);
+      if (isFailureReasonCode(packet.reasonCode)) {
+        this.dispatchEvent(TransportEvent.ReasonCode, [
+          MqttTransportError.fromReasonCode(
+            packet.reasonCode,
+            packet.properties && packet.properties.reasonString
+          ),
+          "disconnect",
+        ]);
+      }
     });
     client.on(MqttEvent.Offline, () => {
       console.warn("Transport offline");
       this.dispatchEvent(MqttEvent.Offline, []);
     });
+    /**
+     * 是否结束连接、重建Transport，交给上层应用（MqttService）根据错误类型决定
+     */
     client.on(MqttEvent.Error, (error: Error) => {
       console.error("Transport error", error);
-      this.dispatchEvent(MqttEvent.Error, [error]);
-      this.end();
-      this.dispose();
+      this.dispatchEvent(MqttEvent.Error, [MqttTransportError.from(error)]);
     });
     client.on(MqttEvent.End, () => {
       console.info("Transport end");
@@ -147,7 +232,19 @@ class ClassicalTransport implements ITransport {
   }
 
   end(force?: boolean, opts?: Object, cb?: CloseCallback) {
+    /** MqttClient还没有创建，创建之前放弃即可，没有需要关闭的连接，直接回调 */
+    if (this.__connecting) {
+      this.__ending = true;
+      if (isFunction(cb)) {
+        cb();
+      }
+      return;
+    }
+
     if (isNil(this.__mqttClient)) {
+      if (isFunction(cb)) {
+        cb();
+      }
       return;
     }
 
@@ -155,7 +252,10 @@ class ClassicalTransport implements ITransport {
       return;
     }
 
-    this.__mqttClient.end(force, opts, cb);
+    this.__ending = true;
+    this.__reconnectScheduler.cancel();
+    /** opts不是对象的时候，MqttClient#end会把它当作回调，丢弃真正的回调 */
+    this.__mqttClient.end(force, opts || {}, cb);
   }
 
   /**
@@ -194,18 +294,59 @@ class ClassicalTransport implements ITransport {
   publish(
     topic: string,
     message: string,
-    opts: IClientPublishOptions = {
+    opts: TransportPublishOptions = {
       dup: false,
       qos: MqttQoS.AtLeastOnce,
       retain: false,
     },
     callback?: PacketCallback
   ) {
-    if (isNil(this.__mqttClient)) {
-      return;
+    const { signal, ...options } = opts;
+    let published: Promise<Packet | undefined>;
+    /**
+     * 队列中还有消息的时候，新消息也要排队，保证发布顺序
+     */
+    if (!this.connected || this.__outboundQueue.depth > 0) {
+      published = this.__outboundQueue.enqueue(topic, message, options, signal);
+      this.__flushOutboundQueue();
+    } else {
+      published = this.__publish(topic, message, options);
     }
 
-    this.__mqttClient.publish(topic, message, opts, callback);
+    return published.then(
+      (packet) => {
+        if (isFunction(callback)) {
+          callback(undefined, packet);
+        }
+        return packet;
+      },
+      (error: Error) => {
+        if (isFunction(callback)) {
+          callback(error);
+        }
+        throw error;
+      }
+    );
+  }
+
+  private __publish(
+    topic: string,
+    message: string,
+    opts: IClientPublishOptions
+  ) {
+    return new Promise<Packet | undefined>((resolve, reject) => {
+      if (isNil(this.__mqttClient)) {
+        return resolve(undefined);
+      }
+
+      this.__mqttClient.publish(topic, message, opts, (error, packet) => {
+        if (error) {
+          reject(error);
+        } else {
+          resolve(packet);
+        }
+      });
+    });
   }
 
   /**
@@ -217,9 +358,56 @@ class ClassicalTransport implements ITransport {
       return;
     }
 
+    this.__ending = false;
+    this.__reconnectScheduler.reset();
     return this.__mqttClient.reconnect();
   }
 
+  /**
+   * 连接建立之后，按照顺序发布离线发布队列中的消息
+   */
+  private __flushOutboundQueue() {
+    if (!this.connected) {
+      return;
+    }
+
+    this.__outboundQueue.flush(
+      (m) => this.__publish(m.topic, m.message, m.opts),
+      () => this.connected
+    );
+  }
+
+  /**
+   * 连接关闭之后，按照{@link ReconnectPolicy}安排下一次重连
+   */
+  private __scheduleReconnect() {
+    if (isNil(this.__mqttClient) || this.__ending) {
+      return;
+    }
+
+    const client = this.__mqttClient;
+    const scheduled = this.__reconnectScheduler.schedule(() => {
+      if (this.__ending) {
+        return;
+      }
+      client.reconnect();
+    });
+
+    if (!scheduled) {
+      console.warn("Transport reconnect exhausted");
+      this.dispatchEvent(TransportEvent.ReconnectExhausted, [
+        this.__reconnectScheduler.attempts,
+      ]);
+      return;
+    }
+
+    const schedule: ReconnectSchedule = {
+      attempts: this.__reconnectScheduler.attempts,
+      nextReconnectAt: this.__reconnectScheduler.nextReconnectAt,
+    };
+    this.dispatchEvent(TransportEvent.ReconnectScheduled, [schedule]);
+  }
+
   removeEventListener(event: MqttEvent | TransportEvent, callable?: Callable) {
     if (isNil(callable)) {
       this.__listeners.delete(event);
@@ -233,6 +421,20 @@ class ClassicalTransport implements ITransport {
     }
   }
 
+  /**
+   * 每一个Browser Tab都持有自己的Mqtt Client，订阅完成之前不会有消息，因此没有错过的消息需要重放
+   */
+  replay(topic: string | string[]) {
+    return Promise.resolve(0);
+  }
+
+  /**
+   * 每一个Browser Tab都持有自己的Mqtt Client，不存在替其他Browser Tab释放业务引用的问题，因此不需要上报
+   */
+  reportBusinesses(reporter: string, businesses: Business[], holder: string) {
+    return;
+  }
+
   /**
    * 订阅MQTT Topic
    * @param topic MQTT Topic
@@ -243,8 +445,7 @@ class ClassicalTransport implements ITransport {
     topic: string | string[],
     options: IClientSubscribeOptions = { qos: MqttQoS.AtLeastOnce }
   ) {
-    // TODO dispatchEvent when subscribe error/success
-    return new Promise((resolve, reject) => {
+    return new Promise<ISubscriptionGrant[]>((resolve, reject) => {
       if (isNil(this.__mqttClient)) {
         return resolve([]);
       }
@@ -261,10 +462,26 @@ class ClassicalTransport implements ITransport {
 
       const callback: ClientSubscribeCallback = (error, granted) => {
         if (error) {
-          this.dispatchEvent(TransportEvent.SubscribeReject, [error]);
-          reject(error);
+          const transportError = MqttTransportError.from(error);
+          this.dispatchEvent(TransportEvent.SubscribeReject, [transportError]);
+          reject(transportError);
         } else {
           this.dispatchEvent(TransportEvent.SubscribeResolve, [granted]);
+          /**
+           * MQTT 3.1.1被拒绝的订阅返回128，MQTT 5.0返回的是Reason Code
+           */
+          each(granted, (g) => {
+            if (
+              this.protocolVersion === MqttProtocolVersion.V5 &&
+              isFailureReasonCode(g.qos)
+            ) {
+              this.dispatchEvent(TransportEvent.ReasonCode, [
+                MqttTransportError.fromReasonCode(g.qos),
+                "suback",
+                g.topic,
+              ]);
+            }
+          });
           resolve(granted);
         }
       };
@@ -273,26 +490,61 @@ class ClassicalTransport implements ITransport {
     });
   }
 
+  transferOutboundQueue(transport: ITransport) {
+    return this.__outboundQueue.transfer((m, signal) =>
+      transport.publish(m.topic, m.message, { ...m.opts, signal })
+    );
+  }
+
   unsubscribe(
     topic: string | string[],
     opts?: Object,
     callback?: PacketCallback
   ) {
-    if (isNil(this.__mqttClient)) {
-      return;
-    }
+    return new Promise<Packet | undefined>((resolve, reject) => {
+      if (isNil(this.__mqttClient)) {
+        return resolve(undefined);
+      }
 
-    if (isString(topic)) {
-      this.__mqttTopics.delete(topic);
-    }
+      if (isString(topic)) {
+        this.__mqttTopics.delete(topic);
+      }
+
+      if (isArray(topic)) {
+        each(topic, (t) => {
+          this.__mqttTopics.delete(t);
+        });
+      }
 
-    if (isArray(topic)) {
-      each(topic, (t) => {
-        this.__mqttTopics.delete(t);
+      this.__mqttClient.unsubscribe(topic, opts, (error, packet) => {
+        if (isFunction(callback)) {
+          callback(error, packet);
+        }
+
+        if (error) {
+          reject(error);
+        } else {
+          resolve(packet);
+        }
       });
-    }
+    });
+  }
 
-    this.__mqttClient?.unsubscribe(topic, opts, callback);
+  /**
+   * MqttClient每一次重连都会根据options重新构造CONNECT报文，因此直接修改options即可
+   */
+  updateCredentials(credentials: TransportCredentials) {
+    this.__connection = {
+      ...this.__connection,
+      opts: {
+        ...this.__connection.opts,
+        ...credentials,
+      },
+    };
+
+    if (!isNil(this.__mqttClient)) {
+      Object.assign(this.__mqttClient.options, credentials);
+    }
   }
 }
 
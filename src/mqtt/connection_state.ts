@@ -0,0 +1,158 @@
+import { isNil } from "lodash";
+
+import type { ConnectionStatus, ITransport } from "./constants";
+import { ConnectionState, MqttEvent, TransportEvent } from "./constants";
+
+/**
+ * 连接状态机，根据Transport派发的事件推导出{@link ConnectionStatus}
+ *
+ * @remarks
+ *
+ * 以前UI组件需要轮询connected/reconnecting，或者给十个KnownMqttEvents分别注册事件处理程序，才能知道当前的连接状态。
+ *   MqttService和每一个MqttServiceWorker都持有一个ConnectionStateMachine，
+ *   状态变化的时候派发{@link TransportEvent.ConnectionStateChange}。
+ *
+ * 推导规则和SharedWorkerTransport维护__connected/__reconnecting的规则保持一致。
+ */
+class ConnectionStateMachine {
+  private __status: ConnectionStatus;
+  private __onChange: (next: ConnectionStatus, prev: ConnectionStatus) => void;
+
+  static create(
+    onChange: (next: ConnectionStatus, prev: ConnectionStatus) => void,
+    transport?: ITransport
+  ) {
+    return new ConnectionStateMachine(onChange, transport);
+  }
+
+  constructor(
+    onChange: (next: ConnectionStatus, prev: ConnectionStatus) => void,
+    transport?: ITransport
+  ) {
+    this.__onChange = onChange;
+    this.__status = {
+      state: ConnectionStateMachine.infer(transport),
+      since: Date.now(),
+      lastError: null,
+      lastErrorAt: null,
+    };
+  }
+
+  /**
+   * 根据Transport当前的connected/reconnecting推导连接状态
+   *
+   * @param transport
+   * @returns
+   */
+  static infer(transport?: ITransport) {
+    if (isNil(transport)) {
+      return ConnectionState.Idle;
+    }
+    if (transport.connected) {
+      return ConnectionState.Online;
+    }
+    if (transport.reconnecting) {
+      return ConnectionState.Reconnecting;
+    }
+    return ConnectionState.Idle;
+  }
+
+  get state() {
+    return this.__status.state;
+  }
+
+  get status() {
+    return this.__status;
+  }
+
+  /**
+   * 根据Transport派发的事件，推导下一个连接状态
+   *
+   * @param event Transport派发的事件
+   * @param args 事件参数
+   */
+  digest(event: MqttEvent | TransportEvent, args: any[]) {
+    const current = this.__status.state;
+
+    switch (event) {
+      case MqttEvent.Connect:
+        return this.transition(ConnectionState.Online);
+      case MqttEvent.Reconnect:
+      case TransportEvent.ReconnectScheduled:
+        return this.transition(ConnectionState.Reconnecting);
+      case MqttEvent.Close:
+      case MqttEvent.Disconnect:
+      case MqttEvent.Offline:
+        /**
+         * 主动挂起、主动结束、已经失败的情况下，MqttClient仍然会派发close/offline事件，此时保持原来的状态
+         */
+        if (
+          current === ConnectionState.Suspended ||
+          current === ConnectionState.Ended ||
+          current === ConnectionState.Failed ||
+          current === ConnectionState.Reconnecting
+        ) {
+          return;
+        }
+        return this.transition(ConnectionState.Offline);
+      case MqttEvent.Error:
+        return this.fail(args[0], current);
+      case MqttEvent.End:
+        /**
+         * 挂起的时候会结束MqttClient；放弃重连之后同样会结束MqttClient，此时保留Failed，否则失败原因会被End覆盖
+         */
+        if (
+          current === ConnectionState.Suspended ||
+          current === ConnectionState.Failed
+        ) {
+          return;
+        }
+        return this.transition(ConnectionState.Ended);
+      case TransportEvent.ReconnectExhausted:
+        return this.transition(ConnectionState.Failed);
+      case TransportEvent.Evicted:
+        return this.transition(ConnectionState.Offline);
+      default:
+        return;
+    }
+  }
+
+  /**
+   * 记录错误
+   *
+   * @param error 错误
+   * @param state 记录错误之后的连接状态，默认为{@link ConnectionState.Failed}
+   */
+  fail(error: Error, state: ConnectionState = ConnectionState.Failed) {
+    const prev = this.__status;
+    const now = Date.now();
+    this.__status = {
+      state,
+      since: state === prev.state ? prev.since : now,
+      lastError: isNil(error) ? null : error,
+      lastErrorAt: now,
+    };
+    this.__onChange(this.__status, prev);
+  }
+
+  /**
+   * 切换连接状态，状态没有变化的时候不会派发事件
+   *
+   * @param state 下一个连接状态
+   */
+  transition(state: ConnectionState) {
+    const prev = this.__status;
+    if (prev.state === state) {
+      return;
+    }
+
+    this.__status = {
+      ...prev,
+      state,
+      since: Date.now(),
+    };
+    this.__onChange(this.__status, prev);
+  }
+}
+
+export { ConnectionStateMachine };
@@ -3,9 +3,13 @@ import type {
   IClientOptions,
   IClientPublishOptions,
   IClientSubscribeOptions,
+  ISubscriptionGrant,
+  Packet,
   PacketCallback,
 } from "mqtt";
 
+import type { ICache, IMSTDependence } from "@platform/core/infra";
+
 import type { Business } from "./business";
 
 /**
@@ -60,6 +64,99 @@ enum MqttSocketError {
   ETIMEDOUT = "ETIMEDOUT",
 }
 
+/**
+ * MQTT 3.1.1 CONNACK返回码
+ *
+ * @remarks
+ *
+ * Broker拒绝连接的时候，MqttClient会派发error事件，error.code就是CONNACK返回码
+ *
+ * @see [CONNACK – Acknowledge connection request](http://docs.oasis-open.org/mqtt/mqtt/v3.1.1/os/mqtt-v3.1.1-os.html#_Toc398718033)
+ */
+enum MqttConnackReturnCode {
+  Accepted = 0,
+  UnacceptableProtocolVersion = 1,
+  IdentifierRejected = 2,
+  ServerUnavailable = 3,
+  BadUsernameOrPassword = 4,
+  NotAuthorized = 5,
+}
+
+/**
+ * Mqtt协议版本
+ *
+ * @remarks
+ *
+ * 默认使用MQTT 3.1.1，需要MQTT 5.0特性的时候，通过{@link TransportBuilder#protocolVersion}开启
+ */
+enum MqttProtocolVersion {
+  /** MQTT 3.1.1 */
+  V311 = 4,
+  /** MQTT 5.0 */
+  V5 = 5,
+}
+
+/**
+ * MQTT 5.0 表示失败的Reason Code（大于等于0x80）
+ *
+ * @remarks
+ *
+ * MQTT 5.0中，CONNACK、SUBACK、DISCONNECT等报文都携带Reason Code，小于0x80表示成功。
+ *   Broker拒绝连接的时候，error.code就是Reason Code；SUBACK中被拒绝的订阅，granted.qos就是Reason Code
+ *
+ * @see [Reason Code](https://docs.oasis-open.org/mqtt/mqtt/v5.0/os/mqtt-v5.0-os.html#_Toc3901031)
+ * @see [Reason code](https://www.emqx.com/en/blog/mqtt5-new-features-reason-code-and-ack)
+ */
+enum MqttReasonCode {
+  UnspecifiedError = 0x80,
+  MalformedPacket = 0x81,
+  ProtocolError = 0x82,
+  ImplementationSpecificError = 0x83,
+  UnsupportedProtocolVersion = 0x84,
+  ClientIdentifierNotValid = 0x85,
+  BadUserNameOrPassword = 0x86,
+  NotAuthorized = 0x87,
+  ServerUnavailable = 0x88,
+  ServerBusy = 0x89,
+  Banned = 0x8a,
+  ServerShuttingDown = 0x8b,
+  BadAuthenticationMethod = 0x8c,
+  KeepAliveTimeout = 0x8d,
+  SessionTakenOver = 0x8e,
+  TopicFilterInvalid = 0x8f,
+  TopicNameInvalid = 0x90,
+  PacketIdentifierInUse = 0x91,
+  PacketIdentifierNotFound = 0x92,
+  ReceiveMaximumExceeded = 0x93,
+  TopicAliasInvalid = 0x94,
+  PacketTooLarge = 0x95,
+  MessageRateTooHigh = 0x96,
+  QuotaExceeded = 0x97,
+  AdministrativeAction = 0x98,
+  PayloadFormatInvalid = 0x99,
+  RetainNotSupported = 0x9a,
+  QoSNotSupported = 0x9b,
+  UseAnotherServer = 0x9c,
+  ServerMoved = 0x9d,
+  SharedSubscriptionsNotSupported = 0x9e,
+  ConnectionRateExceeded = 0x9f,
+  MaximumConnectTime = 0xa0,
+  SubscriptionIdentifiersNotSupported = 0xa1,
+  WildcardSubscriptionsNotSupported = 0xa2,
+}
+
+/**
+ * MqttService处理Mqtt异常的恢复策略
+ */
+enum MqttRecoveryStrategy {
+  /** 交给MqttClient按照reconnectPeriod自动重连，不需要额外处理 */
+  Reconnect = "Reconnect",
+  /** 会话已经失效（例如断开过长时间，API关闭了clientId对应的topic），需要重新获取clientId，重建Transport */
+  Rebootstrap = "Rebootstrap",
+  /** 无法自动恢复，结束Mqtt连接 */
+  Abort = "Abort",
+}
+
 /**
  * Mqtt支持的事件
  */
@@ -80,10 +177,84 @@ enum MqttEvent {
 }
 
 enum TransportEvent {
+  /**
+   * 业务的引用数量（所有Browser Tab之和）发生变化，包括其他Browser Tab的修改，
+   *   参数是Follow ID、当前的引用数量以及之前的引用数量，参考BusinessReferenceManager
+   */
+  BusinessReferenceChange = "BusinessReferenceChange",
+  /** 连接状态发生变化，参数是当前的{@link ConnectionStatus}以及之前的{@link ConnectionStatus} */
+  ConnectionStateChange = "ConnectionStateChange",
+  /**
+   * 当前Browser Tab太久没有收到SharedWorker的心跳，可能已经被SharedWorker当作失联的Browser Tab移除，
+   *   或者SharedWorker本身已经崩溃，参考{@link HeartbeatPolicy}
+   */
+  Evicted = "Evicted",
+  /**
+   * 其他Browser Tab失联之后，SharedWorker把它关注的业务转交给当前Browser Tab，参数是业务列表、失联的Browser Tab持有的租约
+   */
+  OrphanedBusinesses = "OrphanedBusinesses",
+  /**
+   * MQTT 5.0 Broker通过DISCONNECT、SUBACK返回了表示失败的Reason Code，
+   *   参数是{@link MqttTransportError}、报文类型（"disconnect" | "suback"），以及被拒绝订阅的主题（仅suback）
+   */
+  ReasonCode = "ReasonCode",
+  /** 超过了{@link ReconnectPolicy#maxAttempts}，不再重连 */
+  ReconnectExhausted = "ReconnectExhausted",
+  /** 已经安排了下一次重连，参数是{@link ReconnectSchedule} */
+  ReconnectScheduled = "ReconnectScheduled",
   SubscribeReject = "SubscribeReject",
   SubscribeResolve = "SubscribeResolve",
+  /**
+   * Transport无法启动，例如SharedWorker的脚本加载失败，参数是ErrorEvent
+   */
+  TransportUnavailable = "TransportUnavailable",
 }
 
+/**
+ * 连接状态，由Transport派发的事件推导而来，供UI展示
+ *
+ * @remarks
+ *
+ * 状态转换如下
+ *
+ * Idle -> Connecting -> Online
+ * Online -> Offline -> Reconnecting -> Online
+ * Reconnecting -> Failed（超过了最大重连次数）
+ * Online -> Suspended（MqttService#suspend） -> Connecting（MqttService#resume）
+ * Online -> Ended（MqttService#quit/MqttService#forceQuit）
+ */
+enum ConnectionState {
+  /** 尚未发起连接 */
+  Idle = "Idle",
+  /** 正在发起第一次连接 */
+  Connecting = "Connecting",
+  /** 已经连接 */
+  Online = "Online",
+  /** 连接断开，正在等待重连或者正在重连 */
+  Reconnecting = "Reconnecting",
+  /** 连接断开 */
+  Offline = "Offline",
+  /** Browser Tab处于hidden，MqttService主动挂起 */
+  Suspended = "Suspended",
+  /** 主动结束了连接 */
+  Ended = "Ended",
+  /** 无法恢复的错误，或者超过了最大重连次数 */
+  Failed = "Failed",
+}
+
+/**
+ * 连接状态快照
+ */
+type ConnectionStatus = {
+  state: ConnectionState;
+  /** 进入当前状态的时间戳 */
+  since: number;
+  /** 最近一次错误 */
+  lastError: Error | null;
+  /** 最近一次错误的时间戳 */
+  lastErrorAt: number | null;
+};
+
 /**
  * MQTT QoS Levels
  *
@@ -150,6 +321,55 @@ const KnownMqttEvents = [
   MqttEvent.PacketReceive,
 ];
 
+/**
+ * 所有已知的Transport事件
+ *
+ * @remarks
+ *
+ * TransportEvent.ConnectionStateChange由MqttService、MqttServiceWorker派发，
+ *   TransportEvent.BusinessReferenceChange由MqttService派发，Transport本身不会派发
+ */
+const KnownTransportEvents = [
+  TransportEvent.Evicted,
+  TransportEvent.OrphanedBusinesses,
+  TransportEvent.ReasonCode,
+  TransportEvent.ReconnectExhausted,
+  TransportEvent.ReconnectScheduled,
+  TransportEvent.SubscribeReject,
+  TransportEvent.SubscribeResolve,
+  TransportEvent.TransportUnavailable,
+];
+
+/**
+ * 消息中没有携带bid的时候，{@link MessageRouter}的处理策略
+ */
+enum MessageRoutingFallback {
+  /** 派发给关注同一个subject的所有业务（兼容以前只根据subject判断的行为） */
+  Broadcast = "Broadcast",
+  /** 丢弃，只有没有bid的业务才能收到 */
+  Drop = "Drop",
+}
+
+/**
+ * {@link MessageRouter}配置
+ */
+type MessageRoutingOptions = {
+  /**
+   * 从{@link MqttPayload}中提取bid的路径，参考lodash.get
+   * @default "payload.bid"
+   */
+  bidKeyPath: string;
+  /**
+   * 按照subject覆盖bidKeyPath，e.g { "log/detail": "payload.data.deviceId" }
+   */
+  bidKeyPaths: Record</** Subject */ string, /** Key Path */ string>;
+  /**
+   * 消息中没有携带bid的时候的处理策略
+   * @default MessageRoutingFallback.Broadcast
+   */
+  fallback: MessageRoutingFallback;
+};
+
 /**
  * MqttService状态
  *
@@ -186,6 +406,12 @@ const KnownMqttEvents = [
  * __MqttServiceState.Running
  *   -> __MqttServiceState.Stopping
  *     -> __MqttServiceState.Created
+ *
+ * **MqttService.recover()**
+ *
+ * __MqttServiceState.Running
+ *   -> __MqttServiceState.Recovering
+ *     -> __MqttServiceState.Running
  */
 enum MqttServiceState {
   Created,
@@ -195,6 +421,7 @@ enum MqttServiceState {
   Stopping,
   Suspended,
   Running,
+  Recovering,
 }
 
 type Callable = {
@@ -210,17 +437,247 @@ type Callable = {
   ) => void;
 };
 
-type MqttPayload = {
+type MqttPayload<T = Record<string, any>> = {
   clientId: string;
   method: string;
-  payload: Record<string, any>;
+  payload: T;
+  /** 消息序号，RPC响应的seq与请求的seq相同，参考{@link getSeq} */
+  seq?: string;
   service: string;
   srcAddr: string;
 };
 
+/**
+ * 基于Mqtt的RPC请求
+ */
+type RpcRequest<T = Record<string, any>> = {
+  service: string;
+  method: string;
+  payload: T;
+};
+
+/**
+ * 基于Mqtt的RPC请求配置
+ */
+type RpcOptions = {
+  /** 用于取消请求 */
+  signal?: AbortSignal;
+  /** 超时时间，毫秒，默认值{@link DEFAULT_RPC_TIMEOUT} */
+  timeout?: number;
+};
+
+/**
+ * 业务消息处理程序
+ *
+ * @param message 解码后的Mqtt消息
+ * @param topic Mqtt Topic，e.g iot/v1/c/923aed8850694291b7cd4f76f47571bc/layout_device/status
+ */
+type MqttMessageHandler<T = Record<string, any>> = (
+  message: MqttPayload<T>,
+  topic: string
+) => void;
+
 type ClientOptions = IClientOptions & {
   clientId: string;
   password: string;
+  /** MQTT 5.0，发布消息时使用已经建立的主题别名，mqtt的类型声明中缺少这个配置 */
+  autoUseTopicAlias?: boolean;
+  /** MQTT 5.0，发布消息时自动分配主题别名，mqtt的类型声明中缺少这个配置 */
+  autoAssignTopicAlias?: boolean;
+};
+
+/**
+ * MQTT 5.0 配置，只有{@link TransportBuilder#protocolVersion}是{@link MqttProtocolVersion.V5}的时候才生效
+ */
+type Mqtt5Options = {
+  /**
+   * 断开连接之后，Broker保留会话的时间，秒，0表示断开即清除会话
+   *
+   * @remarks
+   *
+   * 不为0的时候，CONNECT报文的Clean Start会设置为false，重连之后可以收到离线期间的QoS 1/2消息
+   */
+  sessionExpiryInterval: number;
+  /** 遗言在Broker中的过期时间，秒，RPC请求的过期时间等于请求的超时时间 */
+  messageExpiryInterval: number;
+  /** 允许Broker使用的主题别名数量，0表示不使用主题别名 */
+  topicAliasMaximum: number;
+  /** 随CONNECT报文、遗言一起发送的用户属性 */
+  userProperties: Record<string, string | string[]>;
+};
+
+/**
+ * MQTT 5.0 默认配置
+ */
+const DEFAULT_MQTT5_OPTIONS: Mqtt5Options = {
+  sessionExpiryInterval: 0,
+  messageExpiryInterval: 60,
+  topicAliasMaximum: 10,
+  userProperties: {},
+};
+
+/**
+ * MQTT 5.0 订阅标识符，Broker推送消息的时候会带上匹配的订阅标识符
+ */
+const SUBSCRIPTION_IDENTIFIER = {
+  /** 订阅`iot/v1/c/{clientId}/#` */
+  CLIENT: 1,
+};
+
+/**
+ * 重连策略，指数退避 + 随机抖动 + 最大重连次数
+ *
+ * @remarks
+ *
+ * 这里特意使用纯数据而不是函数，因为SharedWorkerTransport需要通过postMessage把重连策略传给SharedWorker，函数无法被structured clone
+ *
+ * @see {@link getReconnectDelay}
+ */
+type ReconnectPolicy = {
+  /** 第一次重连前的等待时间，毫秒 */
+  initialDelay: number;
+  /** 最长等待时间，毫秒 */
+  maxDelay: number;
+  /** 每次重连失败后，等待时间的放大倍数 */
+  multiplier: number;
+  /** 随机抖动比例，取值范围[0, 1]，0表示不抖动 */
+  jitter: number;
+  /** 最大重连次数，超过之后放弃重连，Infinity表示永不放弃 */
+  maxAttempts: number;
+};
+
+/**
+ * 重连计划，用于UI展示，例如："reconnecting in 12s"
+ */
+type ReconnectSchedule = {
+  /** 第几次重连，从1开始 */
+  attempts: number;
+  /** 下一次重连的时间戳 */
+  nextReconnectAt: number | null;
+};
+
+/**
+ * SharedWorker（或者BroadcastChannelTransport的Leader）与Browser Tab之间的心跳策略
+ *
+ * @remarks
+ *
+ * Browser Tab崩溃或者被浏览器丢弃（discard）的时候，不会发送BeforeBrowserTabUnload。
+ *   SharedWorker每隔interval向所有Browser Tab发送Ping，超过timeout没有回应Pong的Browser Tab会被移除，
+ *   它订阅的主题、关注的业务也会一并释放。
+ *
+ * 同样的，Browser Tab超过timeout没有收到Ping，会派发{@link TransportEvent.Evicted}
+ */
+type HeartbeatPolicy = {
+  /** 发送Ping的间隔，毫秒 */
+  interval: number;
+  /** 超时时间，毫秒，应该是interval的若干倍 */
+  timeout: number;
+};
+
+/**
+ * 业务引用的租约策略，参考BusinessReferenceManager
+ *
+ * @remarks
+ *
+ * 每一个Browser Tab持有的引用都是一份租约，每隔interval续约一次；
+ *   Browser Tab崩溃之后无法续约，超过ttl的租约不再计入引用数量，并且会被其他Browser Tab回收
+ */
+type ReferenceLeasePolicy = {
+  /** 续约（以及回收过期租约）的间隔，毫秒 */
+  interval: number;
+  /** 租约的有效期，毫秒，应该是interval的若干倍 */
+  ttl: number;
+};
+
+/**
+ * 离线发布队列满了之后的处理策略，参考{@link OutboundQueuePolicy}
+ */
+enum OutboundDropPolicy {
+  /** 丢弃队列中最早的消息，为新消息腾出位置 */
+  Oldest = "Oldest",
+  /** 丢弃新消息，publish返回undefined */
+  Newest = "Newest",
+  /** 拒绝新消息，publish抛出{@link MqttOutboundQueueFullError} */
+  Reject = "Reject",
+}
+
+/**
+ * 离线发布队列策略
+ *
+ * @remarks
+ *
+ * 连接断开（或者尚未建立）的时候，publish的消息会进入队列，重新连接之后按照顺序发布。
+ *   ClassicalTransport会把QoS大于等于1的消息通过ICache持久化，刷新页面之后仍然会发布
+ *
+ * 和{@link ReconnectPolicy}一样，这里特意使用纯数据
+ */
+type OutboundQueuePolicy = {
+  /** 队列的最大长度 */
+  maxSize: number;
+  /** 队列满了之后的处理策略 */
+  dropPolicy: OutboundDropPolicy;
+};
+
+/**
+ * {@link ITransport#publish}的发布配置
+ *
+ * @remarks
+ *
+ * 带有signal的消息（例如{@link MqttServiceWorker#send}发起的RPC请求）只在等待它的调用方存活期间有意义：
+ *   不会被持久化，signal中止（RPC超时、取消）之后，还在离线发布队列中的消息会被丢弃
+ */
+type TransportPublishOptions = IClientPublishOptions & {
+  signal?: AbortSignal;
+};
+
+/**
+ * MqttClient保存尚未完成的QoS 1/2 packet（incomingStore/outgoingStore）的方式
+ */
+enum MqttStoreKind {
+  /** 保存在内存中，MqttClient的默认行为 */
+  Memory = "Memory",
+  /** 保存在IndexedDB中，刷新Browser Tab、SharedWorker重启之后仍然可以恢复，IndexedDB不可用的时候退回到Memory */
+  IndexedDB = "IndexedDB",
+}
+
+/**
+ * Transport类型，对应SUPPORTED_TRANSPORT_BUILDER中具体的Transport
+ */
+enum TransportKind {
+  BroadcastChannel = "broadcastChannel",
+  Classical = "classical",
+  SharedWorker = "sharedWorker",
+}
+
+/**
+ * 当前浏览器支持的能力，参考detectTransportCapabilities
+ */
+type TransportCapabilities = {
+  /** 是否支持BroadcastChannel，以及选举Leader需要的Web Locks API或者localStorage */
+  broadcastChannel: boolean;
+  /** Worker构造函数是否支持`{ type: "module" }` */
+  moduleWorker: boolean;
+  sharedWorker: boolean;
+};
+
+/**
+ * 会随着token刷新而变化的连接参数，参考{@link ITransport#updateCredentials}
+ */
+type TransportCredentials = Pick<ClientOptions, "password" | "will">;
+
+/**
+ * 构造Transport需要的连接参数
+ */
+type TransportConnection = {
+  brokerUrl: string;
+  opts: ClientOptions;
+  reconnectPolicy?: Partial<ReconnectPolicy>;
+  /** 仅SharedWorkerTransport、BroadcastChannelTransport使用 */
+  heartbeat?: Partial<HeartbeatPolicy>;
+  outboundQueue?: Partial<OutboundQueuePolicy>;
+  store?: MqttStoreKind;
+  /** 用于持久化离线发布队列，仅ClassicalTransport使用，不提供的时候离线发布队列只保存在内存中 */
+  cache?: ICache;
 };
 
 /**
@@ -237,12 +694,31 @@ interface ITransport {
   readonly clientId: string;
   readonly connected: boolean;
   readonly isGuest: boolean;
+  /** 下一次重连的时间戳，没有安排重连的时候为null */
+  readonly nextReconnectAt: number | null;
+  /** 离线发布队列满了之后的处理策略，参考{@link OutboundQueuePolicy} */
+  readonly dropPolicy: OutboundDropPolicy;
+  /** Mqtt协议版本，参考{@link TransportBuilder#protocolVersion} */
+  readonly protocolVersion: MqttProtocolVersion;
+  /** 已经尝试过的重连次数，连接成功后清零 */
+  readonly reconnectAttempts: number;
   readonly reconnecting: boolean;
+  /** 离线发布队列中等待发布的消息数量 */
+  readonly queueDepth: number;
   readonly topics: string[];
   addEventListener: (
     event: MqttEvent | TransportEvent,
     callable: Callable
   ) => void;
+  /**
+   * 清空离线发布队列，包括持久化的消息，等待中的publish返回undefined
+   *
+   * @remarks
+   *
+   * end不会清空离线发布队列，挂起、重建Transport之后，离线期间排队的消息仍然需要发布；
+   *   只有用户登出（MqttService#quit、MqttService#forceQuit）的时候才需要清空
+   */
+  clearOutboundQueue: () => void;
   connect: () => void;
   dispose: () => void;
   dispatchEvent: (event: MqttEvent | TransportEvent, args: any[]) => void;
@@ -252,32 +728,71 @@ interface ITransport {
   /**
    * @remarks
    *
-   * 在我编写这一版本的Mqtt模块的时候，publish这个功能基本上没用，不确定后续是否会用上
+   * 连接断开（或者尚未建立）的时候，消息会进入离线发布队列，重新连接之后才会发布，返回的Promise也要等到那个时候才会完成；
+   *   调用{@link clearOutboundQueue}之后，队列中的消息会被丢弃
+   *
+   * 在我编写这一版本的Mqtt模块的时候，publish这个功能基本上没用，目前主要用于{@link MqttServiceWorker#send}发起RPC请求
    */
   publish: (
     topic: string,
     message: string,
-    opts?: IClientPublishOptions,
+    opts?: TransportPublishOptions,
     callback?: PacketCallback
-  ) => void;
+  ) => Promise<Packet | undefined>;
   reconnect: () => void;
   removeEventListener: (
     event: MqttEvent | TransportEvent,
     callable?: Callable
   ) => void;
+  /**
+   * 重放错过的、匹配主题过滤器的最后一条消息，重放的消息通过{@link MqttEvent.Message}派发
+   *
+   * @param topic 主题过滤器，支持通配符
+   * @returns 重放的消息数量
+   */
+  replay: (topic: string | string[]) => Promise<number>;
+  /**
+   * 上报某一个MqttServiceWorker关注的、需要通知API的业务（bid不为空）
+   *
+   * @param reporter MqttServiceWorker ID
+   * @param businesses 业务列表，同一个业务可以出现多次，每一次对应一个引用
+   * @param holder 业务引用租约的持有者，也就是当前Browser Tab的BusinessReferenceManager#tabId
+   *
+   * @remarks
+   *
+   * SharedWorker据此在Browser Tab失联之后，把业务转交给其他Browser Tab回收租约，参考{@link TransportEvent.OrphanedBusinesses}
+   */
+  reportBusinesses: (
+    reporter: string,
+    businesses: Business[],
+    holder: string
+  ) => void;
   subscribe: (
     topic: string | string[],
     options?: IClientSubscribeOptions
-  ) => void;
+  ) => Promise<ISubscriptionGrant[]>;
+  /**
+   * 把离线发布队列中的消息移交给另一个Transport，等待中的publish以另一个Transport发布的结果完成
+   *
+   * @param transport 接管消息的Transport，例如MqttService#recover重建的Transport
+   */
+  transferOutboundQueue: (transport: ITransport) => Promise<void>;
   unsubscribe: (
     topic: string | string[],
     opts?: Object,
     callback?: PacketCallback
-  ) => void;
+  ) => Promise<Packet | undefined>;
+  /**
+   * 更新连接凭证，不会断开当前连接，下一次重连的时候生效
+   *
+   * @param credentials 新的连接凭证
+   */
+  updateCredentials: (credentials: TransportCredentials) => void;
 }
 
 interface IMqttServiceWorker {
   readonly connected: boolean;
+  readonly connectionState: ConnectionStatus;
   readonly follows: Business[];
   readonly id: string;
   readonly isGuest: boolean;
@@ -294,19 +809,42 @@ interface IMqttServiceWorker {
   isWatching: (f: Business) => boolean;
   letApiKnowIAmInterested: (f: Business) => Promise<void>;
   letApiKnowIAmNotInterested: (f: Business) => Promise<void>;
+  messagesOf: <T = Record<string, any>>(
+    f: Business
+  ) => AsyncIterableIterator<MqttPayload<T>>;
+  onMessage: <T = Record<string, any>>(
+    f: Business,
+    handler: MqttMessageHandler<T>
+  ) => () => void;
+  /**
+   * 把Worker切换到另外一个Transport上，事件处理程序会一并迁移
+   */
+  rebind: (transport: ITransport) => void;
   removeEventListener: (
     event: MqttEvent | TransportEvent,
     callable?: Callable
   ) => void;
-  send: () => void;
+  /**
+   * 重新通知API，Worker仍然关注的所有业务
+   */
+  resync: () => Promise<void>;
+  send: <TRequest = Record<string, any>, TResponse = Record<string, any>>(
+    request: RpcRequest<TRequest>,
+    options?: RpcOptions
+  ) => Promise<MqttPayload<TResponse>>;
   unwatch: (f: Business) => Promise<void>;
-  watch: (f: Business) => Promise<void>;
+  watch: <T = Record<string, any>>(
+    f: Business,
+    handler?: MqttMessageHandler<T>
+  ) => Promise<() => void>;
 }
 
 interface IMqttService {
+  readonly connectionState: ConnectionStatus;
   readonly dummyWorker: any;
   readonly isGuest: boolean;
   readonly isReady: boolean;
+  readonly sharedTransport: ITransport;
   readonly state: MqttServiceState;
   readonly suspendWhenBrowserTabHidden: boolean;
   addEventListener: (
@@ -321,10 +859,12 @@ interface IMqttService {
   getClientOptions: (customized: {
     clientId: string;
     password: string;
-    token: string;
+    willPayload?: Record<string, unknown>;
   }) => ClientOptions;
   init: () => Promise<void>;
   forceQuit: () => Promise<void>;
+  recover: () => Promise<void>;
+  rebuild: (renewClientId?: boolean) => Promise<void>;
   resume: () => void;
   removeEventListener: (
     event: MqttEvent | TransportEvent,
@@ -335,6 +875,31 @@ interface IMqttService {
   suspend: () => void;
 }
 
+/**
+ * 生成遗言（last will）payload需要的上下文
+ */
+type WillPayloadContext = {
+  clientId: string;
+  /** Mqtt密码，同时也是客户端和服务端之间的共享密钥 */
+  password: string;
+  /** 访问API的token */
+  token: string;
+  env: IMSTDependence;
+};
+
+/**
+ * 生成遗言payload中，证明遗言确实来自当前客户端的字段，例如：{ ticket: "..." }
+ *
+ * @remarks
+ *
+ * 遗言以明文发布到广播主题，任何订阅了广播主题的客户端都能看到，因此不能包含长期有效的凭证（例如token）
+ *
+ * @see {@link WillPayloadProviders}
+ */
+type WillPayloadProvider = (
+  context: WillPayloadContext
+) => Promise<Record<string, unknown>>;
+
 type TransportBuilder = {
   /**
    * 浏览器页面处于hidden的情况下，也就是：
@@ -351,10 +916,39 @@ type TransportBuilder = {
    * - 如果使用的是SharedWorkerTransport，那么多个browser tab，连接的都是同一个SharedWorkerTransport，因此共享同一个client id
    */
   useSharedClientId: boolean;
+  /**
+   * 重连策略，默认值参考{@link DEFAULT_RECONNECT_POLICY}
+   */
+  reconnectPolicy?: Partial<ReconnectPolicy>;
+  /**
+   * 心跳策略，仅SharedWorkerTransport、BroadcastChannelTransport使用，
+   *   默认值分别参考{@link DEFAULT_HEARTBEAT_POLICY}、{@link DEFAULT_LEADER_HEARTBEAT_POLICY}
+   */
+  heartbeat?: Partial<HeartbeatPolicy>;
+  /**
+   * 离线发布队列策略，默认值参考{@link DEFAULT_OUTBOUND_QUEUE_POLICY}
+   */
+  outboundQueue?: Partial<OutboundQueuePolicy>;
+  /**
+   * MqttClient的incomingStore/outgoingStore，默认{@link MqttStoreKind.IndexedDB}
+   */
+  store?: MqttStoreKind;
+  /**
+   * 遗言payload，默认值参考{@link WillPayloadProviders.hmac}
+   */
+  willPayload?: WillPayloadProvider;
+  /**
+   * Mqtt协议版本，默认{@link MqttProtocolVersion.V311}
+   */
+  protocolVersion?: MqttProtocolVersion;
+  /**
+   * MQTT 5.0 配置，默认值参考{@link DEFAULT_MQTT5_OPTIONS}
+   */
+  mqtt5?: Partial<Mqtt5Options>;
   /**
    * 构造Transport
    */
-  build: (connection: { brokerUrl: string; opts: ClientOptions }) => ITransport;
+  build: (connection: TransportConnection) => ITransport;
   /**
    * 构建完Transport之后的回调函数
    */
@@ -368,34 +962,68 @@ const CK_MQTT_UUID = "mqttUuid";
 const CK_MQTT_HOST = "mqttHost";
 const CK_MQTT_HOST_PROTOCOL = "mqttHostProtocol";
 const CK_WATCHED_BUSINESS_PREFIX = "mqttWatchedBiz_";
+/** 所有被引用的业务的Follow ID，用于回收过期租约，缓存不支持遍历key */
+const CK_WATCHED_BUSINESS_INDEX = "mqttWatchedBizIndex";
+const CK_MQTT_OUTBOUND_QUEUE_PREFIX = "mqttOutbound_";
 
 export {
   CK_ACCESS_TOKEN,
   CK_MQTT_CLIENT_ID,
   CK_MQTT_HOST,
   CK_MQTT_HOST_PROTOCOL,
+  CK_MQTT_OUTBOUND_QUEUE_PREFIX,
   CK_MQTT_PASSWORD,
   CK_MQTT_UUID,
+  CK_WATCHED_BUSINESS_INDEX,
   CK_WATCHED_BUSINESS_PREFIX,
+  ConnectionState,
+  DEFAULT_MQTT5_OPTIONS,
   GUEST_CLIENT_ID,
   KnownMqttEvents,
+  KnownTransportEvents,
+  MessageRoutingFallback,
+  MqttConnackReturnCode,
+  MqttProtocolVersion,
+  MqttReasonCode,
+  MqttRecoveryStrategy,
+  MqttStoreKind,
   MqttSocketError,
   MqttEvent,
   MqttQoS,
   MqttPayload,
   MqttServiceState,
+  OutboundDropPolicy,
+  SUBSCRIPTION_IDENTIFIER,
   TOPIC,
   TOPIC_HEADER,
   TOPIC_VERSION,
   TransportEvent,
+  TransportKind,
   IMP_WEB_SUBJECT,
   IMP_WEB_SUBJECT_THAT_NEEDS_NO_BID,
 };
 export type {
   Callable,
   ClientOptions,
+  ConnectionStatus,
+  HeartbeatPolicy,
   ITransport,
+  MessageRoutingOptions,
+  Mqtt5Options,
+  MqttMessageHandler,
+  OutboundQueuePolicy,
+  ReconnectPolicy,
+  ReconnectSchedule,
+  ReferenceLeasePolicy,
+  RpcOptions,
+  RpcRequest,
   TransportBuilder,
+  TransportCapabilities,
+  TransportConnection,
+  TransportCredentials,
+  TransportPublishOptions,
+  WillPayloadContext,
+  WillPayloadProvider,
   IMqttService,
   IMqttServiceWorker,
 };
@@ -0,0 +1,149 @@
+import { isNil } from "lodash";
+
+/**
+ * localStorage互斥锁的最长持有时间，毫秒，持有锁的Browser Tab崩溃之后，其他Browser Tab最多等待这么久
+ */
+const MUTEX_LEASE_DURATION = 5000;
+
+/**
+ * 获取localStorage互斥锁的超时时间，毫秒，超时之后不再等待，参考{@link CrossTabMutex#runExclusive}
+ */
+const MUTEX_ACQUIRE_TIMEOUT = 3000;
+
+/**
+ * localStorage互斥锁被占用时的重试间隔，毫秒，实际间隔会叠加随机抖动，避免多个Browser Tab同时重试
+ */
+const MUTEX_RETRY_INTERVAL = 20;
+
+type MutexLease = {
+  owner: string;
+  expiresAt: number;
+};
+
+function delay(ms: number) {
+  return new Promise<void>((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * 同一个浏览器的多个Browser Tab之间的互斥锁
+ *
+ * @remarks
+ *
+ * 优先使用Web Locks API，Browser Tab关闭的时候，浏览器会自动释放锁。
+ *
+ * 不支持Web Locks API的浏览器，退回到localStorage租约（参考{@link LeaderElector}）：
+ *   localStorage没有原子的compare-and-set，写入租约之后等待{@link MUTEX_RETRY_INTERVAL}再读一次，确认没有被其他Browser Tab覆盖。
+ *   这只能把冲突的概率降到很低，不能完全避免，因此超过{@link MUTEX_ACQUIRE_TIMEOUT}仍然没有获取到锁的时候，不再等待，
+ *   由调用方通过onTimeout记录下来。
+ *
+ * 没有localStorage的环境（例如SharedWorker、单元测试）只有一个执行上下文，直接执行。
+ *
+ * @see [Web Locks API](https://developer.mozilla.org/en-US/docs/Web/API/Web_Locks_API)
+ *
+ * @example
+ *
+ * const mutex = CrossTabMutex.create("mqttWatchedBizMutex", tabId);
+ * const count = await mutex.runExclusive(async () => {
+ *   const ref = await cache.getItem<number>(key);
+ *   await cache.setItem(key, (ref || 0) + 1);
+ *   return (ref || 0) + 1;
+ * });
+ */
+class CrossTabMutex {
+  private __name: string;
+  private __owner: string;
+
+  static create(name: string, owner: string) {
+    return new CrossTabMutex(name, owner);
+  }
+
+  constructor(name: string, owner: string) {
+    this.__name = name;
+    this.__owner = owner;
+  }
+
+  get name() {
+    return this.__name;
+  }
+
+  /**
+   * 持有锁执行task，task结束（包括抛出异常）之后释放锁
+   *
+   * @param task
+   * @param onTimeout 获取localStorage互斥锁超时的时候调用，此时task在没有持有锁的情况下执行
+   * @returns task的结果
+   */
+  async runExclusive<T>(
+    task: () => Promise<T>,
+    onTimeout: (waited: number) => void = () => undefined
+  ): Promise<T> {
+    if (typeof navigator !== "undefined" && "locks" in navigator) {
+      return navigator.locks.request(this.__name, () => task());
+    }
+
+    if (typeof localStorage === "undefined") {
+      return task();
+    }
+
+    const startedAt = Date.now();
+    const acquired = await this.__acquire(startedAt + MUTEX_ACQUIRE_TIMEOUT);
+    if (!acquired) {
+      onTimeout(Date.now() - startedAt);
+    }
+
+    try {
+      return await task();
+    } finally {
+      if (acquired) {
+        this.__release();
+      }
+    }
+  }
+
+  private __readLease() {
+    try {
+      const text = localStorage.getItem(this.__name);
+      return isNil(text) ? null : (JSON.parse(text) as MutexLease);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private async __acquire(deadline: number) {
+    while (Date.now() < deadline) {
+      const lease = this.__readLease();
+      if (isNil(lease) || lease.expiresAt <= Date.now()) {
+        const next: MutexLease = {
+          owner: this.__owner,
+          expiresAt: Date.now() + MUTEX_LEASE_DURATION,
+        };
+        localStorage.setItem(this.__name, JSON.stringify(next));
+
+        /** 给同时写入的其他Browser Tab留出时间，最后写入的Browser Tab获得锁 */
+        await delay(MUTEX_RETRY_INTERVAL);
+        const confirmed = this.__readLease();
+        if (!isNil(confirmed) && confirmed.owner === this.__owner) {
+          return true;
+        }
+      }
+
+      await delay(MUTEX_RETRY_INTERVAL + Math.random() * MUTEX_RETRY_INTERVAL);
+    }
+    return false;
+  }
+
+  private __release() {
+    const lease = this.__readLease();
+    if (!isNil(lease) && lease.owner === this.__owner) {
+      localStorage.removeItem(this.__name);
+    }
+  }
+}
+
+export {
+  CrossTabMutex,
+  MUTEX_ACQUIRE_TIMEOUT,
+  MUTEX_LEASE_DURATION,
+  MUTEX_RETRY_INTERVAL,
+  delay,
+};
@@ -0,0 +1,353 @@
+import { includes, isNil, isNumber, isString, values } from "lodash";
+
+import {
+  MqttConnackReturnCode,
+  MqttReasonCode,
+  MqttSocketError,
+} from "./constants";
+
+/**
+ * {@link MqttRpcError}错误码
+ */
+enum MqttRpcErrorCode {
+  /** 等待响应超时 */
+  Timeout = "Timeout",
+  /** 调用方通过AbortSignal取消了请求 */
+  Aborted = "Aborted",
+  /** Worker已经退出，所有未完成的请求都会被取消 */
+  Disposed = "Disposed",
+  /** 游客（未登录）无法发起请求 */
+  Forbidden = "Forbidden",
+}
+
+/**
+ * 基于Mqtt的RPC调用失败
+ *
+ * @example
+ *
+ * try {
+ *   await worker.send({ service: "device", method: "reboot", payload: {} });
+ * } catch (error) {
+ *   if (error instanceof MqttRpcError && error.code === MqttRpcErrorCode.Timeout) {
+ *     // retry
+ *   }
+ * }
+ */
+class MqttRpcError extends Error {
+  readonly code: MqttRpcErrorCode;
+  readonly seq: string | null;
+
+  constructor(
+    code: MqttRpcErrorCode,
+    message: string,
+    seq: string | null = null
+  ) {
+    super(message);
+    // 编译目标是ES5的时候，继承内置的Error需要手动修正原型链
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = "MqttRpcError";
+    this.code = code;
+    this.seq = seq;
+  }
+}
+
+/**
+ * Transport自己定义的错误码，和Socket错误、CONNACK返回码一样，放在{@link MqttTransportError#code}
+ */
+enum MqttTransportErrorCode {
+  /** 当前Browser Tab的连接参数和SharedWorker中已有的连接不一致 */
+  IdentityMismatch = "IdentityMismatch",
+  /** SharedWorker中还没有可用的Mqtt Client，消息留在离线发布队列中，重新连接之后再发布 */
+  NotConnected = "NotConnected",
+  /** 离线发布队列已满，参考{@link OutboundDropPolicy.Reject} */
+  OutboundQueueFull = "OutboundQueueFull",
+  /** 等待SharedWorker或者Leader Browser Tab响应指令超时 */
+  RequestTimeout = "RequestTimeout",
+}
+
+/**
+ * {@link MqttTransportError}的可序列化形式
+ *
+ * @remarks
+ *
+ * Error对象无法完整地通过postMessage传递（自定义属性会丢失），SharedWorker只传递这些字段，Browser Tab再还原成MqttTransportError
+ */
+type SerializedMqttError = {
+  name: string;
+  message: string;
+  code?: number | string;
+  /** Socket错误（TCP/IP网络层），参考{@link MqttSocketError} */
+  socketError: MqttSocketError | null;
+  /** Broker拒绝连接时的CONNACK返回码，参考{@link MqttConnackReturnCode} */
+  connackReturnCode: MqttConnackReturnCode | null;
+  /** MQTT 5.0 Reason Code，参考{@link MqttReasonCode} */
+  reasonCode: MqttReasonCode | null;
+  /** MQTT 5.0 Broker在报文属性中携带的、便于排查问题的说明 */
+  reasonString: string | null;
+  /** CONNACK返回码或者Reason Code的含义，例如：NotAuthorized */
+  reason: string | null;
+};
+
+/**
+ * MQTT 5.0 Reason Code是否表示失败
+ *
+ * @param reasonCode
+ * @returns
+ */
+function isFailureReasonCode(reasonCode: unknown): reasonCode is number {
+  return isNumber(reasonCode) && reasonCode >= MqttReasonCode.UnspecifiedError;
+}
+
+/**
+ * Transport派发的Mqtt异常
+ *
+ * @remarks
+ *
+ * ClassicalTransport和SharedWorkerTransport派发{@link MqttEvent.Error}的时候，参数都是MqttTransportError，
+ *   MqttService的错误处理程序不需要关心错误来自哪一种Transport
+ *
+ * @example
+ *
+ * mqttService.addEventListener(MqttEvent.Error, {
+ *   thisArg: null,
+ *   func: (error: MqttTransportError) => {
+ *     if (error.connackReturnCode === MqttConnackReturnCode.NotAuthorized) {
+ *       // ...
+ *     }
+ *   },
+ * });
+ */
+class MqttTransportError extends Error {
+  readonly code: number | string | undefined;
+  readonly connackReturnCode: MqttConnackReturnCode | null;
+  readonly reason: string | null;
+  readonly reasonCode: MqttReasonCode | null;
+  readonly reasonString: string | null;
+  readonly socketError: MqttSocketError | null;
+
+  /**
+   * 把MqttClient派发的异常，或者执行指令时的异常，转换成MqttTransportError
+   *
+   * @param error
+   * @returns
+   */
+  static from(error: unknown) {
+    if (error instanceof MqttTransportError) {
+      return error;
+    }
+
+    const e = (isNil(error) ? {} : error) as {
+      code?: unknown;
+      message?: unknown;
+      name?: unknown;
+      stack?: unknown;
+    };
+    const code = isString(e.code) || isNumber(e.code) ? e.code : undefined;
+    const socketError =
+      isString(code) && includes(values(MqttSocketError), code)
+        ? (code as MqttSocketError)
+        : null;
+    const connackReturnCode =
+      isNumber(code) &&
+      code !== MqttConnackReturnCode.Accepted &&
+      !isNil(MqttConnackReturnCode[code])
+        ? (code as MqttConnackReturnCode)
+        : null;
+    const reasonCode =
+      isFailureReasonCode(code) && !isNil(MqttReasonCode[code])
+        ? (code as MqttReasonCode)
+        : null;
+
+    let reason: string | null = null;
+    if (!isNil(connackReturnCode)) {
+      reason = MqttConnackReturnCode[connackReturnCode];
+    } else if (!isNil(reasonCode)) {
+      reason = MqttReasonCode[reasonCode];
+    }
+
+    const transportError = new MqttTransportError({
+      name: isString(e.name) ? e.name : "Error",
+      message: isString(e.message) ? e.message : String(error),
+      code,
+      socketError,
+      connackReturnCode,
+      reasonCode,
+      reasonString: null,
+      reason,
+    });
+    if (isString(e.stack)) {
+      transportError.stack = e.stack;
+    }
+    return transportError;
+  }
+
+  /**
+   * 把Broker在DISCONNECT、SUBACK中返回的Reason Code转换成MqttTransportError
+   *
+   * @param reasonCode MQTT 5.0 Reason Code
+   * @param reasonString 报文属性中的reasonString
+   * @returns
+   */
+  static fromReasonCode(reasonCode: number, reasonString?: string | null) {
+    const reason = isNil(MqttReasonCode[reasonCode])
+      ? null
+      : MqttReasonCode[reasonCode];
+    const description = reason || `0x${reasonCode.toString(16)}`;
+
+    return new MqttTransportError({
+      name: "MqttReasonCodeError",
+      message: isNil(reasonString)
+        ? `Reason code: ${description}`
+        : `Reason code: ${description}, ${reasonString}`,
+      code: reasonCode,
+      socketError: null,
+      connackReturnCode: null,
+      reasonCode: isNil(reason) ? null : (reasonCode as MqttReasonCode),
+      reasonString: isNil(reasonString) ? null : reasonString,
+      reason,
+    });
+  }
+
+  constructor(sn: SerializedMqttError) {
+    super(sn.message);
+    // 编译目标是ES5的时候，继承内置的Error需要手动修正原型链
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.name = sn.name;
+    this.code = sn.code;
+    this.connackReturnCode = sn.connackReturnCode;
+    this.reason = sn.reason;
+    this.reasonCode = isNil(sn.reasonCode) ? null : sn.reasonCode;
+    this.reasonString = isNil(sn.reasonString) ? null : sn.reasonString;
+    this.socketError = sn.socketError;
+  }
+
+  toJSON(): SerializedMqttError {
+    return {
+      name: this.name,
+      message: this.message,
+      code: this.code,
+      socketError: this.socketError,
+      connackReturnCode: this.connackReturnCode,
+      reasonCode: this.reasonCode,
+      reasonString: this.reasonString,
+      reason: this.reason,
+    };
+  }
+}
+
+/**
+ * 当前Browser Tab的连接参数（brokerUrl、clientId、username）和SharedWorker中已有的连接不一致
+ *
+ * @remarks
+ *
+ * 例如：其他Browser Tab登录了另外一个用户，或者连接的是另外一个mqttHost。
+ *   SharedWorker不会让当前Browser Tab搭别人的连接，而是拒绝它，MqttService会放弃连接（参考{@link classifyMqttError}）
+ */
+class MqttIdentityMismatchError extends MqttTransportError {
+  /** 不一致的字段 */
+  readonly mismatches: string[];
+
+  constructor(mismatches: string[]) {
+    super({
+      name: "MqttIdentityMismatchError",
+      message: `Connection identity mismatch: ${mismatches.join(", ")}`,
+      code: MqttTransportErrorCode.IdentityMismatch,
+      socketError: null,
+      connackReturnCode: null,
+      reasonCode: null,
+      reasonString: null,
+      reason: null,
+    });
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.mismatches = mismatches;
+  }
+}
+
+/**
+ * 离线发布队列已满，并且策略是{@link OutboundDropPolicy.Reject}
+ */
+class MqttOutboundQueueFullError extends MqttTransportError {
+  /** 队列的最大长度 */
+  readonly maxSize: number;
+
+  constructor(maxSize: number) {
+    super({
+      name: "MqttOutboundQueueFullError",
+      message: `Outbound queue is full (max size: ${maxSize})`,
+      code: MqttTransportErrorCode.OutboundQueueFull,
+      socketError: null,
+      connackReturnCode: null,
+      reasonCode: null,
+      reasonString: null,
+      reason: null,
+    });
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.maxSize = maxSize;
+  }
+}
+
+/**
+ * SharedWorker中还没有可用的Mqtt Client（尚未创建，或者已经结束）
+ *
+ * @remarks
+ *
+ * {@link OutboundQueue#flush}遇到这个错误的时候，消息留在队列中，等到下一次连接成功之后再发布
+ */
+class MqttNotConnectedError extends MqttTransportError {
+  constructor() {
+    super({
+      name: "MqttNotConnectedError",
+      message: "Mqtt client is not connected",
+      code: MqttTransportErrorCode.NotConnected,
+      socketError: null,
+      connackReturnCode: null,
+      reasonCode: null,
+      reasonString: null,
+      reason: null,
+    });
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * 等待SharedWorker或者Leader Browser Tab响应指令超时
+ *
+ * @remarks
+ *
+ * 对方已经失联（例如SharedWorker崩溃、Leader Browser Tab被冻结）的时候，不会再有响应，超时之后调用方不再等待
+ */
+class MqttRequestTimeoutError extends MqttTransportError {
+  /** 指令类型 */
+  readonly action: string;
+  /** 超时时间，毫秒 */
+  readonly timeout: number;
+
+  constructor(action: string, timeout: number) {
+    super({
+      name: "MqttRequestTimeoutError",
+      message: `Request ${action} timeout after ${timeout}ms`,
+      code: MqttTransportErrorCode.RequestTimeout,
+      socketError: null,
+      connackReturnCode: null,
+      reasonCode: null,
+      reasonString: null,
+      reason: null,
+    });
+    Object.setPrototypeOf(this, new.target.prototype);
+    this.action = action;
+    this.timeout = timeout;
+  }
+}
+
+export {
+  MqttIdentityMismatchError,
+  MqttNotConnectedError,
+  MqttOutboundQueueFullError,
+  MqttRequestTimeoutError,
+  MqttRpcError,
+  MqttRpcErrorCode,
+  MqttTransportError,
+  MqttTransportErrorCode,
+  isFailureReasonCode,
+};
+export type { SerializedMqttError };
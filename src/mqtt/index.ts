@@ -1,6 +1,17 @@
+export * from "./auto_transport";
 export * from "./business";
 export * from "./compatible";
+export * from "./connection_state";
 export * from "./constants";
+export * from "./cross_tab_mutex";
+export * from "./errors";
+export * from "./leader_election";
 export * from "./mqtt_service";
 export * from "./mqtt_service_worker";
+export * from "./mqtt_store";
+export * from "./outbound_queue";
+export * from "./reconnect_policy";
+export * from "./router";
+export * from "./rpc";
 export * from "./transport";
+export * from "./will_payload";
@@ -0,0 +1,114 @@
+import { filter, map, some } from "lodash";
+import type { Packet } from "mqtt";
+
+import { matchTopic } from "./subscription_registry";
+
+/**
+ * 默认最多缓存200个主题的最后一条消息
+ */
+const DEFAULT_LAST_MESSAGE_CACHE_CAPACITY = 200;
+
+type LastMessage<P extends object> = {
+  topic: string;
+  payload: Uint8Array;
+  packet: Packet;
+  receivedAt: number;
+  /** 已经收到这条消息的订阅者 */
+  recipients: WeakSet<P>;
+};
+
+/**
+ * 按主题缓存最后一条Mqtt消息
+ *
+ * @remarks
+ *
+ * 类似于Mqtt的retained message，只不过缓存发生在客户端（SharedWorker）。
+ *   后加入的Browser Tab订阅完成之后，可以向SharedWorker请求重放它错过的消息，
+ *   否则它的UI组件要等到Broker下一次推送才有数据。
+ *
+ * 缓存是有界的，超过容量之后，最久没有更新的主题会被淘汰。
+ *
+ * @example
+ *
+ * const cache = LastMessageCache.create<MessagePort>();
+ * cache.set(topic, payload, packet, [portA]);
+ * const missed = cache.missedBy(portB, ["iot/v1/c/123/#"]); // portB错过的消息
+ */
+class LastMessageCache<P extends object = MessagePort> {
+  private __capacity: number;
+  private __messages = new Map</** Topic */ string, LastMessage<P>>();
+
+  static create<P extends object = MessagePort>(
+    capacity = DEFAULT_LAST_MESSAGE_CACHE_CAPACITY
+  ) {
+    return new LastMessageCache<P>(capacity);
+  }
+
+  constructor(capacity = DEFAULT_LAST_MESSAGE_CACHE_CAPACITY) {
+    this.__capacity = Math.max(capacity, 0);
+  }
+
+  get size() {
+    return this.__messages.size;
+  }
+
+  clear() {
+    this.__messages.clear();
+  }
+
+  /**
+   * 筛选出订阅者错过的消息，并且把订阅者标记为已经收到，同一条消息不会重放两次
+   *
+   * @param subscriber 订阅者
+   * @param filters 订阅者的主题过滤器，支持通配符
+   * @returns 按照接收时间排序的消息
+   */
+  missedBy(subscriber: P, filters: string[]) {
+    const missed = filter(
+      Array.from(this.__messages.values()),
+      (m) =>
+        !m.recipients.has(subscriber) &&
+        some(filters, (f) => matchTopic(f, m.topic))
+    ).sort((a, b) => a.receivedAt - b.receivedAt);
+
+    return map(missed, (m) => {
+      m.recipients.add(subscriber);
+      return {
+        topic: m.topic,
+        payload: m.payload,
+        packet: m.packet,
+      };
+    });
+  }
+
+  /**
+   * 记录某个主题的最后一条消息
+   *
+   * @param topic Mqtt主题
+   * @param payload 消息内容
+   * @param packet Mqtt packet
+   * @param recipients 已经收到这条消息的订阅者
+   */
+  set(topic: string, payload: Uint8Array, packet: Packet, recipients: P[]) {
+    if (this.__capacity === 0) {
+      return;
+    }
+
+    /** 先删除再写入，保证Map的迭代顺序就是更新顺序 */
+    this.__messages.delete(topic);
+    this.__messages.set(topic, {
+      topic,
+      payload,
+      packet,
+      receivedAt: Date.now(),
+      recipients: new WeakSet<P>(recipients),
+    });
+
+    while (this.__messages.size > this.__capacity) {
+      const oldest = this.__messages.keys().next();
+      this.__messages.delete(oldest.value as string);
+    }
+  }
+}
+
+export { DEFAULT_LAST_MESSAGE_CACHE_CAPACITY, LastMessageCache };
@@ -0,0 +1,177 @@
+import { isNil } from "lodash";
+
+import { MUTEX_RETRY_INTERVAL, delay } from "./cross_tab_mutex";
+
+/**
+ * localStorage租约的默认时长，毫秒，Leader每隔{@link LEADER_LEASE_RENEW_INTERVAL}续约一次
+ */
+const LEADER_LEASE_DURATION = 5000;
+
+/**
+ * localStorage租约的续约（以及Follower竞选）间隔，毫秒
+ */
+const LEADER_LEASE_RENEW_INTERVAL = 2000;
+
+type LeaderLease = {
+  owner: string;
+  expiresAt: number;
+};
+
+/**
+ * 在同一个浏览器的多个Browser Tab之间选举一个Leader
+ *
+ * @remarks
+ *
+ * 优先使用Web Locks API：Leader持有一把排他锁，直到主动放弃或者Browser Tab关闭，浏览器会自动释放锁，
+ *   排队的下一个Browser Tab随即成为Leader。
+ *
+ * 不支持Web Locks API的浏览器（例如部分Android WebView），退回到localStorage租约：
+ *   Leader定期续约，租约过期之后，其他Browser Tab可以抢占。
+ *   Browser Tab崩溃的时候没有机会释放租约，因此故障转移最长需要{@link LEADER_LEASE_DURATION}。
+ *   和{@link CrossTabMutex}一样，写入租约之后等待{@link MUTEX_RETRY_INTERVAL}再确认，最后写入的Browser Tab成为Leader。
+ *
+ * @see [Web Locks API](https://developer.mozilla.org/en-US/docs/Web/API/Web_Locks_API)
+ *
+ * @example
+ *
+ * const elector = LeaderElector.create(`mqtt_leader_${clientId}`, tabId);
+ * elector.elect(() => {
+ *   // 当前Browser Tab成为Leader
+ * });
+ * // Browser Tab关闭之前
+ * elector.resign();
+ */
+class LeaderElector {
+  private __candidate: string;
+  private __isLeader = false;
+  private __leaseTimer: ReturnType<typeof setInterval> | null = null;
+  private __name: string;
+  private __releaseLock: (() => void) | null = null;
+  private __resigned = false;
+
+  static create(name: string, candidate: string) {
+    return new LeaderElector(name, candidate);
+  }
+
+  constructor(name: string, candidate: string) {
+    this.__name = name;
+    this.__candidate = candidate;
+  }
+
+  get isLeader() {
+    return this.__isLeader;
+  }
+
+  /**
+   * 参加选举
+   *
+   * @param onElected 成为Leader的时候调用
+   * @param onDeposed 失去Leader身份的时候调用，只会发生在localStorage租约的情况下：
+   *   Browser Tab在后台的时候定时器会被节流，租约可能来不及续约就被其他Browser Tab抢占
+   */
+  elect(onElected: () => void, onDeposed: () => void = () => undefined) {
+    this.__resigned = false;
+
+    const elected = () => {
+      if (this.__resigned || this.__isLeader) {
+        return;
+      }
+      this.__isLeader = true;
+      onElected();
+    };
+
+    if (typeof navigator !== "undefined" && "locks" in navigator) {
+      navigator.locks.request(
+        this.__name,
+        () =>
+          new Promise<void>((resolve) => {
+            if (this.__resigned) {
+              return resolve();
+            }
+            this.__releaseLock = resolve;
+            elected();
+          })
+      );
+      return;
+    }
+
+    const campaign = async () => {
+      if (await this.__tryAcquireLease()) {
+        elected();
+        return;
+      }
+
+      if (this.__isLeader) {
+        this.__isLeader = false;
+        onDeposed();
+      }
+    };
+    campaign();
+    this.__leaseTimer = setInterval(campaign, LEADER_LEASE_RENEW_INTERVAL);
+  }
+
+  /**
+   * 退出选举，如果当前Browser Tab是Leader，释放锁（或者租约）
+   */
+  resign() {
+    this.__resigned = true;
+    this.__isLeader = false;
+
+    if (!isNil(this.__releaseLock)) {
+      this.__releaseLock();
+      this.__releaseLock = null;
+    }
+
+    if (!isNil(this.__leaseTimer)) {
+      clearInterval(this.__leaseTimer);
+      this.__leaseTimer = null;
+
+      const lease = this.__readLease();
+      if (!isNil(lease) && lease.owner === this.__candidate) {
+        localStorage.removeItem(this.__name);
+      }
+    }
+  }
+
+  private __readLease() {
+    try {
+      const text = localStorage.getItem(this.__name);
+      return isNil(text) ? null : (JSON.parse(text) as LeaderLease);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * 租约不存在、已经过期，或者属于自己的时候，获取（续约）租约
+   *
+   * @returns 当前Browser Tab是否持有租约
+   */
+  private async __tryAcquireLease() {
+    const now = Date.now();
+    const lease = this.__readLease();
+    if (
+      !isNil(lease) &&
+      lease.owner !== this.__candidate &&
+      lease.expiresAt > now
+    ) {
+      return false;
+    }
+
+    const next: LeaderLease = {
+      owner: this.__candidate,
+      expiresAt: now + LEADER_LEASE_DURATION,
+    };
+    localStorage.setItem(this.__name, JSON.stringify(next));
+
+    /**
+     * localStorage没有原子的compare-and-set，同一个事件循环里读到的总是自己的写入，
+     *   因此给同时写入的其他Browser Tab留出时间，再读一次，确认没有被覆盖
+     */
+    await delay(MUTEX_RETRY_INTERVAL);
+    const confirmed = this.__readLease();
+    return !isNil(confirmed) && confirmed.owner === this.__candidate;
+  }
+}
+
+export { LEADER_LEASE_DURATION, LEADER_LEASE_RENEW_INTERVAL, LeaderElector };
@@ -1,16 +1,21 @@
-import { each, isNil } from "lodash";
+import { each, isArray, isFunction, isNil, map, merge, some } from "lodash";
+import type { ISubscriptionGrant } from "mqtt";
 
 import type { IMSTDependence } from "@platform/core/infra";
 import { DRAFT_ID, PREFIX_HASH } from "@platform/core/infra";
 
+import { AutoTransportBuilder } from "./auto_transport";
+import { Business } from "./business";
+import { ConnectionStateMachine } from "./connection_state";
 import type {
   Callable,
   ClientOptions,
+  ConnectionStatus,
   IMqttService,
   IMqttServiceWorker,
   ITransport,
+  MessageRoutingOptions,
   TransportBuilder,
-  TransportEvent,
 } from "./constants";
 import {
   CK_ACCESS_TOKEN,
@@ -19,64 +24,98 @@ import {
   CK_MQTT_HOST_PROTOCOL,
   CK_MQTT_PASSWORD,
   CK_MQTT_UUID,
+  ConnectionState,
+  DEFAULT_MQTT5_OPTIONS,
   GUEST_CLIENT_ID,
   KnownMqttEvents,
+  KnownTransportEvents,
   MqttEvent,
+  MqttProtocolVersion,
   MqttQoS,
+  MqttRecoveryStrategy,
   MqttServiceState,
+  SUBSCRIPTION_IDENTIFIER,
   TOPIC,
+  TransportEvent,
 } from "./constants";
+import { MqttTransportError, isFailureReasonCode } from "./errors";
 import {
   DRAFT_MQTT_SERVICE_WORKER_ID,
   MqttServiceWorker,
   uniqueWorkerId,
 } from "./mqtt_service_worker";
+import { MAX_REBOOTSTRAP_ATTEMPTS, classifyMqttError } from "./recovery";
 import { BusinessReferenceManager } from "./reference_manager";
-import { ClassicalTransport, SharedWorkerTransport } from "./transport";
+import { MessageRouter } from "./router";
+import type { WorkerBusiness } from "./shared_worker_constants";
+import {
+  BroadcastChannelTransport,
+  ClassicalTransport,
+  SharedWorkerTransport,
+} from "./transport";
 import { formatDate, getSeq } from "./utils";
+import { WillPayloadProviders } from "./will_payload";
+
+/**
+ * 各个TransportBuilder共用的postBuild
+ *
+ * @param service
+ * @remarks
+ * 当用户关闭Browser Tab，要清理BusinessReferenceManager对应的引用计数。
+ * 此举是为了避免因为引用技术错误，导致某一项Business引用数量为 0 的情况下，没有及时通知服务端不再推送相关消息。
+ */
+function quitBeforeBrowserTabUnload(service: IMqttService) {
+  async function __handleBeforeWindowUnload() {
+    await service.quit();
+  }
+  window.addEventListener("beforeunload", __handleBeforeWindowUnload);
+}
 
 /**
  * imp-web目前支持的transport builder
+ *
+ * @remarks
+ *
+ * 不确定浏览器支持哪一种Transport的时候，使用auto，参考{@link AutoTransportBuilder}
  */
 const SUPPORTED_TRANSPORT_BUILDER: Record<
-  "classical" | "sharedWorker",
+  "auto" | "broadcastChannel" | "classical" | "sharedWorker",
   TransportBuilder
 > = {
   classical: {
     suspendWhenBrowserTabHidden: true,
     useSharedClientId: false,
     build: (conn) => ClassicalTransport.create(conn),
-    /**
-     * @param service
-     * @param transport
-     * @remarks
-     * 当用户关闭Browser Tab，要清理BusinessReferenceManager对应的引用计数。
-     * 此举是为了避免因为引用技术错误，导致某一项Business引用数量为 0 的情况下，没有及时通知服务端不再推送相关消息。
-     */
-    postBuild: (service) => {
-      async function __handleBeforeWindowUnload() {
-        await service.quit();
-      }
-      window.addEventListener("beforeunload", __handleBeforeWindowUnload);
-    },
+    postBuild: quitBeforeBrowserTabUnload,
   },
   sharedWorker: {
     suspendWhenBrowserTabHidden: false,
     useSharedClientId: true,
     build: (conn) => SharedWorkerTransport.create(conn),
-    /**
-     * @param service
-     * @param transport
-     * @remarks
-     * 当用户关闭Browser Tab，要清理BusinessReferenceManager对应的引用计数。
-     * 此举是为了避免因为引用技术错误，导致某一项Business引用数量为 0 的情况下，没有及时通知服务端不再推送相关消息。
-     */
-    postBuild: (service) => {
-      async function __handleBeforeWindowUnload() {
-        await service.quit();
-      }
-      window.addEventListener("beforeunload", __handleBeforeWindowUnload);
-    },
+    postBuild: quitBeforeBrowserTabUnload,
+  },
+  /**
+   * 不支持SharedWorker的浏览器（部分嵌入式浏览器、Android WebView），由Leader Browser Tab持有唯一的Mqtt连接，
+   *   参考{@link BroadcastChannelTransport}
+   */
+  broadcastChannel: {
+    suspendWhenBrowserTabHidden: false,
+    useSharedClientId: true,
+    build: (conn) => BroadcastChannelTransport.create(conn),
+    postBuild: quitBeforeBrowserTabUnload,
+  },
+  /**
+   * 根据浏览器支持的能力，在上面几种Transport中自动选择，并且在SharedWorker无法启动的时候退回到classical
+   *
+   * @remarks
+   *
+   * AutoTransportBuilder记录了选定的Transport类型和正在等待响应的Transport，属于使用它的MqttService，
+   *   因此每次访问都创建新的实例，一个MqttService退回到classical不会影响其他MqttService
+   */
+  get auto() {
+    return AutoTransportBuilder.create(
+      (kind) => SUPPORTED_TRANSPORT_BUILDER[kind]
+    );
   },
 };
 
@@ -253,6 +292,10 @@ function getWindowPathPrefix(isTrimLine = false) {
  *   - TransportBuilder#postBuild
  *   - SharedWorkerTransport#__handleBeforeWindowUnload
  *
+ * 5. 会话失效（断开过长时间，API关闭了clientId对应的topic），Broker拒绝连接或者拒绝订阅，调用MqttService#recover
+ *   - MqttEvent.Error，参考classifyMqttError
+ *   - MqttEvent.Connect，订阅`#`的时候SUBACK返回128
+ *
  * @remarks
  *
  * 这里有一个值得注意的地方，就是并发问题。
@@ -291,10 +334,25 @@ class MqttService implements IMqttService {
   private __id = DRAFT_ID;
   private __transportBuilder = SUPPORTED_TRANSPORT_BUILDER.classical;
   private __businessReferenceManager: BusinessReferenceManager;
+  private __messageRouter: MessageRouter;
+  /** 连续重建Transport的次数，连接成功后清零 */
+  private __rebootstrapAttempts = 0;
+  /** 重建Transport之后，是否需要重新通知API关注的业务 */
+  private __needsResync = false;
+  /** 是否正在重建Transport */
+  private __isRebootstrapping = false;
+  /** 重建Transport期间调用了suspend，重建完成之后再挂起 */
+  private __isSuspendPending = false;
+  private __connectionState: ConnectionStateMachine;
+  /** 取消监听连接凭证的变化，参考{@link __observeCredentials} */
+  private __unobserveCredentials = () => {
+    return;
+  };
 
   static create(
     sn: {
       id?: string;
+      routing?: Partial<MessageRoutingOptions>;
       transportBuilder?: TransportBuilder;
     },
     env: IMSTDependence
@@ -305,6 +363,10 @@ class MqttService implements IMqttService {
   constructor(
     sn: {
       id?: string;
+      /**
+       * 消息路由配置，参考{@link MessageRouter}
+       */
+      routing?: Partial<MessageRoutingOptions>;
       transportBuilder?: TransportBuilder;
     },
     env: IMSTDependence
@@ -314,10 +376,46 @@ class MqttService implements IMqttService {
 
     this.__env = env;
     this.__id = id;
-    this.__businessReferenceManager = new BusinessReferenceManager({}, env);
+    this.__businessReferenceManager = new BusinessReferenceManager(
+      {
+        onReclaim: (businesses) => {
+          this.__releaseReclaimedBusinesses(businesses);
+        },
+        onRestore: (businesses) => {
+          this.__restoreBusinesses(businesses);
+        },
+        /** 在跨Browser Tab的互斥锁中调用，监听函数抛出的异常不能影响collect/release */
+        onChange: (followId, reference, prev) => {
+          (
+            this.__extraListeners.get(TransportEvent.BusinessReferenceChange) ||
+            new Set()
+          ).forEach((c) => {
+            try {
+              c.func.apply(c.thisArg, [followId, reference, prev]);
+            } catch (error) {
+              console.error(
+                `${new Date().toLocaleString("zh-CN", {
+                  hour12: false,
+                })} MqttService: TransportEvent.BusinessReferenceChange listener error\n  ${error}`
+              );
+            }
+          });
+        },
+      },
+      env
+    );
+    this.__messageRouter = MessageRouter.create(sn.routing);
     if (!isNil(transportBuilder)) {
       this.__transportBuilder = transportBuilder;
     }
+    this.__connectionState = ConnectionStateMachine.create((next, prev) => {
+      (
+        this.__extraListeners.get(TransportEvent.ConnectionStateChange) ||
+        new Set()
+      ).forEach((c) => {
+        c.func.apply(c.thisArg, [next, prev]);
+      });
+    });
 
     this.__builtInListeners.set(
       MqttEvent.Connect,
@@ -332,6 +430,7 @@ class MqttService implements IMqttService {
              * @see [Understanding MQTT Topics & Wildcards by Case](https://www.emqx.com/en/blog/advanced-features-of-mqtt-topics)
              */
             const subscribeAllMqttTopics4ThisClientId = async () => {
+              let isRejected = false;
               try {
                 if (this.isGuest) {
                   return;
@@ -356,7 +455,48 @@ class MqttService implements IMqttService {
                  *   so it publishes to only one topic device-id/stream1,
                  *   and the subscriber just subscribes to this one topic.
                  */
-                await transport.subscribe(transport.getTopic("#"));
+                const granted = await transport.subscribe(
+                  transport.getTopic("#"),
+                  transport.protocolVersion === MqttProtocolVersion.V5
+                    ? {
+                        qos: MqttQoS.AtLeastOnce,
+                        properties: {
+                          subscriptionIdentifier:
+                            SUBSCRIPTION_IDENTIFIER.CLIENT,
+                        },
+                      }
+                    : undefined
+                );
+
+                /**
+                 * API关闭了clientId对应的topic之后，Broker仍然可能接受连接，但是会拒绝订阅
+                 *   （SUBACK返回128，MQTT 5.0返回的是大于等于0x80的Reason Code）
+                 */
+                isRejected =
+                  isArray(granted) &&
+                  some(granted, (g: ISubscriptionGrant) =>
+                    isFailureReasonCode(g.qos)
+                  );
+                if (isRejected) {
+                  return;
+                }
+
+                this.__rebootstrapAttempts = 0;
+
+                if (this.__needsResync) {
+                  this.__needsResync = false;
+                  await Promise.all(
+                    Array.from(this.__workers.values())
+                      .filter((w) => w.transport === transport)
+                      .map((w) => w.resync())
+                  );
+                }
+
+                /**
+                 * 其他Browser Tab已经建立了连接的情况下，SharedWorker缓存了每个主题的最后一条消息，
+                 *   重放之后，UI组件不需要等到Broker下一次推送才有数据
+                 */
+                await transport.replay(transport.getTopic("#"));
               } catch (error) {
                 console.error(
                   `${new Date().toLocaleString("zh-CN", {
@@ -364,7 +504,21 @@ class MqttService implements IMqttService {
                   })} MqttService: boot error\n  ${error}`
                 );
               } finally {
-                this.__state = MqttServiceState.Running;
+                /**
+                 * 等待重新订阅、重放期间调用了quit/suspend，不能覆盖它们设置的状态；
+                 *   重建Transport期间，旧的Transport重连成功，也不能提前结束Recovering
+                 */
+                if (
+                  this.__state === MqttServiceState.Initializing ||
+                  (this.__state === MqttServiceState.Recovering &&
+                    !this.__isRebootstrapping)
+                ) {
+                  this.__state = MqttServiceState.Running;
+                }
+              }
+
+              if (isRejected) {
+                await this.recover();
               }
             };
 
@@ -415,46 +569,193 @@ class MqttService implements IMqttService {
       ])
     );
 
-    // TODO 此处不仅仅包含了Socket（TCP/IP网络层的那个Socket）的错误，也有Mqtt packet解析错误等异常
-    // TODO 接下来我们需要做的是，处理各种情况下的error，保持mqtt连接能正常工作
-    // TODO 断开过长时间，API会把mqtt topic关闭，这时候需要重新fetchClientId，重新subscribe
-    // this.__builtInListeners.set(
-    //   MqttEvent.Error,
-    //   new Set([
-    //     {
-    //       thisArg: this,
-    //       func: (...args) => {
-    //         const [error] = args;
-
-    //         const routines = {
-    //           [MqttError.ECONNREFUSED]: (e: any) => {
-    //             console.error('MqttService error', e);
-    //           },
-    //           [MqttError.EADDRINUSE]: (e: any) => {
-    //             console.error('MqttService error', e);
-    //           },
-    //           [MqttError.ECONNRESET]: (e: any) => {
-    //             console.error('MqttService error', e);
-    //           },
-    //           [MqttError.ENOTFOUND]: (e: any) => {
-    //             console.error('MqttService error', e);
-    //           },
-    //           [MqttError.ETIMEDOUT]: (e: any) => {
-    //             console.error('MqttService error', e);
-    //           },
-    //         };
-    //         // error.code可能是null 或者 undefined
-    //         const routine = routines[error.code];
-    //         if (!isFunction(routine)) {
-    //           console.error('MqttService error', error);
-    //           return;
-    //         }
-
-    //         routine(error);
-    //       },
-    //     },
-    //   ]),
-    // );
+    /**
+     * 其他Browser Tab失联（崩溃、被浏览器丢弃），来不及释放业务引用，由当前Browser Tab回收它的租约
+     *
+     * @remarks
+     *
+     * 不能直接调用release，release只会释放当前Browser Tab的租约；
+     *   失联的Browser Tab的租约还没有过期，sweep不会回收，这里按照上报的租约持有者立即回收
+     */
+    this.__builtInListeners.set(
+      TransportEvent.OrphanedBusinesses,
+      new Set([
+        {
+          thisArg: this,
+          func: async (businesses: WorkerBusiness[], holder: string) => {
+            try {
+              const reclaimed = await this.__businessReferenceManager.reclaim(
+                holder,
+                map(businesses, (b) => Business.create(b))
+              );
+              await this.__releaseReclaimedBusinesses(reclaimed);
+            } catch (error) {
+              console.error(
+                `${new Date().toLocaleString("zh-CN", {
+                  hour12: false,
+                })} MqttService: failed to reclaim orphaned businesses\n  ${error}`
+              );
+            }
+          },
+        },
+      ])
+    );
+
+    /**
+     * 太久没有收到SharedWorker的心跳，说明当前Browser Tab已经被SharedWorker移除（例如页面被浏览器冻结过），或者SharedWorker已经崩溃
+     *
+     * 被移除的时候，其他Browser Tab可能已经回收了当前Browser Tab的租约，因此需要续约（重新登记被回收的引用、重新通知API），然后重建Transport。
+     *   续约只会恢复当前Browser Tab自己的租约，不会重复登记引用
+     */
+    this.__builtInListeners.set(
+      TransportEvent.Evicted,
+      new Set([
+        {
+          thisArg: this,
+          func: async () => {
+            if (this.__state !== MqttServiceState.Running) {
+              return;
+            }
+
+            try {
+              await this.__restoreBusinesses(
+                await this.__businessReferenceManager.renew()
+              );
+              await this.__recover(false);
+            } catch (error) {
+              console.error(
+                `${new Date().toLocaleString("zh-CN", {
+                  hour12: false,
+                })} MqttService: TransportEvent.Evicted error\n  ${error}`
+              );
+            }
+          },
+        },
+      ])
+    );
+
+    /**
+     * 此处不仅仅包含了Socket（TCP/IP网络层的那个Socket）的错误，也有Broker拒绝连接、Mqtt packet解析错误等异常
+     *
+     * @see {@link classifyMqttError}
+     */
+    this.__builtInListeners.set(
+      MqttEvent.Error,
+      new Set([
+        {
+          thisArg: this,
+          func: (...args) => {
+            /**
+             * Transport派发的都是{@link MqttTransportError}，这里再转换一次，是为了兼容自定义的Transport
+             */
+            const error = MqttTransportError.from(args[0]);
+            const strategy = classifyMqttError(error);
+
+            console.error(
+              `${new Date().toLocaleString("zh-CN", {
+                hour12: false,
+              })} MqttService: MqttEvent.Error, strategy: ${strategy}, reason: ${
+                error.reason || error.socketError
+              }\n  ${error}`
+            );
+
+            if (strategy === MqttRecoveryStrategy.Rebootstrap) {
+              this.recover();
+              return;
+            }
+
+            if (strategy === MqttRecoveryStrategy.Abort) {
+              this.__connectionState.transition(ConnectionState.Failed);
+              this.__sharedTransport.end(true);
+            }
+          },
+        },
+      ])
+    );
+
+    /**
+     * MQTT 5.0 Broker主动断开连接的时候，会在DISCONNECT中说明原因，处理方式和{@link MqttEvent.Error}一致。
+     *
+     * 被拒绝的订阅（suback）由订阅`iot/v1/c/{clientId}/#`的地方处理，这里只记录日志
+     */
+    this.__builtInListeners.set(
+      TransportEvent.ReasonCode,
+      new Set([
+        {
+          thisArg: this,
+          func: (...args) => {
+            const [error, cmd, topic] = args as [
+              MqttTransportError,
+              string,
+              string | undefined
+            ];
+            const strategy = classifyMqttError(error);
+
+            console.error(
+              `${new Date().toLocaleString("zh-CN", {
+                hour12: false,
+              })} MqttService: TransportEvent.ReasonCode, ${cmd}, strategy: ${strategy}, reason: ${
+                error.reason
+              }${isNil(topic) ? "" : `, topic: ${topic}`}\n  ${error}`
+            );
+
+            if (cmd !== "disconnect") {
+              return;
+            }
+
+            if (strategy === MqttRecoveryStrategy.Rebootstrap) {
+              this.recover();
+              return;
+            }
+
+            if (strategy === MqttRecoveryStrategy.Abort) {
+              this.__connectionState.transition(ConnectionState.Failed);
+              this.__sharedTransport.end(true);
+            }
+          },
+        },
+      ])
+    );
+  }
+
+  /**
+   * 共享Transport的连接状态
+   *
+   * @remarks
+   *
+   * 状态变化的时候派发{@link TransportEvent.ConnectionStateChange}，可以通过{@link addEventListener}监听
+   *
+   * @example
+   *
+   * mqttService.addEventListener(TransportEvent.ConnectionStateChange, {
+   *   thisArg: null,
+   *   func: (next: ConnectionStatus, prev: ConnectionStatus) => {
+   *     console.log(`${prev.state} -> ${next.state}`);
+   *   },
+   * });
+   */
+  get connectionState(): ConnectionStatus {
+    return this.__connectionState.status;
+  }
+
+  /**
+   * 所有Browser Tab引用的业务，以及它们的引用数量，用于诊断
+   *
+   * @remarks
+   *
+   * 引用数量变化的时候派发{@link TransportEvent.BusinessReferenceChange}，可以通过{@link addEventListener}监听
+   *
+   * @example
+   *
+   * mqttService.addEventListener(TransportEvent.BusinessReferenceChange, {
+   *   thisArg: null,
+   *   func: (followId: string, reference: number, prev: number) => {
+   *     console.log(`${followId}: ${prev} -> ${reference}`);
+   *   },
+   * });
+   */
+  get businessReferences() {
+    return this.__businessReferenceManager.getReferences();
   }
 
   get dummyWorker() {
@@ -462,6 +763,7 @@ class MqttService implements IMqttService {
       {
         ...dummyWorker,
         referenceManager: this.__businessReferenceManager,
+        router: this.__messageRouter,
       },
       this.__env
     );
@@ -475,6 +777,13 @@ class MqttService implements IMqttService {
     return this.__state === MqttServiceState.Running;
   }
 
+  /**
+   * 共享的{@link ITransport}，recover之后会被替换
+   */
+  get sharedTransport() {
+    return this.__sharedTransport;
+  }
+
   get state() {
     return this.__state;
   }
@@ -499,33 +808,9 @@ class MqttService implements IMqttService {
       return Promise.resolve(dummyTransport);
     }
 
-    return new Promise<ITransport>(async (resolve, reject) => {
-      const { cache } = this.__env;
-
-      const mqttPassword = await cache.getItem<string>(CK_MQTT_PASSWORD);
-      const token = await cache.getItem<string>(CK_ACCESS_TOKEN);
-      if (isNil(token)) {
-        return reject(new Error("Guest is forbidden"));
-      }
-      if (isNil(mqttPassword)) {
-        return reject(new Error("Mqtt password is required"));
-      }
-
-      const clientId = await this.getClientId();
-      const brokerUrl = await this.getBrokerUrl();
-      const opts = this.getClientOptions({
-        clientId,
-        password: mqttPassword,
-        token,
-      });
-      const transport = this.__transportBuilder.build({
-        brokerUrl,
-        opts,
-      });
-
+    return this.__buildTransport().then((transport) => {
       this.__transportBuilder.postBuild(this, transport);
-
-      resolve(transport);
+      return transport;
     });
   }
 
@@ -535,6 +820,7 @@ class MqttService implements IMqttService {
         {
           ...dummyWorker,
           referenceManager: this.__businessReferenceManager,
+          router: this.__messageRouter,
         },
         this.__env
       );
@@ -545,6 +831,7 @@ class MqttService implements IMqttService {
           {
             id: uniqueWorkerId(),
             referenceManager: this.__businessReferenceManager,
+            router: this.__messageRouter,
             transport: transport,
           },
           this.__env
@@ -553,6 +840,7 @@ class MqttService implements IMqttService {
           {
             id: uniqueWorkerId(),
             referenceManager: this.__businessReferenceManager,
+            router: this.__messageRouter,
             transport: this.__sharedTransport,
           },
           this.__env
@@ -567,6 +855,147 @@ class MqttService implements IMqttService {
     // TODO
   }
 
+  /**
+   * 构造Transport，不会调用{@link TransportBuilder#postBuild}
+   *
+   * @param reusedClientId 沿用的clientId，不提供的时候调用{@link getClientId}
+   */
+  private async __buildTransport(reusedClientId?: string) {
+    const { cache } = this.__env;
+
+    const mqttPassword = await cache.getItem<string>(CK_MQTT_PASSWORD);
+    const token = await cache.getItem<string>(CK_ACCESS_TOKEN);
+    if (isNil(token)) {
+      throw new Error("Guest is forbidden");
+    }
+    if (isNil(mqttPassword)) {
+      throw new Error("Mqtt password is required");
+    }
+
+    const clientId = isNil(reusedClientId)
+      ? await this.getClientId()
+      : reusedClientId;
+    const brokerUrl = await this.getBrokerUrl();
+    const opts = this.getClientOptions({
+      clientId,
+      password: mqttPassword,
+      willPayload: await this.__getWillPayload(clientId, mqttPassword, token),
+    });
+
+    return this.__transportBuilder.build({
+      brokerUrl,
+      opts,
+      reconnectPolicy: this.__transportBuilder.reconnectPolicy,
+      heartbeat: this.__transportBuilder.heartbeat,
+      outboundQueue: this.__transportBuilder.outboundQueue,
+      store: this.__transportBuilder.store,
+      cache,
+    });
+  }
+
+  /**
+   * 把MqttService的事件处理程序挂载到Transport上
+   */
+  private __attach(transport: ITransport) {
+    each([...KnownMqttEvents, ...KnownTransportEvents], (evt) => {
+      const callable: Callable = {
+        thisArg: this,
+        func: (...args) => {
+          this.__connectionState.digest(evt, args);
+
+          (this.__builtInListeners.get(evt) || new Set()).forEach((c) => {
+            c.func.apply(c.thisArg, args);
+          });
+
+          (this.__extraListeners.get(evt) || new Set()).forEach((c) => {
+            c.func.apply(c.thisArg, args);
+          });
+        },
+      };
+
+      this.__listeners.set(evt, new Set([callable]));
+      transport.addEventListener(evt, callable);
+    });
+  }
+
+  /**
+   * 从Transport上卸载MqttService的事件处理程序
+   */
+  private __detach(transport: ITransport) {
+    this.__listeners.forEach((cs, e) => {
+      cs.forEach((c) => {
+        transport.removeEventListener(e, c);
+      });
+    });
+    this.__listeners.clear();
+  }
+
+  /**
+   * 引用数量已经归零的业务（例如回收了失联Browser Tab的租约），通知API取消推送
+   *
+   * @param businesses 参考{@link BusinessReferenceManager#sweep}
+   */
+  private async __releaseReclaimedBusinesses(businesses: Business[]) {
+    const { api } = this.__env;
+    const clientId = this.__sharedTransport.clientId;
+
+    for (const f of businesses) {
+      try {
+        await api.post<boolean>(
+          "/v2/client/notify/unsub",
+          {
+            topic: [TOPIC.CLIENT, "uuid", f.subject].join("/"),
+            clientId,
+            bid: f.bid,
+          },
+          {
+            apiChange: PREFIX_HASH.building,
+            isCatch: false,
+          }
+        );
+      } catch (error) {
+        console.error(
+          `${new Date().toLocaleString("zh-CN", {
+            hour12: false,
+          })} MqttService: failed to release reclaimed business: ${
+            f.id
+          }\n  ${error}`
+        );
+      }
+    }
+  }
+
+  /**
+   * 当前Browser Tab的租约曾经被回收，API可能已经取消推送，续约之后重新通知API推送
+   */
+  private async __restoreBusinesses(businesses: Business[]) {
+    const { api } = this.__env;
+    const clientId = this.__sharedTransport.clientId;
+
+    for (const f of businesses) {
+      try {
+        await api.post<boolean>(
+          "/v2/client/notify/sub",
+          {
+            topic: [TOPIC.CLIENT, "uuid", f.subject].join("/"),
+            clientId,
+            bid: f.bid,
+          },
+          {
+            apiChange: PREFIX_HASH.building,
+            isCatch: false,
+          }
+        );
+      } catch (error) {
+        console.error(
+          `${new Date().toLocaleString("zh-CN", {
+            hour12: false,
+          })} MqttService: failed to restore business: ${f.id}\n  ${error}`
+        );
+      }
+    }
+  }
+
   /**
    * 结束MqttService
    *
@@ -585,6 +1014,11 @@ class MqttService implements IMqttService {
 
     // dispose all workers
     await this.removeWorkers();
+    /** Worker已经逐个释放了引用，这里兜底释放剩余的租约，并且停止续约 */
+    await this.__releaseReclaimedBusinesses(
+      await this.__businessReferenceManager.empty()
+    );
+    await this.__businessReferenceManager.stop();
 
     this.__listeners.forEach((cs, e) => {
       cs.forEach((c) => {
@@ -593,11 +1027,72 @@ class MqttService implements IMqttService {
     });
     this.__builtInListeners.clear();
     this.__extraListeners.clear();
+    this.__unobserveCredentials();
+    this.__sharedTransport.clearOutboundQueue();
     this.__sharedTransport.end(true);
 
     this.__state = MqttServiceState.Created;
   }
 
+  /**
+   * 监听token、Mqtt密码的变化，更新共享Transport的连接凭证
+   *
+   * @remarks
+   *
+   * getClientOptions在构造Transport的时候就确定了password和遗言中的token，
+   *   token刷新之后，如果不更新，下一次重连的时候Broker会以旧的凭证拒绝连接。
+   *
+   * 这里不重建Transport，只更新凭证，下一次重连的时候生效，因此Worker关注的业务不受影响。
+   *   缓存不支持监听（{@link ICache#subscribe}是可选的）的时候，只能依赖Broker拒绝连接之后的{@link recover}
+   */
+  private __observeCredentials() {
+    const { cache } = this.__env;
+    if (!isFunction(cache.subscribe)) {
+      return;
+    }
+
+    this.__unobserveCredentials();
+    this.__unobserveCredentials = cache.subscribe((key) => {
+      if (key !== CK_ACCESS_TOKEN && key !== CK_MQTT_PASSWORD) {
+        return;
+      }
+
+      this.__rotateCredentials();
+    });
+  }
+
+  private async __rotateCredentials() {
+    const { cache } = this.__env;
+    const transport = this.__sharedTransport;
+
+    const mqttPassword = await cache.getItem<string>(CK_MQTT_PASSWORD);
+    const token = await cache.getItem<string>(CK_ACCESS_TOKEN);
+    /**
+     * 用户登出的时候，token会被删除，这种情况交给quit/forceQuit处理
+     */
+    if (isNil(token) || isNil(mqttPassword)) {
+      return;
+    }
+
+    const { password, will } = this.getClientOptions({
+      clientId: transport.clientId,
+      password: mqttPassword,
+      willPayload: await this.__getWillPayload(
+        transport.clientId,
+        mqttPassword,
+        token
+      ),
+    });
+
+    console.info(
+      `${new Date().toLocaleString("zh-CN", {
+        hour12: false,
+      })} MqttService: rotate credentials`
+    );
+
+    transport.updateCredentials({ password, will });
+  }
+
   /**
    * 获取clientId，这是Mqtt连接必须的参数
    *
@@ -664,6 +1159,37 @@ class MqttService implements IMqttService {
     return `${protocol}://${host}/mqtt`;
   }
 
+  /**
+   * 生成遗言payload中证明身份的字段，参考{@link TransportBuilder#willPayload}
+   *
+   * @remarks
+   *
+   * 生成失败（例如申请票据的API不可用）不应该阻止连接，此时遗言中不包含证明身份的字段
+   */
+  private async __getWillPayload(
+    clientId: string,
+    password: string,
+    token: string
+  ) {
+    const provide =
+      this.__transportBuilder.willPayload || WillPayloadProviders.hmac();
+    try {
+      return await provide({
+        clientId,
+        password,
+        token,
+        env: this.__env,
+      });
+    } catch (error) {
+      console.error(
+        `${new Date().toLocaleString("zh-CN", {
+          hour12: false,
+        })} MqttService: failed to provide will payload\n  ${error}`
+      );
+      return {};
+    }
+  }
+
   /**
    *
    * 创建MqttClient配置
@@ -675,9 +1201,12 @@ class MqttService implements IMqttService {
     clientId: string;
     /** Mqtt Password */
     password: string;
-    token: string;
+    /** 遗言payload中证明身份的字段，参考{@link TransportBuilder#willPayload} */
+    willPayload?: Record<string, unknown>;
   }) {
-    const { clientId, password, token } = customized;
+    const { clientId, password, willPayload = {} } = customized;
+    const { protocolVersion = MqttProtocolVersion.V311 } =
+      this.__transportBuilder;
 
     const options: ClientOptions = {
       wsOptions: {}, // 只适用于WebSocket连接配置
@@ -685,17 +1214,15 @@ class MqttService implements IMqttService {
       reschedulePings: true, // 发送包后重新安排ping消息
       clientId,
       protocolId: "MQTT",
-      protocolVersion: 4, // MQTT 3.1.1 版本
+      protocolVersion, // 默认MQTT 3.1.1 版本，参考TransportBuilder#protocolVersion
       clean: true, // 注意：只能是true，设置为false，以便在脱机时接收QoS 1和2消息，Broker服务器不支持false，否则提示错误 Error: Connection refused: Server unavailable
-      reconnectPeriod: 5000, // 重连间隔, 毫秒
+      reconnectPeriod: 0, // 关闭MqttClient的自动重连，重连间隔由TransportBuilder#reconnectPolicy控制
       connectTimeout: 6000, // 连接超时，毫秒
       username: clientId,
       password,
-      // incomingStore ？？？
-      // outgoingStore ？？？
+      // incomingStore/outgoingStore 无法通过postMessage传递，由Transport在创建MqttClient之前创建，参考openMqttStores
       // queueQoSZero: true, // 如果连接断开，QoS为0的消息xxx？？？
       // customHandleAcks // MQTT 5.0
-      // properties // MQTT 5.0
       // authPacket ？？？
       // transformWsUrl: (url, options, client) => url, // 只适用于ws/wss，可用于实现重新连接时可能已过期的签名url
       // resubscribe: true, // 如果连接断开并重新连接，订阅的主题将自动再次订阅
@@ -706,7 +1233,6 @@ class MqttService implements IMqttService {
         topic: `${TOPIC.BROADCAST}/${clientId}/user/disconnect`,
         qos: MqttQoS.AtLeastOnce,
         // retain: 1, // 保留标志
-        // properties MQTT 5.0
         // 注意：只能传string
         payload: JSON.stringify({
           service: "user",
@@ -717,13 +1243,40 @@ class MqttService implements IMqttService {
           payload: {
             timestamp: formatDate(new Date()),
             uniqueMsgId: 0,
-            token: token.split(".")[2], // 遗言给api用
+            ...willPayload, // 遗言给api用
           },
         }),
       },
     };
 
-    return options;
+    if (protocolVersion !== MqttProtocolVersion.V5) {
+      return options;
+    }
+
+    const {
+      sessionExpiryInterval,
+      messageExpiryInterval,
+      topicAliasMaximum,
+      userProperties,
+    } = { ...DEFAULT_MQTT5_OPTIONS, ...this.__transportBuilder.mqtt5 };
+
+    return merge<ClientOptions, Partial<ClientOptions>>(options, {
+      clean: sessionExpiryInterval === 0, // MQTT 5.0 Clean Start，会话是否保留由sessionExpiryInterval决定
+      properties: {
+        sessionExpiryInterval,
+        topicAliasMaximum,
+        userProperties,
+        requestProblemInformation: true, // 出错的时候，Broker在报文中携带reasonString
+      },
+      autoUseTopicAlias: topicAliasMaximum > 0,
+      autoAssignTopicAlias: topicAliasMaximum > 0,
+      will: {
+        properties: {
+          messageExpiryInterval,
+          userProperties,
+        },
+      } as ClientOptions["will"],
+    });
   }
 
   /**
@@ -743,24 +1296,162 @@ class MqttService implements IMqttService {
     const sharedTransport = await this.createTransport();
     this.__sharedTransport = sharedTransport;
 
-    each(KnownMqttEvents, (evt) => {
-      const callable: Callable = {
-        thisArg: this,
-        func: (...args) => {
-          (this.__builtInListeners.get(evt) || new Set()).forEach((c) => {
-            c.func.apply(c.thisArg, args);
-          });
+    this.__attach(this.__sharedTransport);
+    this.__observeCredentials();
+    this.__businessReferenceManager.start();
+    this.__connectionState.transition(ConnectionState.Connecting);
+    this.__sharedTransport.connect();
+  }
 
-          (this.__extraListeners.get(evt) || new Set()).forEach((c) => {
-            c.func.apply(c.thisArg, args);
-          });
-        },
-      };
+  /**
+   * 会话失效之后，重新获取clientId，重建共享的{@link ITransport}
+   *
+   * @remarks
+   *
+   * 断开过长时间，API会把clientId对应的topic关闭，这时候需要：
+   *
+   * 1. 重新调用{@link getClientId}
+   * 2. 重建共享的Transport，把所有使用共享Transport的{@link MqttServiceWorker}迁移过去
+   * 3. 连接成功后，重新订阅`#`，并且重新通知API，Worker仍然关注的所有业务
+   *
+   * 连续重建超过{@link MAX_REBOOTSTRAP_ATTEMPTS}次仍然失败，则放弃恢复，结束Mqtt连接
+   */
+  async recover() {
+    await this.__recover(true);
+  }
 
-      this.__listeners.set(evt, new Set([callable]));
-      this.__sharedTransport.addEventListener(evt, callable);
-    });
-    this.__sharedTransport.connect();
+  /**
+   * 用当前的TransportBuilder重建共享的{@link ITransport}
+   *
+   * @param renewClientId 是否重新获取clientId，默认不重新获取
+   *
+   * @remarks
+   *
+   * 用于切换Transport（例如AutoTransportBuilder退回到ClassicalTransport），会话仍然有效，
+   *   因此不计入{@link MAX_REBOOTSTRAP_ATTEMPTS}。
+   *
+   * useSharedClientId从true变为false的时候，当前Browser Tab不能再使用共享的clientId（其他Browser Tab仍然在使用），
+   *   需要传入renewClientId，为当前Browser Tab获取独立的clientId
+   */
+  async rebuild(renewClientId = false) {
+    await this.__recover(renewClientId, false);
+  }
+
+  /**
+   * 重建共享的{@link ITransport}
+   *
+   * @param renewClientId 是否重新获取clientId，Browser Tab被SharedWorker移除的时候，clientId仍然有效，不需要重新获取
+   * @param counted 是否计入{@link MAX_REBOOTSTRAP_ATTEMPTS}
+   */
+  private async __recover(renewClientId: boolean, counted = true) {
+    if (this.isGuest) {
+      return;
+    }
+    if (this.__isRebootstrapping) {
+      return;
+    }
+    if (
+      this.__state !== MqttServiceState.Initializing &&
+      this.__state !== MqttServiceState.Running &&
+      this.__state !== MqttServiceState.Recovering
+    ) {
+      return;
+    }
+
+    const staleTransport = this.__sharedTransport;
+
+    if (counted && this.__rebootstrapAttempts >= MAX_REBOOTSTRAP_ATTEMPTS) {
+      console.error(
+        `${new Date().toLocaleString("zh-CN", {
+          hour12: false,
+        })} MqttService: give up recovering after ${
+          this.__rebootstrapAttempts
+        } attempts`
+      );
+
+      this.__connectionState.transition(ConnectionState.Failed);
+      staleTransport.end(true);
+      return;
+    }
+
+    const prevState = this.__state;
+    this.__state = MqttServiceState.Recovering;
+    this.__isRebootstrapping = true;
+    if (counted) {
+      this.__rebootstrapAttempts = this.__rebootstrapAttempts + 1;
+    }
+
+    console.info(
+      `${new Date().toLocaleString("zh-CN", {
+        hour12: false,
+      })} MqttService: recover, attempt: ${this.__rebootstrapAttempts}`
+    );
+
+    try {
+      /**
+       * 多个Browser Tab共享同一个clientId的情况下，只有缓存的clientId仍然是失效的那个，才需要清理，
+       *   否则说明其他Browser Tab已经获取了新的clientId
+       */
+      if (renewClientId && this.__transportBuilder.useSharedClientId) {
+        const { cache } = this.__env;
+        const cachedClientId = await cache.getItem<string>(CK_MQTT_CLIENT_ID);
+        if (cachedClientId === staleTransport.clientId) {
+          await cache.removeItem(CK_MQTT_CLIENT_ID);
+        }
+      }
+
+      /** 共享clientId的时候以缓存为准，其他Browser Tab可能已经获取了新的clientId */
+      const reusable =
+        !renewClientId &&
+        !this.__transportBuilder.useSharedClientId &&
+        staleTransport !== dummyTransport;
+      const transport = await this.__buildTransport(
+        reusable ? staleTransport.clientId : undefined
+      );
+
+      /** 离线期间排队的消息由新的Transport接管，连接之后发布 */
+      await staleTransport.transferOutboundQueue(transport);
+
+      /** 等待期间调用了quit/forceQuit，不再替换Transport */
+      if (this.__state !== MqttServiceState.Recovering) {
+        transport.clearOutboundQueue();
+        transport.end(true);
+        transport.dispose();
+        return;
+      }
+
+      this.__detach(staleTransport);
+      this.__workers.forEach((w) => {
+        if (w.transport === staleTransport) {
+          w.rebind(transport);
+        }
+      });
+      staleTransport.end(true);
+      staleTransport.dispose();
+
+      this.__sharedTransport = transport;
+      this.__needsResync = true;
+      this.__attach(transport);
+      this.__connectionState.transition(ConnectionState.Connecting);
+      transport.connect();
+    } catch (error) {
+      console.error(
+        `${new Date().toLocaleString("zh-CN", {
+          hour12: false,
+        })} MqttService: recover error\n  ${error}`
+      );
+
+      if (this.__state === MqttServiceState.Recovering) {
+        this.__state = prevState;
+      }
+    } finally {
+      this.__isRebootstrapping = false;
+
+      if (this.__isSuspendPending) {
+        this.__isSuspendPending = false;
+        this.suspend();
+      }
+    }
   }
 
   /**
@@ -782,6 +1473,7 @@ class MqttService implements IMqttService {
         return each(KnownMqttEvents, (evt) => w.removeEventListener(evt));
       }
 
+      w.transport.clearOutboundQueue();
       w.transport.end(false, {}, () => {
         each(KnownMqttEvents, (evt) => w.removeEventListener(evt));
       });
@@ -790,6 +1482,10 @@ class MqttService implements IMqttService {
       Array.from(this.__workers.values()).map((worker) => worker.forceQuit())
     );
     this.__workers.clear();
+    await this.__businessReferenceManager.empty();
+    await this.__businessReferenceManager.stop();
+    this.__unobserveCredentials();
+    this.__sharedTransport.clearOutboundQueue();
     this.__sharedTransport.end(false, {}, () => {
       each(KnownMqttEvents, (evt) => this.removeEventListener(evt));
       this.__state = MqttServiceState.Created;
@@ -800,6 +1496,11 @@ class MqttService implements IMqttService {
    * 恢复运行，重连所有Mqtt连接
    */
   resume() {
+    /** 恢复过程中会重新建立连接，不需要再重连，取消排队的挂起 */
+    if (this.__state === MqttServiceState.Recovering) {
+      this.__isSuspendPending = false;
+      return;
+    }
     if (this.__state < MqttServiceState.Suspended) {
       return;
     }
@@ -814,6 +1515,7 @@ class MqttService implements IMqttService {
       }
       w.transport.reconnect();
     });
+    this.__connectionState.transition(ConnectionState.Connecting);
     this.__sharedTransport.reconnect();
     this.__state = MqttServiceState.Running;
   }
@@ -842,6 +1544,7 @@ class MqttService implements IMqttService {
     );
     this.__workers.forEach((w) => {
       if (w.transport !== this.__sharedTransport) {
+        w.transport.clearOutboundQueue();
         w.transport.end(true);
       }
     });
@@ -852,11 +1555,17 @@ class MqttService implements IMqttService {
    * 挂起，暂时中断Mqtt连接
    */
   suspend() {
+    /** 重建Transport期间，替换的Transport会立即连接，挂起无效，等重建完成之后再挂起 */
+    if (this.__isRebootstrapping) {
+      this.__isSuspendPending = true;
+      return;
+    }
     if (this.__state <= MqttServiceState.Suspended) {
       return;
     }
 
     this.__state = MqttServiceState.Suspending;
+    this.__connectionState.transition(ConnectionState.Suspended);
     this.__workers.forEach((w) => {
       if (w.transport === this.__sharedTransport) {
         return;
@@ -1,19 +1,42 @@
-import { each, isNil, uniqueId } from "lodash";
+import { each, isNil, noop, uniqueId } from "lodash";
 import type { Packet } from "mqtt";
 
 import type { IMSTDependence } from "@platform/core/infra";
 import { PREFIX_HASH } from "@platform/core/infra";
 
 import type { Business } from "./business";
+import { ConnectionStateMachine } from "./connection_state";
 import type {
   Callable,
+  ConnectionStatus,
   IMqttServiceWorker,
   ITransport,
+  MqttMessageHandler,
   MqttPayload,
+  RpcOptions,
+  RpcRequest,
+} from "./constants";
+import {
+  ConnectionState,
+  KnownMqttEvents,
+  KnownTransportEvents,
+  MqttEvent,
+  MqttProtocolVersion,
+  MqttQoS,
+  TOPIC,
   TransportEvent,
 } from "./constants";
-import { KnownMqttEvents, MqttEvent, TOPIC } from "./constants";
+import { MqttRpcError, MqttRpcErrorCode } from "./errors";
 import type { BusinessReferenceManager } from "./reference_manager";
+import { MessageRouter } from "./router";
+import {
+  DEFAULT_RPC_TIMEOUT,
+  RpcClient,
+  decodeCorrelationData,
+  decodePayload,
+  encodeCorrelationData,
+} from "./rpc";
+import { getSeq } from "./utils";
 
 type PBusiness = {
   /**
@@ -40,6 +63,81 @@ function uniqueWorkerId(prefix = "MqttServiceWorker_") {
  */
 const DRAFT_MQTT_SERVICE_WORKER_ID = "69b153e9-241d-4467-bb20-f048f29843db";
 
+/**
+ * {@link MqttServiceWorker#messagesOf}最多缓存的消息数量，超出之后丢弃最早的消息
+ *
+ * @private
+ */
+const MESSAGE_ITERATOR_BUFFER_SIZE = 256;
+
+/**
+ * 把业务消息转换成AsyncIterator，供for await...of消费
+ *
+ * @remarks
+ *
+ * 消费速度跟不上推送速度的时候，最多缓存{@link MESSAGE_ITERATOR_BUFFER_SIZE}条消息
+ *
+ * @private
+ */
+class MqttMessageIterator<T> implements AsyncIterableIterator<MqttPayload<T>> {
+  private __buffer: MqttPayload<T>[] = [];
+  private __done = false;
+  private __onReturn: () => void;
+  private __pending: ((result: IteratorResult<MqttPayload<T>>) => void)[] = [];
+
+  constructor(onReturn: () => void) {
+    this.__onReturn = onReturn;
+  }
+
+  [Symbol.asyncIterator]() {
+    return this;
+  }
+
+  next(): Promise<IteratorResult<MqttPayload<T>>> {
+    if (this.__buffer.length > 0) {
+      return Promise.resolve({ value: this.__buffer.shift()!, done: false });
+    }
+
+    if (this.__done) {
+      return Promise.resolve({ value: undefined, done: true });
+    }
+
+    return new Promise((resolve) => {
+      this.__pending.push(resolve);
+    });
+  }
+
+  push(message: MqttPayload<T>) {
+    if (this.__done) {
+      return;
+    }
+
+    const resolve = this.__pending.shift();
+    if (resolve) {
+      resolve({ value: message, done: false });
+      return;
+    }
+
+    this.__buffer.push(message);
+    if (this.__buffer.length > MESSAGE_ITERATOR_BUFFER_SIZE) {
+      this.__buffer.shift();
+    }
+  }
+
+  return(): Promise<IteratorResult<MqttPayload<T>>> {
+    if (!this.__done) {
+      this.__done = true;
+      this.__onReturn();
+      this.__pending.forEach((resolve) => {
+        resolve({ value: undefined, done: true });
+      });
+      this.__pending = [];
+    }
+
+    return Promise.resolve({ value: undefined, done: true });
+  }
+}
+
 /**
  * MqttServiceWorker，负责Mqtt消息的发送，以及在接收到Mqtt消息后，消息的处理
  *
@@ -58,7 +156,7 @@ class MqttServiceWorker implements IMqttServiceWorker {
     /* Follow ID */ string,
     /* Follow Message Digest */ (
       topic: string,
-      payload: Buffer,
+      message: MqttPayload,
       packet: Packet
     ) => void
   >();
@@ -66,6 +164,14 @@ class MqttServiceWorker implements IMqttServiceWorker {
     /* Follow ID */ string,
     /* Follow Message */ MqttPayload
   >();
+  private __followHandlers = new Map<
+    /* Follow ID */ string,
+    /* Follow Message Handlers */ Set<MqttMessageHandler<any>>
+  >();
+  private __followIterators = new Map<
+    /* Follow ID */ string,
+    /* Follow Message Iterators */ Set<MqttMessageIterator<any>>
+  >();
   private __builtInListeners = new Map<
     /** Event */ MqttEvent | TransportEvent,
     /** Listener */ Set<Callable>
@@ -79,12 +185,16 @@ class MqttServiceWorker implements IMqttServiceWorker {
     /** Listener */ Set<Callable>
   >();
   private __businessReferenceManager: BusinessReferenceManager;
+  private __connectionState: ConnectionStateMachine;
+  private __router: MessageRouter;
+  private __rpc = RpcClient.create();
   private __transport: ITransport;
 
   static create(
     sn: {
       id: string;
       referenceManager: BusinessReferenceManager;
+      router?: MessageRouter;
       transport: ITransport;
     },
     env: IMSTDependence
@@ -95,16 +205,26 @@ class MqttServiceWorker implements IMqttServiceWorker {
     sn: {
       id: string;
       referenceManager: BusinessReferenceManager;
+      router?: MessageRouter;
       transport: ITransport;
     },
     env: IMSTDependence
   ) {
-    const { id, referenceManager, transport } = sn;
+    const { id, referenceManager, router, transport } = sn;
 
     this.__env = env;
     this.__id = id;
     this.__businessReferenceManager = referenceManager;
+    this.__router = isNil(router) ? MessageRouter.create() : router;
     this.__transport = transport;
+    this.__connectionState = ConnectionStateMachine.create((next, prev) => {
+      (
+        this.__extraListeners.get(TransportEvent.ConnectionStateChange) ||
+        new Set()
+      ).forEach((c) => {
+        c.func.apply(c.thisArg, [next, prev]);
+      });
+    }, transport);
 
     this.__builtInListeners.set(
       MqttEvent.Message,
@@ -112,17 +232,61 @@ class MqttServiceWorker implements IMqttServiceWorker {
         {
           thisArg: this,
           func: (...args) => {
-            const [topic, payload, packet] = args as [string, Buffer, Packet];
+            const [topic, payload, packet] = args as [
+              string,
+              string | Uint8Array,
+              Packet
+            ];
+
+            /**
+             * 同一条消息只解码一次，并且只有存在关注了该subject的业务的时候才解码
+             */
+            let message: MqttPayload | null | undefined = undefined;
+            const decode = () => {
+              if (message !== undefined) {
+                return message;
+              }
+
+              const text = decodePayload(payload);
+
+              console.info(
+                `${new Date().toLocaleString("zh-CN", {
+                  hour12: false,
+                })} MqttServiceWorker: receive message \n  ${text}`
+              );
+
+              try {
+                message = JSON.parse(text) as MqttPayload;
+              } catch (error) {
+                console.error(
+                  `${new Date().toLocaleString("zh-CN", {
+                    hour12: false,
+                  })} MqttServiceWorker: malformed message\n  ${error}`
+                );
+                message = null;
+              }
+              return message;
+            };
+
+            /**
+             * RPC响应只属于发起请求的Worker，不再派发给业务；
+             *   MQTT 5.0的响应以Correlation Data为准
+             */
+            if (this.__rpc.size > 0) {
+              const m = decode();
+              const seq = decodeCorrelationData(packet);
+              if (
+                !isNil(m) &&
+                this.__rpc.resolve(isNil(seq) ? m : { ...m, seq })
+              ) {
+                return;
+              }
+            }
+
             this.__followMessageDigest.forEach((digest, followId) => {
               const f = this.__follows.get(followId);
               /**
-               * isMyMessage有一个严重的潜在缺陷，就是它只根据subject进行判断。这个问题是老问题了，项目跑了好几年，都没发现这个BUG，只是凑巧暂时没有出现BUG相关的场景。
-               *
-               * !!ATTENTION!!
-               *
-               * 我通过BusinessReferenceManager解决了这个问题。
-               *
-               * !!ATTENTION!!
+               * 以前isMyMessage只根据subject进行判断。这个问题是老问题了，项目跑了好几年，都没发现这个BUG，只是凑巧暂时没有出现BUG相关的场景。
                *
                * 有这么一种场景：
                *
@@ -138,27 +302,38 @@ class MqttServiceWorker implements IMqttServiceWorker {
                * 如果AA从UI上移除，此时与AA组件绑定的MqttServiceWorker会调用unwatch方法，通知API取消关注业务反馈，并且通知MqttService回收和AA组件绑定的MqttServiceWorker。
                * 此时由于API不再推送相关业务的消息，BB组件就会受到影响。
                *
+               * 我通过BusinessReferenceManager解决了这个问题。
+               *
                * **bid不同**
                *
-               * 这个时候Broker推送的消息，AA和BB都会接收到，因为无法根据bid进行区分是不是属于自己的消息。
+               * 这个时候Broker推送的消息，AA和BB都会接收到，因为无法根据subject区分是不是属于自己的消息。
+               *
+               * 我通过MessageRouter解决了这个问题，参考{@link MessageRouter#isMine}。
                */
-              const isMyMessage =
+              const isMySubject =
                 !isNil(f) && this.__transport.getTopic(f.subject) === topic;
-              if (!isMyMessage) {
+              if (!isMySubject) {
+                return;
+              }
+
+              const m = decode();
+              if (isNil(m) || !this.__router.isMine(f, m)) {
                 return;
               }
 
-              digest(topic, payload, packet);
+              digest(topic, m, packet);
             });
           },
         },
       ])
     );
 
-    each(KnownMqttEvents, (evt) => {
+    each([...KnownMqttEvents, ...KnownTransportEvents], (evt) => {
       const callable: Callable = {
         thisArg: this,
         func: (...args) => {
+          this.__connectionState.digest(evt, args);
+
           (this.__builtInListeners.get(evt) || new Set()).forEach((c) => {
             c.func.apply(c.thisArg, args);
           });
@@ -180,6 +355,17 @@ class MqttServiceWorker implements IMqttServiceWorker {
     return this.__transport.connected;
   }
 
+  /**
+   * Worker所使用的Transport的连接状态
+   *
+   * @remarks
+   *
+   * 状态变化的时候派发{@link TransportEvent.ConnectionStateChange}，可以通过{@link addEventListener}监听
+   */
+  get connectionState(): ConnectionStatus {
+    return this.__connectionState.status;
+  }
+
   get follows() {
     return Array.from(this.__follows.values());
   }
@@ -229,6 +415,17 @@ class MqttServiceWorker implements IMqttServiceWorker {
     });
   }
 
+  /**
+   * 把关注的业务上报给Transport，参考{@link ITransport#reportBusinesses}
+   */
+  private __reportBusinesses() {
+    this.__transport.reportBusinesses(
+      this.__id,
+      Array.from(this.__follows.values()),
+      this.__businessReferenceManager.tabId
+    );
+  }
+
   addEventListener(event: MqttEvent | TransportEvent, callable: Callable) {
     const handlers = this.__extraListeners.get(event) || new Set();
     handlers.add(callable);
@@ -243,7 +440,10 @@ class MqttServiceWorker implements IMqttServiceWorker {
     );
 
     this.__follows.clear();
+    this.__reportBusinesses();
     this.__followMessageDigest.clear();
+    this.__closeMessageHandlers();
+    this.__rpc.dispose();
     this.__listeners.forEach((cs, e) => {
       cs.forEach((c) => {
         this.__transport.removeEventListener(e, c);
@@ -266,7 +466,10 @@ class MqttServiceWorker implements IMqttServiceWorker {
     );
 
     this.__follows.clear();
+    this.__reportBusinesses();
     this.__followMessageDigest.clear();
+    this.__closeMessageHandlers();
+    this.__rpc.dispose();
     this.__listeners.forEach((cs, e) => {
       cs.forEach((c) => {
         this.__transport.removeEventListener(e, c);
@@ -276,6 +479,31 @@ class MqttServiceWorker implements IMqttServiceWorker {
     this.__extraListeners.clear();
   }
 
+  /**
+   * 注销所有业务消息处理程序，结束所有AsyncIterator
+   *
+   * @param followId 业务ID，不传则注销所有业务
+   */
+  private __closeMessageHandlers(followId?: string) {
+    const ids = isNil(followId)
+      ? Array.from(this.__followIterators.keys())
+      : [followId];
+    each(ids, (id) => {
+      (this.__followIterators.get(id) || new Set()).forEach((it) => {
+        it.return();
+      });
+    });
+
+    if (isNil(followId)) {
+      this.__followHandlers.clear();
+      this.__followIterators.clear();
+      return;
+    }
+
+    this.__followHandlers.delete(followId);
+    this.__followIterators.delete(followId);
+  }
+
   getBusiness(id: string) {
     return this.__follows.get(id);
   }
@@ -322,6 +550,101 @@ class MqttServiceWorker implements IMqttServiceWorker {
     });
   }
 
+  /**
+   * 把Worker切换到另外一个Transport上
+   *
+   * @param transport 新的Transport
+   *
+   * @remarks
+   *
+   * MqttService重建共享的Transport之后（参考{@link MqttService#recover}），调用此方法迁移事件处理程序
+   */
+  rebind(transport: ITransport) {
+    if (this.__transport === transport) {
+      return;
+    }
+
+    this.__listeners.forEach((cs, e) => {
+      cs.forEach((c) => {
+        this.__transport.removeEventListener(e, c);
+        transport.addEventListener(e, c);
+      });
+    });
+    this.__transport.reportBusinesses(
+      this.__id,
+      [],
+      this.__businessReferenceManager.tabId
+    );
+    this.__transport = transport;
+    this.__reportBusinesses();
+    this.__connectionState.transition(
+      transport.connected ? ConnectionState.Online : ConnectionState.Connecting
+    );
+  }
+
+  /**
+   * 以AsyncIterator的形式消费业务消息
+   *
+   * @param f IMP-WEB业务
+   * @returns
+   *
+   * @remarks
+   *
+   * 调用{@link unwatch}之后，AsyncIterator会自动结束；没有关注的业务，AsyncIterator立即结束
+   *
+   * @example
+   *
+   * await worker.watch(business);
+   * for await (const message of worker.messagesOf<TMqttMessage>(business)) {
+   *   console.log(message.payload);
+   * }
+   */
+  messagesOf<T = Record<string, any>>(f: Business) {
+    if (!this.__follows.has(f.id)) {
+      const iterator = new MqttMessageIterator<T>(noop);
+      iterator.return();
+      return iterator;
+    }
+
+    const iterators = this.__followIterators.get(f.id) || new Set();
+    const iterator: MqttMessageIterator<T> = new MqttMessageIterator<T>(() => {
+      dispose();
+      iterators.delete(iterator);
+    });
+    const dispose = this.onMessage<T>(f, (message) => {
+      iterator.push(message);
+    });
+
+    iterators.add(iterator);
+    this.__followIterators.set(f.id, iterators);
+
+    return iterator;
+  }
+
+  /**
+   * 注册业务消息处理程序，每一条属于该业务的消息都会调用handler
+   *
+   * @param f IMP-WEB业务
+   * @param handler 消息处理程序
+   * @returns 注销消息处理程序的函数
+   *
+   * @remarks
+   *
+   * 以前我们只能通过{@link messages}拿到最后一条消息，React组件在两次渲染之间收到的消息会丢失
+   */
+  onMessage<T = Record<string, any>>(
+    f: Business,
+    handler: MqttMessageHandler<T>
+  ) {
+    const handlers = this.__followHandlers.get(f.id) || new Set();
+    handlers.add(handler);
+    this.__followHandlers.set(f.id, handlers);
+
+    return () => {
+      handlers.delete(handler);
+    };
+  }
+
   removeEventListener(event: MqttEvent | TransportEvent, callable?: Callable) {
     if (isNil(callable)) {
       this.__extraListeners.delete(event);
@@ -335,8 +658,108 @@ class MqttServiceWorker implements IMqttServiceWorker {
     }
   }
 
-  // TODO 发送消息，目前暂时没有相关场景
-  send() {}
+  /**
+   * 重新通知API，Worker仍然关注的所有业务
+   *
+   * @remarks
+   *
+   * 重建Transport之后clientId发生了变化，API需要知道新的clientId才能继续推送业务消息。
+   *   这里不会改变{@link BusinessReferenceManager}中的引用计数
+   */
+  async resync() {
+    if (this.isGuest) {
+      return;
+    }
+
+    await Promise.all(
+      Array.from(this.__follows.values()).map(async (f) => {
+        if (isNil(f.bid)) {
+          return;
+        }
+
+        await this.__letApiKnowIAmInterested({
+          bid: f.bid,
+          topic: [TOPIC.CLIENT, "uuid", f.subject].join("/"),
+          clientId: this.__transport.clientId,
+        });
+        this.__followApiAwareness.set(f.id, true);
+      })
+    );
+  }
+
+  /**
+   * 基于Mqtt的RPC调用
+   *
+   * @param request 请求
+   * @param options 请求配置
+   * @returns 服务端的响应
+   *
+   * @remarks
+   *
+   * 请求使用和遗言相同的信封格式`{service, method, seq, srcAddr, clientId, payload}`，
+   *   发布到`iot/v1/s/{clientId}/{service}/{method}`，
+   *   服务端通过`iot/v1/c/{clientId}/...`回复，响应中的seq与请求的seq相同。
+   *
+   * MqttService已经订阅了`iot/v1/c/{clientId}/#`，因此这里不需要额外订阅。
+   *
+   * 使用MQTT 5.0的时候，请求会携带Response Topic（`iot/v1/c/{clientId}/{service}/{method}`）、
+   *   Correlation Data（seq）以及和超时时间一致的Message Expiry Interval，超时的请求Broker不会再投递给服务端。
+   *
+   * @example
+   *
+   * const controller = new AbortController();
+   * const response = await worker.send<TRequest, TResponse>(
+   *   { service: "device", method: "reboot", payload: { deviceId } },
+   *   { timeout: 5000, signal: controller.signal }
+   * );
+   */
+  send<TRequest = Record<string, any>, TResponse = Record<string, any>>(
+    request: RpcRequest<TRequest>,
+    options: RpcOptions = {}
+  ) {
+    if (this.isGuest) {
+      return Promise.reject(
+        new MqttRpcError(
+          MqttRpcErrorCode.Forbidden,
+          "Guest is forbidden to send requests"
+        )
+      );
+    }
+
+    const { service, method, payload } = request;
+    const clientId = this.__transport.clientId;
+    const seq = getSeq();
+    const topic = `${TOPIC.SERVER}/${clientId}/${service}/${method}`;
+    const message = JSON.stringify({
+      service,
+      method,
+      seq,
+      srcAddr: `0.${clientId}`,
+      clientId,
+      payload,
+    });
+
+    const { timeout = DEFAULT_RPC_TIMEOUT } = options;
+    const properties =
+      this.__transport.protocolVersion === MqttProtocolVersion.V5
+        ? {
+            responseTopic: `${TOPIC.CLIENT}/${clientId}/${service}/${method}`,
+            correlationData: encodeCorrelationData(seq),
+            messageExpiryInterval: Math.ceil(timeout / 1000),
+          }
+        : undefined;
+
+    return this.__rpc.request<TResponse>(
+      seq,
+      (signal) =>
+        this.__transport.publish(topic, message, {
+          qos: MqttQoS.AtLeastOnce,
+          properties,
+          signal,
+        }),
+      options
+    );
+  }
 
   /**
    * 取消关注IMP-WEB业务
@@ -377,18 +800,34 @@ class MqttServiceWorker implements IMqttServiceWorker {
     }
 
     this.__follows.delete(f.id);
+    this.__reportBusinesses();
     this.__followMessages.delete(f.id);
     this.__followMessageDigest.delete(f.id);
+    this.__closeMessageHandlers(f.id);
   }
 
   /**
    * 关注IMP-WEB业务
    *
    * @param business IMP-WEB业务
+   * @param handler 消息处理程序，参考{@link onMessage}，关注成功之后才会注册
+   * @returns 注销消息处理程序的函数
+   *
+   * @example
+   *
+   * const dispose = await worker.watch<TMqttMessage>(business, (message) => {
+   *   console.log(message.payload.deviceId);
+   * });
    */
-  async watch(f: Business) {
+  async watch<T = Record<string, any>>(
+    f: Business,
+    handler?: MqttMessageHandler<T>
+  ) {
+    const listen = () =>
+      isNil(handler) ? noop : this.onMessage<T>(f, handler);
+
     if (this.isGuest) {
-      return;
+      return noop;
     }
 
     const subject = f.subject;
@@ -398,11 +837,11 @@ class MqttServiceWorker implements IMqttServiceWorker {
     const needsToLetApiKnowIAMInterested = !isNil(bid);
 
     if (isWatching && !needsToLetApiKnowIAMInterested) {
-      return;
+      return listen();
     }
 
     if (isWatching && needsToLetApiKnowIAMInterested && isApiAware) {
-      return;
+      return listen();
     }
 
     if (needsToLetApiKnowIAMInterested) {
@@ -428,21 +867,27 @@ class MqttServiceWorker implements IMqttServiceWorker {
     }
 
     this.__follows.set(f.id, f);
+    this.__reportBusinesses();
     this.__followMessageDigest.set(
       f.id,
-      (topic: string, payload: Buffer, packet: Packet) => {
-        const text = new TextDecoder().decode(payload);
-        const message = JSON.parse(text) as MqttPayload;
-
-        console.info(
-          `${new Date().toLocaleString("zh-CN", {
-            hour12: false,
-          })} MqttServiceWorker: receive message \n  ${text}`
-        );
-
+      (topic: string, message: MqttPayload, packet: Packet) => {
         this.__followMessages.set(f.id, message);
+
+        (this.__followHandlers.get(f.id) || new Set()).forEach((h) => {
+          try {
+            h(message, topic);
+          } catch (error) {
+            console.error(
+              `${new Date().toLocaleString("zh-CN", {
+                hour12: false,
+              })} MqttServiceWorker: message handler error\n  ${error}`
+            );
+          }
+        });
       }
     );
+
+    return listen();
   }
 }
 
@@ -0,0 +1,173 @@
+import { each } from "lodash";
+import { Store } from "mqtt";
+
+import { MqttStoreKind } from "./constants";
+
+/**
+ * IndexedDB数据库名称的前缀，每一个clientId一个数据库
+ */
+const MQTT_STORE_DB_PREFIX = "mqtt_store_";
+
+const MQTT_STORE_DB_VERSION = 1;
+
+/**
+ * 数据库中的object store，分别对应MqttClient的incomingStore和outgoingStore
+ */
+enum MqttStoreName {
+  Incoming = "incoming",
+  Outgoing = "outgoing",
+}
+
+type MqttStores = {
+  incomingStore: Store;
+  outgoingStore: Store;
+};
+
+function promisify<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(name: string) {
+  const request = indexedDB.open(name, MQTT_STORE_DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    each([MqttStoreName.Incoming, MqttStoreName.Outgoing], (storeName) => {
+      if (!db.objectStoreNames.contains(storeName)) {
+        db.createObjectStore(storeName, { keyPath: "messageId" });
+      }
+    });
+  };
+  return promisify(request);
+}
+
+/**
+ * 基于IndexedDB的MqttClient Store，用于保存尚未完成的QoS 1/2 packet
+ *
+ * @remarks
+ *
+ * MqttClient要求Store的put/get/del/createStream都是同步可用的，因此这里继承内存中的Store，
+ *   读取仍然走内存，写入的时候同时写入IndexedDB（write-through），打开的时候再从IndexedDB恢复到内存。
+ *
+ * 这样刷新Browser Tab、SharedWorker重启之后，MqttClient重新连接的时候会重新发送尚未完成的packet。
+ *
+ * 只依赖indexedDB，不依赖window对象，因此Browser Tab（ClassicalTransport）和SharedWorker（worker.ts）都可以使用。
+ */
+class IndexedDBStore extends Store {
+  private __db: IDBDatabase;
+  private __storeName: MqttStoreName;
+
+  /**
+   * 打开Store，并且把IndexedDB中的packet恢复到内存
+   *
+   * @param db IndexedDB数据库
+   * @param storeName object store名称
+   * @returns
+   */
+  static async open(db: IDBDatabase, storeName: MqttStoreName) {
+    const store = new IndexedDBStore(db, storeName);
+    const packets = await promisify<any[]>(
+      db.transaction(storeName, "readonly").objectStore(storeName).getAll()
+    );
+    each(packets, (packet) => {
+      Store.prototype.put.call(store, packet);
+    });
+    return store;
+  }
+
+  constructor(db: IDBDatabase, storeName: MqttStoreName) {
+    /** clean为false，关闭的时候保留内存中的packet，MqttClient重连的时候仍然需要 */
+    super({ clean: false });
+    this.__db = db;
+    this.__storeName = storeName;
+  }
+
+  put(packet: any, cb?: Function) {
+    super.put(packet, cb);
+    this.__write((os) => os.put(packet));
+    return this;
+  }
+
+  del(packet: any, cb: Function) {
+    super.del(packet, cb);
+    this.__write((os) => os.delete(packet.messageId));
+    return this;
+  }
+
+  /**
+   * 写入失败只会影响刷新之后的恢复，不影响当前连接，因此只记录日志
+   */
+  private __write(write: (os: IDBObjectStore) => IDBRequest) {
+    try {
+      const tx = this.__db.transaction(this.__storeName, "readwrite");
+      tx.onerror = () => {
+        console.error(
+          `${new Date().toLocaleString("zh-CN", {
+            hour12: false,
+          })} IndexedDBStore: write error\n  ${tx.error}`
+        );
+      };
+      write(tx.objectStore(this.__storeName));
+    } catch (error) {
+      console.error(
+        `${new Date().toLocaleString("zh-CN", {
+          hour12: false,
+        })} IndexedDBStore: write error\n  ${error}`
+      );
+    }
+  }
+}
+
+/**
+ * 创建MqttClient的incomingStore和outgoingStore
+ *
+ * @param clientId Mqtt Client ID，每一个clientId使用独立的数据库
+ * @param kind Store类型，默认{@link MqttStoreKind.IndexedDB}
+ * @returns
+ *
+ * @remarks
+ *
+ * Store对象无法通过postMessage传递，因此getClientOptions不会设置incomingStore/outgoingStore，
+ *   而是由Transport（或者SharedWorker）在创建MqttClient之前调用这个函数。
+ *
+ * IndexedDB不可用（例如隐私模式、旧版本浏览器）的时候，退回到MqttClient默认的内存Store。
+ *
+ * @example
+ *
+ * const stores = await openMqttStores(opts.clientId, MqttStoreKind.IndexedDB);
+ * const client = mqtt.connect(brokerUrl, { ...opts, ...stores });
+ */
+async function openMqttStores(
+  clientId: string,
+  kind: MqttStoreKind = MqttStoreKind.IndexedDB
+): Promise<MqttStores> {
+  const memory = () => ({
+    incomingStore: new Store({ clean: true }),
+    outgoingStore: new Store({ clean: true }),
+  });
+
+  if (kind !== MqttStoreKind.IndexedDB || typeof indexedDB === "undefined") {
+    return memory();
+  }
+
+  try {
+    const db = await openDatabase(`${MQTT_STORE_DB_PREFIX}${clientId}`);
+    const [incomingStore, outgoingStore] = await Promise.all([
+      IndexedDBStore.open(db, MqttStoreName.Incoming),
+      IndexedDBStore.open(db, MqttStoreName.Outgoing),
+    ]);
+    return { incomingStore, outgoingStore };
+  } catch (error) {
+    console.warn(
+      `${new Date().toLocaleString("zh-CN", {
+        hour12: false,
+      })} openMqttStores: IndexedDB is unavailable, fallback to memory store\n  ${error}`
+    );
+    return memory();
+  }
+}
+
+export { IndexedDBStore, openMqttStores };
+export type { MqttStores };
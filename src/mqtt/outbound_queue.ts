@@ -0,0 +1,396 @@
+import { filter, findIndex, isNil, map, pick, uniqueId } from "lodash";
+import type { IClientPublishOptions, Packet } from "mqtt";
+
+import type { ICache } from "@platform/core/infra";
+
+import type { OutboundQueuePolicy } from "./constants";
+import { MqttQoS, OutboundDropPolicy } from "./constants";
+import type { MqttTransportError } from "./errors";
+import { MqttOutboundQueueFullError, MqttTransportErrorCode } from "./errors";
+import { uniqueTabId } from "./utils";
+
+/**
+ * 默认的离线发布队列策略：最多100条消息，满了之后丢弃最早的消息
+ */
+const DEFAULT_OUTBOUND_QUEUE_POLICY: OutboundQueuePolicy = {
+  maxSize: 100,
+  dropPolicy: OutboundDropPolicy.Oldest,
+};
+
+type OutboundMessage = {
+  id: string;
+  topic: string;
+  message: string;
+  opts: IClientPublishOptions;
+  enqueuedAt: number;
+  /** 是否需要持久化，参考{@link OutboundQueue#enqueue} */
+  durable: boolean;
+};
+
+type PendingPublish = {
+  resolve: (packet: Packet | undefined) => void;
+  reject: (error: Error) => void;
+  cleanup: () => void;
+  signal?: AbortSignal;
+};
+
+/**
+ * 离线发布队列
+ *
+ * @remarks
+ *
+ * 连接断开（或者尚未建立）的时候，ClassicalTransport没有MqttClient可用，SharedWorker中也可能还没有创建MqttClient，
+ *   直接发布的消息会丢失。OutboundQueue把这些消息缓存起来，重新连接之后按照入队顺序发布。
+ *
+ * QoS大于等于1的消息会通过ICache持久化，刷新页面之后调用{@link OutboundQueue#restore}恢复，
+ *   恢复的消息没有调用方在等待结果，发布之后就结束了。持久化的时候只保留JSON能够表示的dup、qos、retain，
+ *   MQTT 5.0的properties（例如Uint8Array类型的correlationData）不会被持久化。
+ *
+ * @example
+ *
+ * const queue = OutboundQueue.create({ key, cache, policy });
+ * const packet = queue.enqueue(topic, message, { qos: MqttQoS.AtLeastOnce });
+ * // 重新连接之后
+ * await queue.flush((m) => client.publish(m.topic, m.message, m.opts), () => client.connected);
+ */
+class OutboundQueue {
+  private __cache: ICache | null;
+  private __flushing = false;
+  private __key: string;
+  private __messages: OutboundMessage[] = [];
+  private __pending = new Map</** Message ID */ string, PendingPublish>();
+  private __persisting: Promise<void> = Promise.resolve();
+  private __policy: OutboundQueuePolicy;
+  /**
+   * 消息ID的前缀
+   *
+   * @remarks
+   *
+   * lodash.uniqueId的计数器每次加载页面都从1开始，持久化的消息ID会和新消息ID重复，
+   *   因此加上跨页面加载、跨Browser Tab唯一的前缀
+   */
+  private __queueId = uniqueTabId();
+  private __restoring: Promise<void> | null = null;
+
+  static create(sn: {
+    /** 持久化使用的缓存键 */
+    key: string;
+    cache?: ICache;
+    policy?: Partial<OutboundQueuePolicy>;
+  }) {
+    return new OutboundQueue(sn);
+  }
+
+  constructor(sn: {
+    key: string;
+    cache?: ICache;
+    policy?: Partial<OutboundQueuePolicy>;
+  }) {
+    this.__key = sn.key;
+    this.__cache = isNil(sn.cache) ? null : sn.cache;
+    this.__policy = { ...DEFAULT_OUTBOUND_QUEUE_POLICY, ...sn.policy };
+  }
+
+  /**
+   * 队列中等待发布的消息数量
+   */
+  get depth() {
+    return this.__messages.length;
+  }
+
+  get dropPolicy() {
+    return this.__policy.dropPolicy;
+  }
+
+  /**
+   * 清空队列，包括持久化的消息，等待中的publish返回undefined
+   */
+  clear() {
+    const pending = Array.from(this.__pending.values());
+    /** 持久化的消息也被清空了，不再需要恢复 */
+    if (isNil(this.__restoring)) {
+      this.__restoring = Promise.resolve();
+    }
+    this.__messages = [];
+    this.__pending.clear();
+    pending.forEach((p) => {
+      p.cleanup();
+      p.resolve(undefined);
+    });
+    this.__persist();
+  }
+
+  /**
+   * 消息入队，重新连接之后发布
+   *
+   * @param topic Mqtt主题
+   * @param message 消息内容
+   * @param opts 发布配置
+   * @param signal 中止之后，还没有发布的消息会被丢弃，publish返回undefined；带有signal的消息不会被持久化
+   * @returns 消息发布之后完成
+   */
+  enqueue(
+    topic: string,
+    message: string,
+    opts: IClientPublishOptions,
+    signal?: AbortSignal
+  ) {
+    const { maxSize, dropPolicy } = this.__policy;
+
+    if (!isNil(signal) && signal.aborted) {
+      return Promise.resolve(undefined);
+    }
+
+    if (this.__messages.length >= maxSize) {
+      console.warn(
+        `${new Date().toLocaleString("zh-CN", {
+          hour12: false,
+        })} OutboundQueue: queue is full, drop policy: ${dropPolicy}\n  ${topic}`
+      );
+
+      if (dropPolicy === OutboundDropPolicy.Reject) {
+        return Promise.reject(new MqttOutboundQueueFullError(maxSize));
+      }
+
+      if (dropPolicy === OutboundDropPolicy.Newest || maxSize <= 0) {
+        return Promise.resolve(undefined);
+      }
+
+      const oldest = this.__messages.shift() as OutboundMessage;
+      this.__settle(oldest.id, (p) => {
+        p.resolve(undefined);
+      });
+    }
+
+    const m: OutboundMessage = {
+      id: uniqueId(`${this.__queueId}_`),
+      topic,
+      message,
+      opts,
+      enqueuedAt: Date.now(),
+      durable:
+        (opts.qos || MqttQoS.Once) >= MqttQoS.AtLeastOnce && isNil(signal),
+    };
+
+    return new Promise<Packet | undefined>((resolve, reject) => {
+      const handleAbort = () => {
+        this.__drop(m.id);
+      };
+
+      if (!isNil(signal)) {
+        signal.addEventListener("abort", handleAbort);
+      }
+
+      this.__pending.set(m.id, {
+        resolve,
+        reject,
+        cleanup: () => {
+          if (!isNil(signal)) {
+            signal.removeEventListener("abort", handleAbort);
+          }
+        },
+        signal,
+      });
+      this.__messages.push(m);
+      this.__persist();
+    });
+  }
+
+  /**
+   * 按照入队顺序发布队列中的消息
+   *
+   * @param publish 发布一条消息
+   * @param canPublish 是否仍然可以发布，例如连接再次断开之后，剩下的消息留到下一次
+   *
+   * @remarks
+   *
+   * 发布失败（例如Broker拒绝）的消息会被移出队列，对应的publish抛出异常；
+   *   SharedWorker中还没有可用的Mqtt Client（{@link MqttTransportErrorCode.NotConnected}）的时候，消息留在队列中，等待下一次flush
+   */
+  async flush(
+    publish: (m: OutboundMessage) => Promise<Packet | undefined>,
+    canPublish: () => boolean
+  ) {
+    await this.restore();
+
+    if (this.__flushing) {
+      return;
+    }
+
+    this.__flushing = true;
+    try {
+      while (this.__messages.length > 0 && canPublish()) {
+        const m = this.__messages[0];
+        let packet: Packet | undefined;
+        let error: Error | null = null;
+        try {
+          packet = await publish(m);
+        } catch (e) {
+          error = e as Error;
+        }
+
+        if (
+          !isNil(error) &&
+          (error as MqttTransportError).code ===
+            MqttTransportErrorCode.NotConnected
+        ) {
+          break;
+        }
+
+        /** 发布期间，消息可能已经因为队列满了被丢弃 */
+        const index = findIndex(this.__messages, (x) => x.id === m.id);
+        if (index >= 0) {
+          this.__messages.splice(index, 1);
+        }
+        this.__persist();
+
+        this.__settle(m.id, (p) => {
+          if (isNil(error)) {
+            p.resolve(packet);
+          } else {
+            p.reject(error);
+          }
+        });
+      }
+    } finally {
+      this.__flushing = false;
+    }
+  }
+
+  /**
+   * 把队列中的消息（包括持久化的消息）全部移交出去，按照入队顺序重新发布，等待中的publish以重新发布的结果完成
+   *
+   * @param publish 重新发布一条消息，例如新的Transport的publish，还没有连接的时候消息会进入新的Transport的离线发布队列
+   *
+   * @remarks
+   *
+   * 重建Transport的时候使用，参考{@link ITransport#transferOutboundQueue}
+   */
+  async transfer(
+    publish: (
+      m: OutboundMessage,
+      signal?: AbortSignal
+    ) => Promise<Packet | undefined>
+  ) {
+    await this.restore();
+
+    const messages = this.__messages;
+    this.__messages = [];
+    this.__persist();
+
+    messages.forEach((m) => {
+      const p = this.__pending.get(m.id);
+      this.__pending.delete(m.id);
+      if (isNil(p)) {
+        /** 恢复的消息没有调用方在等待结果 */
+        publish(m).catch(() => undefined);
+        return;
+      }
+
+      p.cleanup();
+      publish(m, p.signal).then(p.resolve, p.reject);
+    });
+  }
+
+  /**
+   * 恢复持久化的消息，只会恢复一次，恢复的消息排在当前队列之前
+   */
+  restore() {
+    if (!isNil(this.__restoring)) {
+      return this.__restoring;
+    }
+
+    this.__restoring = (async () => {
+      if (isNil(this.__cache)) {
+        return;
+      }
+
+      try {
+        const persisted =
+          (await this.__cache.getItem<OutboundMessage[]>(this.__key)) || [];
+        const restored = map(
+          filter(
+            persisted,
+            (m) => findIndex(this.__messages, (x) => x.id === m.id) < 0
+          ),
+          (m) => ({ ...m, durable: true })
+        );
+        const merged = [...restored, ...this.__messages];
+        this.__messages = merged.slice(
+          Math.max(merged.length - this.__policy.maxSize, 0)
+        );
+      } catch (error) {
+        console.error(
+          `${new Date().toLocaleString("zh-CN", {
+            hour12: false,
+          })} OutboundQueue: restore error\n  ${error}`
+        );
+      }
+    })();
+    return this.__restoring;
+  }
+
+  /**
+   * 只持久化QoS大于等于1、并且没有signal的消息，写入按照调用顺序串行执行
+   *
+   * @remarks
+   *
+   * 写入之前先恢复持久化的消息，否则刷新页面之后、恢复之前入队的消息会覆盖上一次页面留下的消息
+   */
+  private __persist() {
+    const cache = this.__cache;
+    if (isNil(cache)) {
+      return;
+    }
+
+    this.__persisting = this.__persisting
+      .then(() => this.restore())
+      .then(() => {
+        const durable = map(
+          filter(this.__messages, (m) => m.durable),
+          (m) => ({ ...m, opts: pick(m.opts, ["dup", "qos", "retain"]) })
+        );
+        return durable.length === 0
+          ? cache.removeItem(this.__key)
+          : cache.setItem(this.__key, durable);
+      })
+      .catch((error) => {
+        console.error(
+          `${new Date().toLocaleString("zh-CN", {
+            hour12: false,
+          })} OutboundQueue: persist error\n  ${error}`
+        );
+      });
+  }
+
+  /**
+   * 丢弃还没有发布的消息，对应的publish返回undefined
+   *
+   * @param id
+   */
+  private __drop(id: string) {
+    const index = findIndex(this.__messages, (x) => x.id === id);
+    if (index >= 0) {
+      this.__messages.splice(index, 1);
+      this.__persist();
+    }
+
+    this.__settle(id, (p) => {
+      p.resolve(undefined);
+    });
+  }
+
+  private __settle(id: string, settle: (p: PendingPublish) => void) {
+    const p = this.__pending.get(id);
+    if (isNil(p)) {
+      return;
+    }
+
+    this.__pending.delete(id);
+    p.cleanup();
+    settle(p);
+  }
+}
+
+export { DEFAULT_OUTBOUND_QUEUE_POLICY, OutboundQueue };
+export type { OutboundMessage };
@@ -0,0 +1,150 @@
+import { clamp } from "lodash";
+
+import type { ReconnectPolicy } from "./constants";
+
+/**
+ * 默认的重连策略：1秒起步，指数退避，最长60秒，抖动50%，永不放弃
+ */
+const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = {
+  initialDelay: 1000,
+  maxDelay: 60000,
+  multiplier: 2,
+  jitter: 0.5,
+  maxAttempts: Infinity,
+};
+
+/**
+ * 计算第attempt次重连前需要等待的时间
+ *
+ * @param policy 重连策略
+ * @param attempt 已经尝试过的重连次数，从0开始
+ * @param random 随机数生成函数，默认Math.random
+ * @returns 等待时间，毫秒
+ *
+ * @remarks
+ *
+ * Broker重启之后，如果所有Browser Tab都按照固定间隔重连，会在同一时刻涌向Broker。
+ *   这里在指数退避的基础上叠加随机抖动，把重连请求打散：
+ *
+ * delay = min(maxDelay, initialDelay * multiplier ^ attempt) * (1 - jitter * random())
+ *
+ * @see [Exponential Backoff And Jitter](https://aws.amazon.com/blogs/architecture/exponential-backoff-and-jitter/)
+ */
+function getReconnectDelay(
+  policy: ReconnectPolicy,
+  attempt: number,
+  random: () => number = Math.random
+) {
+  const { initialDelay, maxDelay, multiplier, jitter } = policy;
+  const base = Math.min(
+    maxDelay,
+    initialDelay * Math.pow(multiplier, Math.max(attempt, 0))
+  );
+  return Math.round(base * (1 - clamp(jitter, 0, 1) * random()));
+}
+
+/**
+ * 按照{@link ReconnectPolicy}安排Mqtt Client的重连
+ *
+ * @remarks
+ *
+ * MqttClient自带的reconnectPeriod只支持固定间隔，因此Transport会把reconnectPeriod设置为0，关闭MqttClient的自动重连，
+ *   改由ReconnectScheduler在连接关闭之后调用MqttClient#reconnect。
+ *
+ * ClassicalTransport和SharedWorker（worker.ts）都使用这个类，因此这里不能依赖window对象。
+ */
+class ReconnectScheduler {
+  private __attempts = 0;
+  private __nextReconnectAt: number | null = null;
+  private __policy: ReconnectPolicy;
+  private __timer: ReturnType<typeof setTimeout> | null = null;
+
+  static create(policy: Partial<ReconnectPolicy> = {}) {
+    return new ReconnectScheduler(policy);
+  }
+
+  constructor(policy: Partial<ReconnectPolicy> = {}) {
+    this.__policy = {
+      ...DEFAULT_RECONNECT_POLICY,
+      ...policy,
+    };
+  }
+
+  /**
+   * 已经尝试过的重连次数，连接成功后清零
+   */
+  get attempts() {
+    return this.__attempts;
+  }
+
+  /**
+   * 是否已经超过了最大重连次数
+   */
+  get exhausted() {
+    return this.__attempts >= this.__policy.maxAttempts;
+  }
+
+  /**
+   * 下一次重连的时间戳，没有安排重连的时候为null
+   */
+  get nextReconnectAt() {
+    return this.__nextReconnectAt;
+  }
+
+  get policy() {
+    return this.__policy;
+  }
+
+  get scheduled() {
+    return this.__timer !== null;
+  }
+
+  /**
+   * 取消已经安排的重连，不会清零重连次数
+   */
+  cancel() {
+    if (this.__timer !== null) {
+      clearTimeout(this.__timer);
+    }
+    this.__timer = null;
+    this.__nextReconnectAt = null;
+  }
+
+  /**
+   * 连接成功之后，清零重连次数
+   */
+  reset() {
+    this.cancel();
+    this.__attempts = 0;
+  }
+
+  /**
+   * 安排下一次重连
+   *
+   * @param reconnect 到时间后执行的重连操作
+   * @returns 超过最大重连次数的时候返回false
+   */
+  schedule(reconnect: () => void) {
+    if (this.scheduled) {
+      return true;
+    }
+
+    if (this.exhausted) {
+      return false;
+    }
+
+    const delay = getReconnectDelay(this.__policy, this.__attempts);
+
+    this.__attempts = this.__attempts + 1;
+    this.__nextReconnectAt = Date.now() + delay;
+    this.__timer = setTimeout(() => {
+      this.__timer = null;
+      this.__nextReconnectAt = null;
+      reconnect();
+    }, delay);
+
+    return true;
+  }
+}
+
+export { DEFAULT_RECONNECT_POLICY, ReconnectScheduler, getReconnectDelay };
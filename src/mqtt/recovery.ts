@@ -0,0 +1,83 @@
+import { includes, isNil, isNumber, isString, values } from "lodash";
+
+import {
+  MqttConnackReturnCode,
+  MqttReasonCode,
+  MqttRecoveryStrategy,
+  MqttSocketError,
+} from "./constants";
+import { MqttTransportErrorCode } from "./errors";
+
+/**
+ * 连续重建Transport的最大次数，超过之后放弃恢复
+ *
+ * @private
+ */
+const MAX_REBOOTSTRAP_ATTEMPTS = 3;
+
+/**
+ * 根据Mqtt异常，决定MqttService的恢复策略
+ *
+ * @param error MqttClient派发的error事件参数
+ * @returns
+ *
+ * @remarks
+ *
+ * MqttClient派发的error事件，大致有两类：
+ *
+ * 1. Socket错误（TCP/IP网络层），error.code是字符串，例如：ECONNREFUSED，参考{@link MqttSocketError}
+ * 2. Broker拒绝连接，error.code是CONNACK返回码，参考{@link MqttConnackReturnCode}；
+ *   MQTT 5.0的CONNACK、DISCONNECT携带的是Reason Code，参考{@link MqttReasonCode}
+ *
+ * 另外，Transport自己也会派发一些错误，error.code参考{@link MqttTransportErrorCode}
+ *
+ * 其他情况（例如Mqtt packet解析错误）交给MqttClient自动重连。
+ *
+ * @example
+ *
+ * const strategy = classifyMqttError(error);
+ * if (strategy === MqttRecoveryStrategy.Rebootstrap) {
+ *   await mqttService.recover();
+ * }
+ */
+function classifyMqttError(error: unknown): MqttRecoveryStrategy {
+  const code = isNil(error) ? undefined : (error as { code?: unknown }).code;
+
+  if (code === MqttTransportErrorCode.IdentityMismatch) {
+    return MqttRecoveryStrategy.Abort;
+  }
+
+  if (isString(code) && includes(values(MqttSocketError), code)) {
+    return MqttRecoveryStrategy.Reconnect;
+  }
+
+  if (!isNumber(code)) {
+    return MqttRecoveryStrategy.Reconnect;
+  }
+
+  switch (code) {
+    case MqttConnackReturnCode.UnacceptableProtocolVersion:
+      return MqttRecoveryStrategy.Abort;
+    case MqttConnackReturnCode.ServerUnavailable:
+      return MqttRecoveryStrategy.Reconnect;
+    /**
+     * 断开过长时间，API会把clientId对应的topic关闭，Broker会以下面几种返回码拒绝连接，
+     *   这时候需要重新获取clientId，重新subscribe
+     */
+    case MqttConnackReturnCode.IdentifierRejected:
+    case MqttConnackReturnCode.BadUsernameOrPassword:
+    case MqttConnackReturnCode.NotAuthorized:
+    case MqttReasonCode.ClientIdentifierNotValid:
+    case MqttReasonCode.BadUserNameOrPassword:
+    case MqttReasonCode.NotAuthorized:
+      return MqttRecoveryStrategy.Rebootstrap;
+    case MqttReasonCode.UnsupportedProtocolVersion:
+    case MqttReasonCode.Banned:
+    case MqttReasonCode.BadAuthenticationMethod:
+      return MqttRecoveryStrategy.Abort;
+    default:
+      return MqttRecoveryStrategy.Reconnect;
+  }
+}
+
+export { MAX_REBOOTSTRAP_ATTEMPTS, classifyMqttError };
@@ -1,22 +1,129 @@
 import type { IMSTDependence } from "@platform/core/infra";
 import { DRAFT_ID } from "@platform/core/infra";
+import {
+  filter,
+  isFunction,
+  isNil,
+  mapValues,
+  pickBy,
+  sumBy,
+  uniqBy,
+  values,
+  without,
+} from "lodash";
 
-import type { Business } from "./business";
-import { CK_WATCHED_BUSINESS_PREFIX } from "./constants";
+import { Business } from "./business";
+import type { ReferenceLeasePolicy } from "./constants";
+import {
+  CK_WATCHED_BUSINESS_INDEX,
+  CK_WATCHED_BUSINESS_PREFIX,
+} from "./constants";
+import { CrossTabMutex } from "./cross_tab_mutex";
+import { uniqueTabId } from "./utils";
 
-type Reference = {
+/**
+ * 所有业务引用共用的跨Browser Tab互斥锁
+ */
+const REFERENCE_MUTEX_NAME = "mqttWatchedBizMutex";
+
+/**
+ * 冲突日志最多保留的条数，参考{@link BusinessReferenceManager#conflicts}
+ */
+const MAX_REFERENCE_CONFLICTS = 50;
+
+/**
+ * 默认的租约策略，每10秒续约一次，3分钟没有续约的租约过期
+ *
+ * @remarks
+ *
+ * 后台Browser Tab的定时器会被浏览器节流，最多每分钟执行一次，ttl要远大于节流之后的间隔，
+ *   否则后台Browser Tab的租约会频繁过期、被其他Browser Tab回收，API反复取消、恢复推送
+ */
+const DEFAULT_REFERENCE_LEASE_POLICY: ReferenceLeasePolicy = {
+  interval: 10000,
+  ttl: 180000,
+};
+
+type Lease = {
   /**
-   * 引用数量
+   * 这个Browser Tab持有的引用数量
    */
   reference: number;
   /**
-   * 版本，我们通过版本来解决不同Browser Tab之间的冲突
+   * 租约的过期时间戳
+   */
+  expiresAt: number;
+};
+
+type Reference = {
+  /**
+   * 被引用的业务，回收过期租约之后，需要根据它通知API取消推送
+   */
+  business: {
+    subject: string;
+    bid: number | string | null;
+  };
+  /**
+   * 每一个Browser Tab的租约，key是Browser Tab ID
+   */
+  leases: Record</* Tab ID */ string, Lease>;
+  /**
+   * 版本，每一次修改都会递增
    */
   version: number;
 };
 
 type ReferenceStore = Record</* Follow ID */ string, Reference>;
 
+type ReferenceOperation =
+  | "collect"
+  | "empty"
+  | "reclaim"
+  | "release"
+  | "renew"
+  | "sweep";
+
+/**
+ * 冲突日志，用于排查引用数量不准确的问题
+ */
+type ReferenceConflict = {
+  /**
+   * 冲突的类型
+   *
+   * - lockTimeout：没有获取到跨Browser Tab的互斥锁，只能在不持有锁的情况下读写缓存
+   * - overwritten：写入之后读回来的版本不一致，说明同时有其他Browser Tab写入了同一个业务的引用
+   */
+  kind: "lockTimeout" | "overwritten";
+  operation: ReferenceOperation;
+  /** 发生冲突的时间戳 */
+  at: number;
+  followId?: string;
+  /** 写入的版本 */
+  expected?: number;
+  /** 读回来的版本，null表示已经被删除 */
+  actual?: number | null;
+  /** 等待互斥锁的时间，毫秒 */
+  waited?: number;
+};
+
+/**
+ * 计算没有过期的租约的引用数量之和
+ *
+ * @param ref
+ * @param now
+ * @returns
+ */
+function countReference(ref: Reference | null | undefined, now: number) {
+  if (isNil(ref)) {
+    return 0;
+  }
+
+  return sumBy(
+    filter(values(ref.leases), (l) => l.expiresAt > now),
+    (l) => l.reference
+  );
+}
+
 /**
  * 用于管理业务主题的引用次数，如果一个业务的引用次数为0，调用API通知服务端不要推送相关业务的消息
  *
@@ -53,14 +160,65 @@ type ReferenceStore = Record</* Follow ID */ string, Reference>;
  * 我们必须决定什么样的时机，可以调用API，通知服务端不必再推送相关的消息。这个时机，就是当subject|bid构成的business对象引用数量为0的时候。
  *
  * BusinessReferenceManager就是干这个工作的。
+ *
+ * **租约**
+ *
+ * 引用数量存储在所有Browser Tab共享的缓存中，每一个Browser Tab持有的引用都是一份租约（参考{@link ReferenceLeasePolicy}）。
+ *   Browser Tab崩溃或者被浏览器丢弃的时候来不及释放引用，如果只是简单的计数，引用数量永远不会归零，API会一直推送相关的消息。
+ *
+ * 因此每一个Browser Tab定期续约，过期的租约不计入引用数量；
+ *   同时定期回收（{@link BusinessReferenceManager#sweep}）其他Browser Tab过期的租约，引用数量归零的业务交给onReclaim通知API取消推送。
+ *
+ * 后台Browser Tab的定时器会被浏览器节流，续约可能晚于租约过期，租约被其他Browser Tab回收、API已经取消推送。
+ *   续约的时候重新登记这些引用，并且交给onRestore重新通知API推送。
+ *
+ * **同步**
+ *
+ * 缓存支持监听（{@link ICache#subscribe}）的时候，其他Browser Tab修改了引用，当前Browser Tab会立即更新，
+ *   因此{@link BusinessReferenceManager#getReference}反映的是所有Browser Tab的引用数量之和，引用数量变化的时候调用onChange
+ *
+ * **并发**
+ *
+ * 多个Browser Tab可能同时collect/release同一个业务，各自读-改-写缓存会丢失其中一次修改。
+ *   因此所有读写都在跨Browser Tab的互斥锁（参考{@link CrossTabMutex}）中执行，
+ *   仍然发生的冲突（例如localStorage互斥锁超时）记录在{@link BusinessReferenceManager#conflicts}中。
  */
 class BusinessReferenceManager {
   private __env: IMSTDependence;
   private __id = DRAFT_ID;
+  private __tabId = uniqueTabId();
+  /** 当前Browser Tab持有的引用，续约的时候以它为准 */
+  private __holdings = new Map<
+    /* Follow ID */ string,
+    { business: Business; reference: number }
+  >();
   private __store: ReferenceStore = {};
+  private __policy: ReferenceLeasePolicy;
+  private __timer: ReturnType<typeof setInterval> | null = null;
+  /** 正在执行的加载、续约和回收，参考{@link BusinessReferenceManager#stop} */
+  private __ticking: Promise<void> = Promise.resolve();
+  private __onReclaim: (businesses: Business[]) => void;
+  private __onRestore: (businesses: Business[]) => void;
+  private __onChange: (
+    followId: string,
+    reference: number,
+    prev: number
+  ) => void;
+  private __unobserve: () => void = () => undefined;
+  /**
+   * 当前Browser Tab内对缓存的读写按顺序执行，避免并发的collect/release互相覆盖
+   */
+  private __serial: Promise<unknown> = Promise.resolve();
+  /** 不同Browser Tab之间对缓存的读写按顺序执行 */
+  private __mutex: CrossTabMutex;
+  private __conflicts: ReferenceConflict[] = [];
   static create(
     sn: {
       id?: string;
+      lease?: Partial<ReferenceLeasePolicy>;
+      onReclaim?: (businesses: Business[]) => void;
+      onRestore?: (businesses: Business[]) => void;
+      onChange?: (followId: string, reference: number, prev: number) => void;
     },
     env: IMSTDependence
   ) {
@@ -69,89 +227,493 @@ class BusinessReferenceManager {
   constructor(
     sn: {
       id?: string;
+      /**
+       * 租约策略，参考{@link ReferenceLeasePolicy}
+       */
+      lease?: Partial<ReferenceLeasePolicy>;
+      /**
+       * 回收了过期租约之后，引用数量归零的业务，需要通知API取消推送
+       */
+      onReclaim?: (businesses: Business[]) => void;
+      /**
+       * 续约的时候发现当前Browser Tab的租约已经被回收、引用数量曾经归零的业务，需要重新通知API推送
+       */
+      onRestore?: (businesses: Business[]) => void;
+      /**
+       * 业务的引用数量（所有Browser Tab之和）发生变化的时候调用，包括其他Browser Tab的修改
+       */
+      onChange?: (followId: string, reference: number, prev: number) => void;
     },
     env: IMSTDependence
   ) {
     const id = sn.id || DRAFT_ID;
     this.__env = env;
     this.__id = id;
+    this.__policy = {
+      ...DEFAULT_REFERENCE_LEASE_POLICY,
+      ...sn.lease,
+    };
+    this.__onReclaim = sn.onReclaim || (() => undefined);
+    this.__onRestore = sn.onRestore || (() => undefined);
+    this.__onChange = sn.onChange || (() => undefined);
+    this.__mutex = CrossTabMutex.create(REFERENCE_MUTEX_NAME, this.__tabId);
   }
   get id() {
     return this.__id;
   }
 
+  get tabId() {
+    return this.__tabId;
+  }
+
+  /**
+   * 最近发生的冲突，最多保留{@link MAX_REFERENCE_CONFLICTS}条
+   */
+  get conflicts(): ReadonlyArray<ReferenceConflict> {
+    return this.__conflicts;
+  }
+
   private __getCacheKey(followId: string) {
     return `${CK_WATCHED_BUSINESS_PREFIX}${followId}`;
   }
-  async collect(f: Business) {
+
+  /**
+   * 读取缓存，持有互斥锁的时候必须读到其他Browser Tab最新写入的值
+   *
+   * @remarks
+   *
+   * WebStorageCache优先返回内存中的副本，副本要等到storage事件才会更新，而storage事件不一定早于互斥锁的授予，
+   *   因此先让内存中的副本失效（参考{@link ICache#invalidate}），直接读取localStorage
+   */
+  private __readThrough<T>(key: string) {
     const { cache } = this.__env;
+    if (isFunction(cache.invalidate)) {
+      cache.invalidate(key);
+    }
+    return cache.getItem<T>(key);
+  }
 
-    const cacheKey = this.__getCacheKey(f.id);
-    const cachedItem = await cache.getItem<Reference>(cacheKey);
-    const theirs = cachedItem || {
-      reference: 0,
-      version: 0,
-    };
-    const ours = this.__store[f.id] || {
-      reference: 0,
-      version: 0,
-    };
-    const eventually = ours.version >= theirs.version ? ours : theirs;
+  private __read(followId: string) {
+    return this.__readThrough<Reference>(this.__getCacheKey(followId));
+  }
+
+  private async __readIndex() {
+    return (
+      (await this.__readThrough<string[]>(CK_WATCHED_BUSINESS_INDEX)) || []
+    );
+  }
+
+  /**
+   * 更新当前Browser Tab看到的引用，引用数量发生变化的时候调用onChange
+   *
+   * @param followId
+   * @param ref 缓存中的引用，null表示已经被删除
+   */
+  private __setReference(followId: string, ref: Reference | null) {
+    const now = Date.now();
+    const prev = countReference(this.__store[followId], now);
+
+    if (isNil(ref)) {
+      delete this.__store[followId];
+    } else {
+      this.__store[followId] = ref;
+    }
+
+    const reference = countReference(ref, now);
+    if (reference !== prev) {
+      this.__onChange(followId, reference, prev);
+    }
+  }
+
+  /**
+   * 其他Browser Tab（通过storage事件）或者当前Browser Tab修改了缓存
+   */
+  private __handleCacheChange = (key: string, value: unknown) => {
+    if (!key.startsWith(CK_WATCHED_BUSINESS_PREFIX)) {
+      return;
+    }
+
+    this.__setReference(
+      key.slice(CK_WATCHED_BUSINESS_PREFIX.length),
+      isNil(value) ? null : (value as Reference)
+    );
+  };
+
+  /**
+   * 从缓存加载所有业务的引用，包括当前Browser Tab没有引用的业务
+   */
+  private async __hydrate() {
+    const { cache } = this.__env;
+    const index =
+      (await cache.getItem<string[]>(CK_WATCHED_BUSINESS_INDEX)) || [];
 
-    console.info(
+    for (const followId of index) {
+      const ref = await cache.getItem<Reference>(this.__getCacheKey(followId));
+      this.__setReference(followId, isNil(ref) ? null : ref);
+    }
+  }
+
+  private __logConflict(conflict: ReferenceConflict) {
+    console.warn(
       `${new Date().toLocaleString("zh-CN", {
         hour12: false,
-      })} BusinessReferenceManager#collect: ours\n${JSON.stringify(
-        ours
-      )}\ntheirs${JSON.stringify(theirs)}`
+      })} BusinessReferenceManager: conflict\n  ${JSON.stringify(conflict)}`
     );
 
-    eventually.reference = eventually.reference + 1;
-    eventually.version = eventually.version + 1;
+    this.__conflicts = [...this.__conflicts, conflict].slice(
+      -MAX_REFERENCE_CONFLICTS
+    );
+  }
 
-    await cache.setItem(cacheKey, eventually);
+  /**
+   * 先在当前Browser Tab内排队，再获取跨Browser Tab的互斥锁，然后执行task
+   *
+   * @param operation 用于记录冲突日志
+   * @param task
+   * @returns
+   */
+  private __exclusive<T>(
+    operation: ReferenceOperation,
+    task: () => Promise<T>
+  ): Promise<T> {
+    const run = () =>
+      this.__mutex.runExclusive(task, (waited) => {
+        this.__logConflict({
+          kind: "lockTimeout",
+          operation,
+          at: Date.now(),
+          waited,
+        });
+      });
 
-    this.__store[f.id] = eventually;
+    const next = this.__serial.then(run, run);
+    this.__serial = next.catch(() => undefined);
+    return next;
+  }
 
-    return eventually.reference;
+  private async __index(followId: string) {
+    const { cache } = this.__env;
+    const index = await this.__readIndex();
+    if (!index.includes(followId)) {
+      await cache.setItem(CK_WATCHED_BUSINESS_INDEX, [...index, followId]);
+    }
   }
-  getReference(f: Business) {
-    const ref = this.__store[f.id] || {
-      reference: 0,
-      version: 0,
-    };
-    return ref.reference;
+
+  private async __unindex(followId: string) {
+    const { cache } = this.__env;
+    const index = await this.__readIndex();
+    if (index.includes(followId)) {
+      await cache.setItem(CK_WATCHED_BUSINESS_INDEX, without(index, followId));
+    }
   }
-  async release(f: Business) {
+
+  /**
+   * 把当前Browser Tab的租约写入缓存，顺便清理其他Browser Tab过期的租约
+   *
+   * @param operation
+   * @param f
+   * @param reference 当前Browser Tab持有的引用数量，0表示放弃租约
+   * @param evicted 需要一并清理的其他Browser Tab的租约，即使还没有过期
+   * @returns 所有Browser Tab的引用数量之和
+   */
+  private async __lease(
+    operation: ReferenceOperation,
+    f: Business,
+    reference: number,
+    evicted: string[] = []
+  ) {
     const { cache } = this.__env;
+    const now = Date.now();
+
     const cacheKey = this.__getCacheKey(f.id);
-    const cachedItem = await cache.getItem<Reference>(cacheKey);
-    const theirs = cachedItem || {
-      reference: 0,
-      version: 0,
-    };
-    const ours = this.__store[f.id] || {
-      reference: 0,
-      version: 0,
-    };
-    const eventually = ours.version >= theirs.version ? ours : theirs;
+    const theirs = await this.__read(f.id);
+    const leases = pickBy(
+      theirs ? theirs.leases : {},
+      (l, tabId) =>
+        tabId !== this.__tabId && !evicted.includes(tabId) && l.expiresAt > now
+    );
+    if (reference > 0) {
+      leases[this.__tabId] = {
+        reference,
+        expiresAt: now + this.__policy.ttl,
+      };
+    }
 
-    eventually.reference = Math.max(eventually.reference - 1, 0);
-    eventually.version = eventually.version + 1;
+    const eventually: Reference = {
+      business: {
+        subject: f.subject,
+        bid: f.bid,
+      },
+      leases,
+      version: (theirs ? theirs.version : 0) + 1,
+    };
+    const count = countReference(eventually, now);
 
-    if (eventually.reference === 0) {
+    if (count === 0) {
       await cache.removeItem(cacheKey);
-    } else {
-      await cache.setItem(cacheKey, eventually);
+      await this.__unindex(f.id);
+      this.__setReference(f.id, null);
+      return count;
     }
 
-    this.__store[f.id] = eventually;
+    await cache.setItem(cacheKey, eventually);
+    await this.__index(f.id);
+    this.__setReference(f.id, eventually);
+
+    /** 持有互斥锁的时候不应该发生，发生了说明互斥锁失效（例如localStorage互斥锁超时） */
+    const confirmed = await this.__read(f.id);
+    const actual = isNil(confirmed) ? null : confirmed.version;
+    if (actual !== eventually.version) {
+      this.__logConflict({
+        kind: "overwritten",
+        operation,
+        at: Date.now(),
+        followId: f.id,
+        expected: eventually.version,
+        actual,
+      });
+    }
 
-    return eventually.reference;
+    return count;
   }
+
+  async collect(f: Business) {
+    return this.__exclusive("collect", async () => {
+      const held = this.__holdings.get(f.id);
+      const reference = (held ? held.reference : 0) + 1;
+      this.__holdings.set(f.id, { business: f, reference });
+
+      const count = await this.__lease("collect", f, reference);
+
+      console.info(
+        `${new Date().toLocaleString("zh-CN", {
+          hour12: false,
+        })} BusinessReferenceManager#collect: ${
+          f.id
+        }, ours: ${reference}, all: ${count}`
+      );
+
+      return count;
+    });
+  }
+  getReference(f: Business) {
+    return countReference(this.__store[f.id], Date.now());
+  }
+
+  /**
+   * 所有Browser Tab引用的所有业务的引用数量，用于诊断
+   *
+   * @returns key是Follow ID
+   */
+  getReferences() {
+    const now = Date.now();
+    return pickBy(
+      mapValues(this.__store, (ref) => countReference(ref, now)),
+      (reference) => reference > 0
+    );
+  }
+  async release(f: Business) {
+    return this.__exclusive("release", async () => {
+      const held = this.__holdings.get(f.id);
+      const reference = Math.max((held ? held.reference : 0) - 1, 0);
+      if (reference === 0) {
+        this.__holdings.delete(f.id);
+      } else {
+        this.__holdings.set(f.id, { business: f, reference });
+      }
+
+      return this.__lease("release", f, reference);
+    });
+  }
+
+  /**
+   * 放弃当前Browser Tab持有的所有引用
+   *
+   * @returns 引用数量归零的业务，需要由调用方决定是否通知API取消推送
+   *
+   * @remarks
+   *
+   * MqttService#forceQuit的时候token已经过期，无法调用API，只能放弃租约
+   */
   async empty() {
-    // TODO
+    return this.__exclusive("empty", async () => {
+      const held = Array.from(this.__holdings.values());
+      this.__holdings.clear();
+
+      const released: Business[] = [];
+      for (const { business } of held) {
+        if ((await this.__lease("empty", business, 0)) === 0) {
+          released.push(business);
+        }
+      }
+      return released;
+    });
+  }
+
+  /**
+   * 续约当前Browser Tab持有的所有引用
+   *
+   * @returns 续约之前引用数量已经归零的业务，需要由调用方重新通知API推送
+   *
+   * @remarks
+   *
+   * 如果当前Browser Tab的租约已经被其他Browser Tab回收（例如页面被浏览器冻结过、定时器被节流），续约会重新登记这些引用
+   */
+  async renew() {
+    return this.__exclusive("renew", async () => {
+      const now = Date.now();
+      const restored: Business[] = [];
+      for (const { business, reference } of Array.from(
+        this.__holdings.values()
+      )) {
+        if (countReference(await this.__read(business.id), now) === 0) {
+          restored.push(business);
+        }
+        await this.__lease("renew", business, reference);
+      }
+      return restored;
+    });
+  }
+
+  /**
+   * 立即回收失联的Browser Tab的租约，不必等到租约过期
+   *
+   * @param holder 失联的Browser Tab，参考{@link BusinessReferenceManager#tabId}
+   * @param businesses 失联的Browser Tab关注的业务
+   * @returns 回收之后，引用数量归零的业务
+   */
+  async reclaim(holder: string, businesses: Business[]) {
+    return this.__exclusive("reclaim", async () => {
+      const reclaimed: Business[] = [];
+      if (holder === this.__tabId) {
+        return reclaimed;
+      }
+
+      for (const f of uniqBy(businesses, (b) => b.id)) {
+        const ref = await this.__read(f.id);
+        if (isNil(ref) || isNil(ref.leases[holder])) {
+          continue;
+        }
+
+        const held = this.__holdings.get(f.id);
+        const reference = held ? held.reference : 0;
+        if ((await this.__lease("reclaim", f, reference, [holder])) === 0) {
+          reclaimed.push(f);
+        }
+      }
+      return reclaimed;
+    });
+  }
+
+  /**
+   * 回收其他Browser Tab过期的租约
+   *
+   * @returns 回收之后，引用数量归零的业务
+   */
+  async sweep() {
+    return this.__exclusive("sweep", async () => {
+      const now = Date.now();
+      const index = await this.__readIndex();
+
+      const reclaimed: Business[] = [];
+      for (const followId of index) {
+        const ref = await this.__read(followId);
+        if (isNil(ref)) {
+          await this.__unindex(followId);
+          this.__setReference(followId, null);
+          continue;
+        }
+
+        const expired = filter(
+          Object.keys(ref.leases),
+          (tabId) =>
+            tabId !== this.__tabId && ref.leases[tabId].expiresAt <= now
+        );
+        if (expired.length === 0) {
+          continue;
+        }
+
+        console.info(
+          `${new Date().toLocaleString("zh-CN", {
+            hour12: false,
+          })} BusinessReferenceManager#sweep: reclaim ${
+            expired.length
+          } expired leases of ${followId}`
+        );
+
+        const business = Business.create({
+          subject: ref.business.subject,
+          bid: isNil(ref.business.bid) ? undefined : ref.business.bid,
+        });
+        const held = this.__holdings.get(followId);
+        const reference = held ? held.reference : 0;
+        if ((await this.__lease("sweep", business, reference)) === 0) {
+          reclaimed.push(business);
+        }
+      }
+      return reclaimed;
+    });
   }
+
+  /**
+   * 定期续约、回收过期租约，并且监听其他Browser Tab对引用的修改
+   */
+  start() {
+    if (this.__timer !== null) {
+      return;
+    }
+
+    this.__timer = setInterval(() => {
+      this.__ticking = this.__ticking.then(this.__tick);
+    }, this.__policy.interval);
+
+    const { cache } = this.__env;
+    if (isFunction(cache.subscribe)) {
+      this.__unobserve = cache.subscribe(this.__handleCacheChange);
+    }
+    this.__ticking = this.__hydrate().catch((error) => {
+      console.error(
+        `${new Date().toLocaleString("zh-CN", {
+          hour12: false,
+        })} BusinessReferenceManager: failed to load references\n  ${error}`
+      );
+    });
+  }
+
+  /**
+   * 停止续约、回收过期租约，不再监听其他Browser Tab对引用的修改
+   *
+   * @returns 正在执行的加载、续约和回收结束之后完成，停止之后不再调用onRestore、onReclaim
+   */
+  async stop() {
+    if (this.__timer !== null) {
+      clearInterval(this.__timer);
+    }
+    this.__timer = null;
+    this.__unobserve();
+    this.__unobserve = () => undefined;
+    await this.__ticking;
+  }
+
+  private __tick = async () => {
+    try {
+      const restored = await this.renew();
+      if (restored.length > 0 && this.__timer !== null) {
+        this.__onRestore(restored);
+      }
+      const reclaimed = await this.sweep();
+      if (reclaimed.length > 0 && this.__timer !== null) {
+        this.__onReclaim(reclaimed);
+      }
+    } catch (error) {
+      console.error(
+        `${new Date().toLocaleString("zh-CN", {
+          hour12: false,
+        })} BusinessReferenceManager: failed to renew or sweep leases\n  ${error}`
+      );
+    }
+  };
 }
 
-export { BusinessReferenceManager };
+export { BusinessReferenceManager, DEFAULT_REFERENCE_LEASE_POLICY };
+export type { ReferenceConflict };
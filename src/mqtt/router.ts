@@ -0,0 +1,99 @@
+import { get, isNil, isString } from "lodash";
+
+import type { Business } from "./business";
+import type { MessageRoutingOptions, MqttPayload } from "./constants";
+import { MessageRoutingFallback } from "./constants";
+
+const DEFAULT_MESSAGE_ROUTING_OPTIONS: MessageRoutingOptions = {
+  bidKeyPath: "payload.bid",
+  bidKeyPaths: {},
+  fallback: MessageRoutingFallback.Broadcast,
+};
+
+/**
+ * 根据bid，把Mqtt消息路由给对应的业务
+ *
+ * @remarks
+ *
+ * 以前MqttServiceWorker只根据subject判断消息是不是属于自己，
+ *   AA和BB关注了同一个subject，但是bid不同的时候，双方都会收到对方的消息。
+ *
+ * MessageRouter从{@link MqttPayload}中提取bid，只有bid与{@link Business#bid}相同的业务才会收到消息：
+ *
+ * 1. 业务没有bid，收到该subject下的所有消息
+ * 2. 消息没有携带bid，按照{@link MessageRoutingFallback}处理
+ * 3. 否则比较bid（统一转换成字符串再比较，API返回的bid可能是number，也可能是string）
+ *
+ * @example
+ *
+ * const router = MessageRouter.create({
+ *   bidKeyPaths: {
+ *     [IMP_WEB_SUBJECT.LOG_DETAIL]: "payload.data.deviceId",
+ *   },
+ * });
+ */
+class MessageRouter {
+  private __options: MessageRoutingOptions;
+
+  static create(options: Partial<MessageRoutingOptions> = {}) {
+    return new MessageRouter(options);
+  }
+
+  constructor(options: Partial<MessageRoutingOptions> = {}) {
+    this.__options = {
+      ...DEFAULT_MESSAGE_ROUTING_OPTIONS,
+      ...options,
+      bidKeyPaths: {
+        ...DEFAULT_MESSAGE_ROUTING_OPTIONS.bidKeyPaths,
+        ...options.bidKeyPaths,
+      },
+    };
+  }
+
+  get options() {
+    return this.__options;
+  }
+
+  /**
+   * 从Mqtt消息中提取bid
+   *
+   * @param subject 业务主题，e.g layout_device/status
+   * @param message 解码后的Mqtt消息
+   * @returns bid，消息中没有携带bid的时候返回null
+   */
+  extractBid(subject: string, message: MqttPayload) {
+    const { bidKeyPath, bidKeyPaths } = this.__options;
+    const keyPath = bidKeyPaths[subject] || bidKeyPath;
+    const bid = get(message, keyPath);
+    if (isNil(bid) || (isString(bid) && bid.length === 0)) {
+      return null;
+    }
+    return String(bid);
+  }
+
+  /**
+   * 判断Mqtt消息是否属于业务
+   *
+   * @param f IMP-WEB业务
+   * @param message 解码后的Mqtt消息
+   * @returns
+   *
+   * @remarks
+   *
+   * 调用方需要先确认消息的subject与业务的subject相同
+   */
+  isMine(f: Business, message: MqttPayload) {
+    if (isNil(f.bid)) {
+      return true;
+    }
+
+    const bid = this.extractBid(f.subject, message);
+    if (isNil(bid)) {
+      return this.__options.fallback === MessageRoutingFallback.Broadcast;
+    }
+
+    return bid === String(f.bid);
+  }
+}
+
+export { DEFAULT_MESSAGE_ROUTING_OPTIONS, MessageRouter };
@@ -0,0 +1,220 @@
+import { isNil } from "lodash";
+import type { IPublishPacket, Packet } from "mqtt";
+
+import type { MqttPayload } from "./constants";
+import { MqttRpcError, MqttRpcErrorCode } from "./errors";
+
+/**
+ * 默认的RPC超时时间，毫秒
+ */
+const DEFAULT_RPC_TIMEOUT = 10000;
+
+/**
+ * 把Mqtt消息的payload解码成字符串
+ *
+ * @param payload Mqtt消息的payload
+ * @returns
+ *
+ * @remarks
+ *
+ * MqttClient派发的是Buffer，经过SharedWorker转发之后变成Uint8Array，其他Transport也可能直接派发字符串
+ */
+function decodePayload(payload: string | Uint8Array) {
+  return typeof payload === "string"
+    ? payload
+    : new TextDecoder().decode(payload);
+}
+
+/**
+ * 把请求序号编码成MQTT 5.0 Correlation Data
+ *
+ * @param seq 请求序号
+ * @returns
+ */
+function encodeCorrelationData(seq: string) {
+  return new TextEncoder().encode(seq) as Buffer;
+}
+
+/**
+ * 从MQTT 5.0 响应报文的Correlation Data中解码出请求序号
+ *
+ * @param packet Mqtt packet
+ * @returns 请求序号，响应报文没有携带Correlation Data的时候为null
+ *
+ * @remarks
+ *
+ * 通过SharedWorker转发的packet经过了structured clone，Buffer会变成Uint8Array，TextDecoder两者都能处理
+ */
+function decodeCorrelationData(packet: Packet | undefined) {
+  if (isNil(packet) || packet.cmd !== "publish") {
+    return null;
+  }
+
+  const { properties } = packet as IPublishPacket;
+  if (isNil(properties) || isNil(properties.correlationData)) {
+    return null;
+  }
+  return decodePayload(properties.correlationData);
+}
+
+type PendingRequest = {
+  resolve: (message: MqttPayload<any>) => void;
+  reject: (error: Error) => void;
+  cleanup: () => void;
+};
+
+/**
+ * 管理基于Mqtt的RPC请求，根据seq把响应和请求关联起来
+ *
+ * @remarks
+ *
+ * 请求发布到TOPIC.SERVER命名空间，服务端通过TOPIC.CLIENT命名空间回复，
+ *   响应消息中的seq与请求的seq相同。
+ *   使用MQTT 5.0的时候，请求同时携带Response Topic和Correlation Data，
+ *   服务端原样返回Correlation Data，参考{@link decodeCorrelationData}
+ *
+ * RpcClient本身不关心消息怎么收发，因此ClassicalTransport和SharedWorkerTransport的表现完全一致。
+ */
+class RpcClient {
+  private __pending = new Map</** seq */ string, PendingRequest>();
+
+  static create() {
+    return new RpcClient();
+  }
+
+  /**
+   * 尚未完成的请求数量
+   */
+  get size() {
+    return this.__pending.size;
+  }
+
+  /**
+   * 取消所有尚未完成的请求
+   *
+   * @param code 错误码
+   */
+  dispose(code: MqttRpcErrorCode = MqttRpcErrorCode.Disposed) {
+    const pending = Array.from(this.__pending.entries());
+    this.__pending.clear();
+    pending.forEach(([seq, p]) => {
+      p.cleanup();
+      p.reject(new MqttRpcError(code, `Request ${seq} is disposed`, seq));
+    });
+  }
+
+  /**
+   * 登记一个请求，等待响应
+   *
+   * @param seq 请求序号
+   * @param publish 发布请求，请求结束（包括超时、取消）之后，传入的AbortSignal会被中止，还在离线发布队列中的请求不再发布
+   * @param options.timeout 超时时间，毫秒，默认值{@link DEFAULT_RPC_TIMEOUT}
+   * @param options.signal 用于取消请求
+   * @returns 响应消息
+   */
+  request<T>(
+    seq: string,
+    publish: (signal: AbortSignal) => void | Promise<unknown>,
+    options: { signal?: AbortSignal; timeout?: number } = {}
+  ) {
+    const { signal, timeout = DEFAULT_RPC_TIMEOUT } = options;
+
+    return new Promise<MqttPayload<T>>((resolve, reject) => {
+      if (!isNil(signal) && signal.aborted) {
+        return reject(
+          new MqttRpcError(
+            MqttRpcErrorCode.Aborted,
+            `Request ${seq} is aborted`,
+            seq
+          )
+        );
+      }
+
+      const handleAbort = () => {
+        this.__settle(seq, (p) => {
+          p.reject(
+            new MqttRpcError(
+              MqttRpcErrorCode.Aborted,
+              `Request ${seq} is aborted`,
+              seq
+            )
+          );
+        });
+      };
+
+      const published = new AbortController();
+      const timer = setTimeout(() => {
+        this.__settle(seq, (p) => {
+          p.reject(
+            new MqttRpcError(
+              MqttRpcErrorCode.Timeout,
+              `Request ${seq} timed out after ${timeout}ms`,
+              seq
+            )
+          );
+        });
+      }, timeout);
+
+      if (!isNil(signal)) {
+        signal.addEventListener("abort", handleAbort);
+      }
+
+      this.__pending.set(seq, {
+        resolve,
+        reject,
+        cleanup: () => {
+          clearTimeout(timer);
+          published.abort();
+          if (!isNil(signal)) {
+            signal.removeEventListener("abort", handleAbort);
+          }
+        },
+      });
+
+      Promise.resolve()
+        .then(() => publish(published.signal))
+        .catch((error: Error) => {
+          this.__settle(seq, (p) => {
+            p.reject(error);
+          });
+        });
+    });
+  }
+
+  /**
+   * 如果Mqtt消息是某个请求的响应，完成对应的请求
+   *
+   * @param message 解码后的Mqtt消息
+   * @returns 消息是否是某个请求的响应
+   */
+  resolve(message: MqttPayload) {
+    const seq = message.seq;
+    if (isNil(seq) || !this.__pending.has(String(seq))) {
+      return false;
+    }
+
+    this.__settle(String(seq), (p) => {
+      p.resolve(message);
+    });
+    return true;
+  }
+
+  private __settle(seq: string, settle: (p: PendingRequest) => void) {
+    const p = this.__pending.get(seq);
+    if (isNil(p)) {
+      return;
+    }
+
+    this.__pending.delete(seq);
+    p.cleanup();
+    settle(p);
+  }
+}
+
+export {
+  DEFAULT_RPC_TIMEOUT,
+  RpcClient,
+  decodeCorrelationData,
+  decodePayload,
+  encodeCorrelationData,
+};
@@ -0,0 +1,1162 @@
+import { each, filter, isArray, isNil, map } from "lodash";
+import type {
+  ClientSubscribeCallback,
+  CloseCallback,
+  IClientPublishOptions,
+  IClientSubscribeOptions,
+  IConnackPacket,
+  IDisconnectPacket,
+  ISubscriptionGrant,
+  MqttClient,
+} from "mqtt";
+import mqtt from "mqtt";
+
+import type {
+  ClientOptions,
+  HeartbeatPolicy,
+  MqttStoreKind,
+  ReconnectPolicy,
+  ReconnectSchedule,
+  TransportCredentials,
+} from "./constants";
+import { MqttEvent, MqttProtocolVersion, MqttQoS } from "./constants";
+import { MqttNotConnectedError, MqttTransportError } from "./errors";
+import { LastMessageCache } from "./last_message_cache";
+import { openMqttStores } from "./mqtt_store";
+import { ReconnectScheduler } from "./reconnect_policy";
+import type {
+  WorkerBusiness,
+  WorkerMessage,
+  WorkerReply,
+} from "./shared_worker_constants";
+import {
+  DEFAULT_HEARTBEAT_POLICY,
+  SharedWorkerMessage,
+  WorkerAction,
+  WorkerFeedback,
+} from "./shared_worker_constants";
+import { SubscriptionRegistry } from "./subscription_registry";
+
+/**
+ * 决定一个Mqtt连接归属于谁的参数，不包含密码
+ */
+type ConnectionIdentity = {
+  brokerUrl: string;
+  clientId: string;
+  username: string | undefined;
+  /** 不同协议版本的连接，RPC、错误处理的方式都不一样，不能共享 */
+  protocolVersion: MqttProtocolVersion;
+};
+
+function getConnectionIdentity(
+  brokerUrl: string,
+  opts: ClientOptions
+): ConnectionIdentity {
+  return {
+    brokerUrl,
+    clientId: opts.clientId,
+    username: opts.username,
+    protocolVersion: opts.protocolVersion || MqttProtocolVersion.V311,
+  };
+}
+
+/**
+ * 比较两个连接身份
+ *
+ * @returns 不一致的字段
+ *
+ * @remarks
+ *
+ * SharedWorker以clientId命名（参考SharedWorkerTransport），因此clientId不一致的Browser Tab通常连接的是另外一个SharedWorker，
+ *   这里主要防范的是其他Browser Tab登录了另外一个用户（username），或者连接的是另外一个mqttHost（brokerUrl），
+ *   或者使用了另外一个协议版本（protocolVersion）
+ */
+function diffConnectionIdentity(
+  ours: ConnectionIdentity,
+  theirs: ConnectionIdentity
+) {
+  return filter(
+    ["brokerUrl", "clientId", "username", "protocolVersion"] as Array<
+      keyof ConnectionIdentity
+    >,
+    (k) => ours[k] !== theirs[k]
+  );
+}
+
+/**
+ * 初始化SharedWorker
+ *
+ * @see [Debugging Web Workers](https://lihautan.com/Debugging%20web%20workers/)
+ *
+ * @remarks
+ *
+ * 在Chrome打开以下链接进行调试：
+ *
+ * chrome://inspect/#workers
+ *
+ * @remarks
+ *
+ * 在我的设计中，
+ *   一个Browser tab只有一个MqttService对象实例，
+ *   MqttService会创建一个共享的SharedWorkerTransport，SharedWorkerTransport则会创建一个SharedWorker
+ *
+ * 依赖关系如下所示：
+ *
+ * BrowserTab -> MqttService -> SharedWorkerTransport -> SharedWorker
+ *
+ * 整个体系的逻辑结构如下：
+ *
+ *         |- BrowserTab -> MqttService -> SharedWorkerTransport -|
+ * Browser |- BrowserTab -> MqttService -> SharedWorkerTransport -|-> SharedWorker
+ *         |- BrowserTab -> MqttService -> SharedWorkerTransport -|
+ *
+ * 消息流如下：
+ *
+ *         |- BrowserTab <- MqttService <- SharedWorkerTransport <-|
+ * Browser |- BrowserTab <- MqttService <- SharedWorkerTransport <-|-- SharedWorker（broadcast, sometimes unicast）
+ *         |- BrowserTab <- MqttService <- SharedWorkerTransport <-|
+ *
+ * 其中Mqtt消息只会multicast给订阅了匹配主题的Browser Tab（参见SubscriptionRegistry）
+ *
+ * @param g SharedWorker的全局作用域，只用到了onconnect，因此测试的时候可以传入模拟的全局作用域
+ */
+function bootSharedWorker(g: SharedWorkerGlobalScope) {
+  const ports = new Set<MessagePort>([]);
+
+  const broadcast = (message: WorkerMessage) => {
+    console.info(
+      `${new Date().toLocaleString("zh-CN", {
+        hour12: false,
+      })} SharedWorker: broadcast feedback to ${
+        ports.size
+      } ports\n${JSON.stringify(message)}`
+    );
+
+    ports.forEach((port) => {
+      port.postMessage(message);
+    });
+  };
+
+  const unicast = (message: WorkerMessage, port: MessagePort) => {
+    console.info(
+      `${new Date().toLocaleString("zh-CN", {
+        hour12: false,
+      })} SharedWorker: unicast feedback to ${
+        ports.size
+      } ports\n  ${JSON.stringify(message)}`
+    );
+    port.postMessage(message);
+  };
+
+  const multicast = (message: WorkerMessage, targets: MessagePort[]) => {
+    console.info(
+      `${new Date().toLocaleString("zh-CN", {
+        hour12: false,
+      })} SharedWorker: multicast feedback to ${targets.length}/${
+        ports.size
+      } ports\n  ${JSON.stringify(message)}`
+    );
+
+    each(targets, (port) => {
+      port.postMessage(message);
+    });
+  };
+
+  /**
+   * 响应Browser Tab发送的指令，只会单播给发送指令的Browser Tab
+   *
+   * @param port 发送指令的Browser Tab
+   * @param id 指令的关联ID，没有关联ID说明Browser Tab不需要响应
+   * @param error 执行指令的错误
+   * @param result 执行指令的结果
+   */
+  const reply = (
+    port: MessagePort,
+    id: string | undefined,
+    error: Error | null,
+    result: any
+  ) => {
+    if (isNil(id)) {
+      return;
+    }
+
+    const args: WorkerReply = isNil(error)
+      ? { result }
+      : { error: MqttTransportError.from(error).toJSON() };
+    unicast(
+      SharedWorkerMessage.create({
+        args,
+        id,
+        type: WorkerFeedback.Reply,
+      }),
+      port
+    );
+  };
+
+  /** 每一个Browser Tab最后一次发送消息（包括Pong）的时间 */
+  const lastSeen = new Map<MessagePort, number>();
+  /** 每一个Browser Tab上报的、关注的业务，以及业务引用租约的持有者 */
+  const portBusinesses = new Map<
+    MessagePort,
+    { businesses: WorkerBusiness[]; holder: string | null }
+  >();
+  /**
+   * 已经调用了end，但是仍然需要接收WorkerFeedback.MqttEnd的Browser Tab
+   */
+  const endingPorts = new Set<MessagePort>();
+
+  const addActivatedPort = (port: MessagePort) => {
+    ports.add(port);
+    lastSeen.set(port, Date.now());
+    endingPorts.delete(port);
+  };
+
+  const removeDeactivatedPort = (port: MessagePort) => {
+    ports.delete(port);
+    lastSeen.delete(port);
+  };
+
+  const touchPort = (port: MessagePort) => {
+    if (ports.has(port)) {
+      lastSeen.set(port, Date.now());
+    }
+  };
+
+  let isMqttClientSettled = false;
+  let isSettingUpMqttClient = false;
+  let mqttClient: MqttClient | null = null;
+  /** 当前Mqtt Client的连接身份，参考{@link getConnectionIdentity} */
+  let connectionIdentity: ConnectionIdentity | null = null;
+  /** 是否有Browser Tab主动调用了end，主动结束的连接不需要重连 */
+  let isMqttClientEnding = false;
+  let reconnectScheduler = ReconnectScheduler.create();
+  /**
+   * 每一个Browser Tab订阅了哪些主题
+   *
+   * @remarks
+   *
+   * 所有Browser Tab共享同一个Mqtt Client，因此只有最后一个订阅者取消订阅的时候，才会向Broker发送UNSUBSCRIBE
+   */
+  const subscriptions = SubscriptionRegistry.create<MessagePort>();
+  /**
+   * 每一个主题的最后一条消息，后加入的Browser Tab可以请求重放（WorkerAction.MqttReplay）
+   */
+  const lastMessages = LastMessageCache.create<MessagePort>();
+  /** 最近一次成功连接时Broker返回的CONNACK */
+  let lastConnack: IConnackPacket | null = null;
+
+  /**
+   * 释放Browser Tab的所有订阅，没有订阅者的主题会向Broker取消订阅
+   *
+   * @param port
+   */
+  const releaseSubscriptions = (port: MessagePort) => {
+    const stale = subscriptions.releaseAll(port);
+    if (mqttClient === null || stale.length === 0) {
+      return;
+    }
+
+    mqttClient.unsubscribe(stale, (error?: Error) => {
+      if (error) {
+        console.error(
+          `${new Date().toLocaleString("zh-CN", {
+            hour12: false,
+          })} SharedWorker/MqttClient: failed to unsubscribe ${stale}, ${error}`
+        );
+      }
+    });
+  };
+
+  /**
+   * 关闭Mqtt Client与Broker之间的连接，主动结束的连接不会重连
+   */
+  const endMqttClient = (
+    force?: boolean,
+    opts?: Object,
+    cb?: CloseCallback
+  ) => {
+    if (mqttClient === null) {
+      return;
+    }
+
+    console.info(
+      `${new Date().toLocaleString("zh-CN", {
+        hour12: false,
+      })} SharedWorker: call mqtt.end to close this mqtt connection`
+    );
+
+    isMqttClientEnding = true;
+    reconnectScheduler.cancel();
+    /** opts不是对象的时候，MqttClient#end会把它当作回调，丢弃真正的回调 */
+    mqttClient.end(force, opts || {}, cb);
+  };
+
+  /**
+   * Browser Tab离开（关闭、失联、调用end）之后，释放它的订阅
+   *
+   * @param port 离开的Browser Tab
+   * @param orphaned 是否需要把它关注的业务转交给其他Browser Tab释放引用
+   * @returns 是否已经没有存活的Browser Tab
+   *
+   * @remarks
+   *
+   * 调用end或者关闭的Browser Tab会自己释放业务引用（MqttService#quit/MqttService#forceQuit），因此orphaned为false；
+   *   失联的Browser Tab（崩溃、被浏览器丢弃）来不及释放，只能由其他Browser Tab代劳
+   */
+  const deactivatePort = (port: MessagePort, orphaned: boolean) => {
+    const { businesses, holder } = portBusinesses.get(port) || {
+      businesses: [],
+      holder: null,
+    };
+
+    releaseSubscriptions(port);
+    removeDeactivatedPort(port);
+    portBusinesses.delete(port);
+
+    const [survivor] = Array.from(ports.values());
+    if (
+      orphaned &&
+      businesses.length > 0 &&
+      !isNil(holder) &&
+      !isNil(survivor)
+    ) {
+      unicast(
+        SharedWorkerMessage.create({
+          args: { businesses, holder },
+          type: WorkerFeedback.OrphanedBusinesses,
+        }),
+        survivor
+      );
+    }
+
+    if (ports.size === 0) {
+      stopHeartbeat();
+      return true;
+    }
+    return false;
+  };
+
+  let heartbeatPolicy: HeartbeatPolicy = DEFAULT_HEARTBEAT_POLICY;
+  let heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+
+  /**
+   * 移除超过{@link HeartbeatPolicy#timeout}没有回应的Browser Tab，然后向其余的Browser Tab发送Ping
+   *
+   * @remarks
+   *
+   * Ping太频繁，因此这里不打印日志
+   */
+  const beat = () => {
+    const now = Date.now();
+    each(Array.from(ports.values()), (port) => {
+      if (now - (lastSeen.get(port) || 0) <= heartbeatPolicy.timeout) {
+        return;
+      }
+
+      console.info(
+        `${new Date().toLocaleString("zh-CN", {
+          hour12: false,
+        })} SharedWorker: evict port without heartbeat for ${
+          heartbeatPolicy.timeout
+        }ms`
+      );
+
+      port.close();
+      if (deactivatePort(port, true)) {
+        endMqttClient(true);
+      }
+    });
+
+    ports.forEach((port) => {
+      port.postMessage(
+        SharedWorkerMessage.create({
+          args: {},
+          type: WorkerFeedback.Ping,
+        })
+      );
+    });
+  };
+
+  const startHeartbeat = (policy: Partial<HeartbeatPolicy> = {}) => {
+    if (heartbeatTimer !== null) {
+      return;
+    }
+
+    heartbeatPolicy = {
+      ...DEFAULT_HEARTBEAT_POLICY,
+      ...policy,
+    };
+    heartbeatTimer = setInterval(beat, heartbeatPolicy.interval);
+  };
+
+  const stopHeartbeat = () => {
+    if (heartbeatTimer !== null) {
+      clearInterval(heartbeatTimer);
+    }
+    heartbeatTimer = null;
+  };
+
+  /**
+   * 连接关闭之后，按照重连策略安排下一次重连，并且广播重连计划
+   *
+   * @param client
+   */
+  const scheduleReconnect = (client: MqttClient) => {
+    if (isMqttClientEnding) {
+      return;
+    }
+
+    const scheduled = reconnectScheduler.schedule(() => {
+      if (isMqttClientEnding) {
+        return;
+      }
+      client.reconnect();
+    });
+
+    if (!scheduled) {
+      console.warn(
+        `${new Date().toLocaleString("zh-CN", {
+          hour12: false,
+        })} SharedWorker/MqttClient: reconnect exhausted`
+      );
+
+      broadcast(
+        SharedWorkerMessage.create({
+          args: {
+            attempts: reconnectScheduler.attempts,
+          },
+          type: WorkerFeedback.MqttReconnectExhausted,
+        })
+      );
+      return;
+    }
+
+    const schedule: ReconnectSchedule = {
+      attempts: reconnectScheduler.attempts,
+      nextReconnectAt: reconnectScheduler.nextReconnectAt,
+    };
+    broadcast(
+      SharedWorkerMessage.create({
+        args: schedule,
+        type: WorkerFeedback.MqttReconnectScheduled,
+      })
+    );
+  };
+
+  const constructMqttClient = (
+    brokerUrl: string,
+    opts: ClientOptions,
+    reconnectPolicy: Partial<ReconnectPolicy> = {}
+  ) => {
+    isMqttClientEnding = false;
+    reconnectScheduler = ReconnectScheduler.create(reconnectPolicy);
+
+    /**
+     * 关闭MqttClient的自动重连，重连交给{@link ReconnectScheduler}
+     */
+    const client = mqtt.connect(brokerUrl, { ...opts, reconnectPeriod: 0 });
+
+    client.on(MqttEvent.Connect, (connack: IConnackPacket) => {
+      console.info(
+        `${new Date().toLocaleString("zh-CN", {
+          hour12: false,
+        })} SharedWorker/MqttClient: Connect`
+      );
+
+      reconnectScheduler.reset();
+      lastConnack = connack;
+
+      broadcast(
+        SharedWorkerMessage.create({
+          args: {
+            connack,
+          },
+          type: WorkerFeedback.MqttConnect,
+        })
+      );
+    });
+    client.on(MqttEvent.Reconnect, () => {
+      console.info(
+        `${new Date().toLocaleString("zh-CN", {
+          hour12: false,
+        })} SharedWorker/MqttClient: Reconnect`
+      );
+
+      broadcast(
+        SharedWorkerMessage.create({
+          args: {},
+          type: WorkerFeedback.MqttReconnect,
+        })
+      );
+    });
+    client.on(MqttEvent.Close, () => {
+      console.warn(
+        `${new Date().toLocaleString("zh-CN", {
+          hour12: false,
+        })} SharedWorker/MqttClient: Close`
+      );
+
+      broadcast(
+        SharedWorkerMessage.create({
+          args: {},
+          type: WorkerFeedback.MqttClose,
+        })
+      );
+
+      scheduleReconnect(client);
+    });
+    client.on(MqttEvent.Disconnect, (packet: IDisconnectPacket) => {
+      console.warn(
+        `${new Date().toLocaleString("zh-CN", {
+          hour12: false,
+        })} SharedWorker/MqttClient: Disconnect`
+      );
+
+      broadcast(
+        SharedWorkerMessage.create({
+          args: {
+            packet,
+          },
+          type: WorkerFeedback.MqttDisconnect,
+        })
+      );
+    });
+    client.on(MqttEvent.Offline, () => {
+      console.warn(
+        `${new Date().toLocaleString("zh-CN", {
+          hour12: false,
+        })} SharedWorker/MqttClient: Offline`
+      );
+
+      broadcast(
+        SharedWorkerMessage.create({
+          args: {},
+          type: WorkerFeedback.MqttOffline,
+        })
+      );
+    });
+    client.on(MqttEvent.Error, (error: Error) => {
+      console.error(
+        `${new Date().toLocaleString("zh-CN", {
+          hour12: false,
+        })} SharedWorker/MqttClient: ${error}`
+      );
+
+      broadcast(
+        SharedWorkerMessage.create({
+          args: {
+            error: MqttTransportError.from(error).toJSON(),
+          },
+          type: WorkerFeedback.MqttError,
+        })
+      );
+    });
+    client.on(MqttEvent.End, () => {
+      console.info(
+        `${new Date().toLocaleString("zh-CN", {
+          hour12: false,
+        })} SharedWorker/MqttClient: End`
+      );
+
+      /**
+       * 一旦Mqtt Client成功关闭了与Broker之间的连接，SharedWorker会广播WorkerFeedback.MqttEnd消息给所有的Browser Tabs。
+       *
+       * Browser Tabs需要根据情况进一步处理，有几种场景：
+       *
+       * 1. 用户主动登出（MqttService#quit）
+       * 2. 用户token过期，强制登出（MqttService#forceQuit）
+       *
+       * 这些时候，需要主动跳转到Sign in页面
+       */
+      broadcast(
+        SharedWorkerMessage.create({
+          args: {},
+          type: WorkerFeedback.MqttEnd,
+        })
+      );
+
+      multicast(
+        SharedWorkerMessage.create({
+          args: {},
+          type: WorkerFeedback.MqttEnd,
+        }),
+        Array.from(endingPorts.values())
+      );
+      endingPorts.clear();
+      subscriptions.clear();
+      lastMessages.clear();
+      lastConnack = null;
+
+      isSettingUpMqttClient = false;
+      isMqttClientSettled = false;
+    });
+    client.on(MqttEvent.Message, (topic, payload, packet) => {
+      console.info(
+        `${new Date().toLocaleString("zh-CN", {
+          hour12: false,
+        })} SharedWorker/MqttClient: Message\n  ${topic}\n  ${new TextDecoder().decode(
+          payload
+        )}`
+      );
+
+      /**
+       * Mqtt消息只会发送给订阅了这个主题的Browser Tab，避免每一个Browser Tab都要解码、过滤所有消息
+       *
+       * 连接、断开、重连等生命周期通知仍然广播给所有Browser Tab
+       */
+      const targets = subscriptions.subscribersMatching(topic);
+      lastMessages.set(topic, payload, packet, targets);
+      multicast(
+        SharedWorkerMessage.create({
+          args: {
+            topic,
+            payload,
+            packet,
+          },
+          type: WorkerFeedback.MqttMessage,
+        }),
+        targets
+      );
+    });
+    return client;
+  };
+
+  /**
+   * 把Mqtt Client真实的连接状态单播给Browser Tab，用于后加入（或者重新加入）的Browser Tab
+   *
+   * @param port
+   */
+  const unicastConnectionSnapshot = (port: MessagePort) => {
+    if (mqttClient === null) {
+      return;
+    }
+
+    if (mqttClient.connected && lastConnack !== null) {
+      unicast(
+        SharedWorkerMessage.create({
+          args: { connack: lastConnack },
+          type: WorkerFeedback.MqttConnect,
+        }),
+        port
+      );
+      return;
+    }
+
+    if (reconnectScheduler.scheduled) {
+      const schedule: ReconnectSchedule = {
+        attempts: reconnectScheduler.attempts,
+        nextReconnectAt: reconnectScheduler.nextReconnectAt,
+      };
+      unicast(
+        SharedWorkerMessage.create({
+          args: schedule,
+          type: WorkerFeedback.MqttReconnectScheduled,
+        }),
+        port
+      );
+      return;
+    }
+
+    if (mqttClient.reconnecting) {
+      unicast(
+        SharedWorkerMessage.create({
+          args: {},
+          type: WorkerFeedback.MqttReconnect,
+        }),
+        port
+      );
+      return;
+    }
+
+    if (reconnectScheduler.exhausted) {
+      unicast(
+        SharedWorkerMessage.create({
+          args: { attempts: reconnectScheduler.attempts },
+          type: WorkerFeedback.MqttReconnectExhausted,
+        }),
+        port
+      );
+      return;
+    }
+
+    unicast(
+      SharedWorkerMessage.create({
+        args: {},
+        type: WorkerFeedback.MqttOffline,
+      }),
+      port
+    );
+  };
+
+  /**
+   * SharedWorkerTransport发送给SharedWorker的指令处理程序
+   */
+  const command: Record<string, any> = {
+    /**
+     * 初始化Mqtt客户端，连接Mqtt Broker
+     *
+     * @remarks
+     *
+     * 这里有一个值得注意的地方，就是并发问题。
+     *
+     * 在当前的设计当中，React层面有一个React组件叫做withMqttService（aka projects\platform\src\components\with_mqtt_service\index.tsx）。
+     *
+     * 当我们打开IMP-WEB其中一个页面，可能同时有2个以上的React UI组件，调用了withMqttService注入Mqtt的相关能力。这时候他们可能会同时发起WorkerAction.MqttConnect请求。
+     *
+     * 此处我使用了双重判断来解决并发的问题。
+     *
+     * @param args
+     * @param port
+     * @returns
+     */
+    [WorkerAction.MqttConnect]: (
+      args: {
+        brokerUrl: string;
+        opts: ClientOptions;
+        reconnectPolicy?: Partial<ReconnectPolicy>;
+        heartbeat?: Partial<HeartbeatPolicy>;
+        store?: MqttStoreKind;
+      },
+      port: MessagePort
+    ) => {
+      const identity = getConnectionIdentity(args.brokerUrl, args.opts);
+      const mismatches =
+        (isSettingUpMqttClient || isMqttClientSettled) &&
+        connectionIdentity !== null
+          ? diffConnectionIdentity(connectionIdentity, identity)
+          : [];
+      if (mismatches.length > 0) {
+        console.error(
+          `${new Date().toLocaleString("zh-CN", {
+            hour12: false,
+          })} SharedWorker: reject port, connection identity mismatch: ${mismatches}`
+        );
+
+        unicast(
+          SharedWorkerMessage.create({
+            args: { mismatches },
+            type: WorkerFeedback.MqttIdentityMismatch,
+          }),
+          port
+        );
+        deactivatePort(port, false);
+        return;
+      }
+
+      addActivatedPort(port);
+      startHeartbeat(args.heartbeat);
+
+      if (isSettingUpMqttClient) {
+        console.info(
+          `${new Date().toLocaleString("zh-CN", {
+            hour12: false,
+          })} SharedWorker: is setting up mqtt client`
+        );
+
+        return;
+      }
+
+      if (isMqttClientSettled) {
+        console.info(
+          `${new Date().toLocaleString("zh-CN", {
+            hour12: false,
+          })} SharedWorker: mqtt client is settled`
+        );
+
+        unicastConnectionSnapshot(port);
+
+        return;
+      }
+
+      isSettingUpMqttClient = true;
+
+      console.info(
+        `${new Date().toLocaleString("zh-CN", {
+          hour12: false,
+        })} SharedWorker: call mqtt.connect to create a mqtt client`
+      );
+
+      const { brokerUrl, opts, reconnectPolicy, store } = args;
+      connectionIdentity = identity;
+
+      /**
+       * 先恢复尚未完成的QoS 1/2 packet，再创建MqttClient，参考{@link openMqttStores}；
+       *   这期间加入的Browser Tab会看到isSettingUpMqttClient，等待Mqtt Client的广播
+       */
+      openMqttStores(opts.clientId, store).then((stores) => {
+        isSettingUpMqttClient = false;
+
+        /** 这期间所有Browser Tab都已经离开（调用end、关闭、失联），不再创建Mqtt Client */
+        if (ports.size === 0) {
+          console.info(
+            `${new Date().toLocaleString("zh-CN", {
+              hour12: false,
+            })} SharedWorker: no port left, abandon setting up mqtt client`
+          );
+
+          connectionIdentity = null;
+          return;
+        }
+
+        mqttClient = constructMqttClient(
+          brokerUrl,
+          { ...opts, ...stores },
+          reconnectPolicy
+        );
+        isMqttClientSettled = true;
+      });
+    },
+
+    /**
+     * 关闭Mqtt Client连接
+     *
+     * @param args
+     * @param port
+     * @returns
+     *
+     * @remarks
+     *
+     * 以下场景会触发WorkerAction.MqttEnd事件：
+     *
+     * 1. 用户主动登出（MqttService#quit）
+     * 2. 用户token过期，强制登出（MqttService#forceQuit）
+     * 3. Browser Tab处于hidden，挂起连接（MqttService#suspend）
+     *
+     * 多个Browser Tab共享同一个Mqtt Client，因此只有最后一个存活的Browser Tab调用end，才会真正关闭连接，
+     *   否则只释放这个Browser Tab的订阅，并且单播WorkerFeedback.MqttEnd给它。
+     *   Mqtt Client还在创建的时候（等待openMqttStores），没有需要关闭的连接，同样直接单播，
+     *   创建完成之后发现没有Browser Tab，就不再创建，参考WorkerAction.MqttConnect
+     *
+     * 一旦成功关闭连接，Mqtt Client会触发end事件，此时SharedWorker会广播WorkerFeedback.MqttEnd消息
+     */
+    /**
+     * Browser Tab结束连接
+     *
+     * @remarks
+     *
+     * 最后一个Browser Tab结束的时候，等Mqtt Client关闭之后才响应，Browser Tab收到响应之后才会调用end的回调
+     */
+    [WorkerAction.MqttEnd]: (
+      args: { force?: boolean; opts?: Object },
+      port: MessagePort,
+      id?: string
+    ) => {
+      const isLastPort = deactivatePort(port, false);
+      if (!isLastPort || isSettingUpMqttClient || mqttClient === null) {
+        unicast(
+          SharedWorkerMessage.create({
+            args: {},
+            type: WorkerFeedback.MqttEnd,
+          }),
+          port
+        );
+        reply(port, id, null, undefined);
+        return;
+      }
+
+      const { force, opts } = args;
+      endingPorts.add(port);
+      endMqttClient(force, opts, () => {
+        reply(port, id, null, undefined);
+      });
+    },
+
+    [WorkerAction.MqttPublish]: (
+      args: {
+        topic: string;
+        message: string;
+        opts: IClientPublishOptions;
+      },
+      port: MessagePort,
+      id?: string
+    ) => {
+      /** Mqtt Client还没有创建，回复错误，消息留在Browser Tab的离线发布队列中，参考OutboundQueue#flush */
+      if (mqttClient === null) {
+        reply(port, id, new MqttNotConnectedError(), undefined);
+        return;
+      }
+
+      const {
+        topic,
+        message,
+        opts = {
+          dup: false,
+          qos: MqttQoS.AtLeastOnce,
+          retain: false,
+        },
+      } = args;
+      mqttClient.publish(topic, message, opts, (error, packet) => {
+        reply(port, id, error || null, packet);
+      });
+    },
+
+    /**
+     * 发起重连
+     *
+     * @remarks
+     *
+     * 如果Mqtt Client仍然保持着连接，只需要单播WorkerFeedback.MqttConnect给Browser Tab，不需要真正重连；
+     *   调用过end的Browser Tab需要重新发送WorkerAction.MqttConnect，参考SharedWorkerTransport#reconnect
+     */
+    [WorkerAction.MqttReconnect]: (args: {}, port: MessagePort) => {
+      if (mqttClient === null) {
+        return;
+      }
+
+      if (mqttClient.connected) {
+        unicastConnectionSnapshot(port);
+        return;
+      }
+
+      if (mqttClient.reconnecting) {
+        return;
+      }
+
+      isMqttClientEnding = false;
+      reconnectScheduler.reset();
+      mqttClient.reconnect();
+    },
+
+    /**
+     * 发起Mqtt主题订阅
+     *
+     * @remarks
+     *
+     * 其他Browser Tab已经订阅过的主题不会重复订阅，但是会登记当前Browser Tab也订阅了这些主题，
+     *   订阅结果只会单播给发起订阅的Browser Tab
+     */
+    [WorkerAction.MqttSubscribe]: (
+      args: {
+        topic: string | string[];
+        options: IClientSubscribeOptions;
+      },
+      port: MessagePort,
+      id?: string
+    ) => {
+      if (mqttClient === null) {
+        reply(port, id, null, []);
+        return;
+      }
+
+      const { topic, options = { qos: MqttQoS.AtLeastOnce } } = args;
+
+      const ts: string[] = subscriptions.acquire(port, topic);
+      const subscribed: ISubscriptionGrant[] = map(
+        filter(isArray(topic) ? topic : [topic], (t) => !ts.includes(t)),
+        (t) => subscriptions.grantOf(t) || { topic: t, qos: options.qos }
+      );
+      if (ts.length === 0) {
+        unicast(
+          SharedWorkerMessage.create({
+            args: {
+              granted: subscribed,
+            },
+            type: WorkerFeedback.MqttSubscribeResolve,
+          }),
+          port
+        );
+        reply(port, id, null, subscribed);
+        return;
+      }
+
+      const callback: ClientSubscribeCallback = (error, granted) => {
+        if (error) {
+          /** 订阅失败，撤销登记，下一次订阅仍然会向Broker发送SUBSCRIBE */
+          subscriptions.release(port, ts);
+
+          unicast(
+            SharedWorkerMessage.create({
+              args: {
+                error: MqttTransportError.from(error).toJSON(),
+              },
+              type: WorkerFeedback.MqttSubscribeReject,
+            }),
+            port
+          );
+          reply(port, id, error, undefined);
+          return;
+        }
+
+        subscriptions.grant(granted);
+
+        unicast(
+          SharedWorkerMessage.create({
+            args: {
+              granted,
+            },
+            type: WorkerFeedback.MqttSubscribeResolve,
+          }),
+          port
+        );
+        reply(port, id, null, [...subscribed, ...granted]);
+      };
+
+      mqttClient.subscribe(ts, options, callback);
+    },
+
+    /**
+     * 重放Browser Tab错过的、匹配主题过滤器的最后一条消息
+     *
+     * @remarks
+     *
+     * 重放的消息和普通消息一样，通过WorkerFeedback.MqttMessage单播给Browser Tab，packet.retain为true。
+     *   同一条消息不会重放两次，因此Browser Tab可以在每一次订阅完成之后请求重放
+     */
+    [WorkerAction.MqttReplay]: (
+      args: { topic: string | string[] },
+      port: MessagePort,
+      id?: string
+    ) => {
+      const { topic } = args;
+      const missed = lastMessages.missedBy(
+        port,
+        isArray(topic) ? topic : [topic]
+      );
+
+      each(missed, (m) => {
+        unicast(
+          SharedWorkerMessage.create({
+            args: {
+              topic: m.topic,
+              payload: m.payload,
+              packet: { ...m.packet, retain: true },
+            },
+            type: WorkerFeedback.MqttMessage,
+          }),
+          port
+        );
+      });
+      reply(port, id, null, missed.length);
+    },
+
+    /**
+     * 更新连接凭证，MqttClient每一次重连都会根据options重新构造CONNECT报文，因此直接修改options即可
+     *
+     * @remarks
+     *
+     * 所有Browser Tab共享同一个Mqtt Client，任何一个Browser Tab刷新了token，都会更新这个Mqtt Client的凭证
+     */
+    [WorkerAction.MqttUpdateCredentials]: (
+      args: TransportCredentials,
+      port: MessagePort
+    ) => {
+      if (mqttClient === null) {
+        return;
+      }
+
+      Object.assign(mqttClient.options, args);
+    },
+
+    /**
+     * 记录Browser Tab关注的业务，Browser Tab关闭或者失联之后，转交给其他Browser Tab释放引用
+     */
+    [WorkerAction.ReportBusinesses]: (
+      args: { businesses: WorkerBusiness[]; holder: string | null },
+      port: MessagePort
+    ) => {
+      portBusinesses.set(port, {
+        businesses: args.businesses || [],
+        holder: isNil(args.holder) ? null : args.holder,
+      });
+    },
+
+    [WorkerAction.MqttUnsubscribe]: (
+      args: {
+        topic: string | string[];
+        opts?: Object;
+      },
+      port: MessagePort,
+      id?: string
+    ) => {
+      if (mqttClient === null) {
+        reply(port, id, null, undefined);
+        return;
+      }
+
+      const { topic, opts } = args;
+      /** 其他Browser Tab仍然订阅的主题，只释放当前Browser Tab的登记，不向Broker发送UNSUBSCRIBE */
+      const ts: string[] = subscriptions.release(port, topic);
+      if (ts.length === 0) {
+        reply(port, id, null, undefined);
+        return;
+      }
+
+      mqttClient.unsubscribe(ts, opts, (error, packet) => {
+        reply(port, id, error || null, packet);
+      });
+    },
+  };
+
+  /**
+   * 调用new SharedWorker的时候，会触发SharedWorker#connect事件
+   *
+   * @param event
+   */
+  const handleConnect = (event: MessageEvent) => {
+    const port = event.ports[0];
+
+    addActivatedPort(port);
+
+    const handlePortMessage = (ev: MessageEvent<WorkerMessage>) => {
+      const cmd = ev.data;
+      const args = cmd.args;
+      const type = cmd.type;
+
+      /** 任何消息都说明Browser Tab仍然存活 */
+      touchPort(port);
+
+      if (type === WorkerAction.Pong) {
+        return;
+      }
+
+      console.info(
+        `${new Date().toLocaleString("zh-CN", {
+          hour12: false,
+        })} SharedWorker: receive command, type: ${type}, args: ${JSON.stringify(
+          args
+        )}`
+      );
+
+      if (type === WorkerAction.BeforeBrowserTabUnload) {
+        if (deactivatePort(port, false)) {
+          endMqttClient(true);
+        }
+        port.removeEventListener("message", handlePortMessage);
+        port.close();
+        return;
+      }
+
+      /**
+       * 调用过end、失联、或者连接身份不一致的Browser Tab，必须重新发送WorkerAction.MqttConnect，
+       *   否则它的订阅、上报的业务无人释放；需要响应的指令回复错误，避免Browser Tab一直等待
+       */
+      if (type !== WorkerAction.MqttConnect && !ports.has(port)) {
+        console.warn(
+          `${new Date().toLocaleString("zh-CN", {
+            hour12: false,
+          })} SharedWorker: reject command from inactive port, type: ${type}`
+        );
+
+        reply(
+          port,
+          cmd.id,
+          new Error(`Inactive port, ${WorkerAction.MqttConnect} first`),
+          undefined
+        );
+        return;
+      }
+
+      const execute = command[type];
+      if (execute) {
+        execute(args, port, cmd.id);
+      }
+    };
+
+    port.addEventListener("message", handlePortMessage);
+    port.start();
+  };
+
+  g.onconnect = handleConnect;
+}
+
+export { bootSharedWorker };
@@ -1,3 +1,6 @@
+import type { HeartbeatPolicy } from "./constants";
+import type { SerializedMqttError } from "./errors";
+
 /**
  * Browser Tab发送给SharedWorker的指令类型
  */
@@ -14,6 +17,14 @@ enum WorkerAction {
   MqttSubscribe = "MqttSubscribe",
   /** 取消Mqtt主题订阅 */
   MqttUnsubscribe = "MqttUnsubscribe",
+  /** 请求重放错过的最后一条消息 */
+  MqttReplay = "MqttReplay",
+  /** 更新连接凭证，下一次重连的时候生效 */
+  MqttUpdateCredentials = "MqttUpdateCredentials",
+  /** 回应SharedWorker的心跳 */
+  Pong = "Pong",
+  /** 上报当前Browser Tab关注的业务 */
+  ReportBusinesses = "ReportBusinesses",
   /** 有时候用户会选择直接关闭Browser tab，在那之前，我们需要做一些资源回收的操作 */
   BeforeBrowserTabUnload = "BeforeBrowserTabUnload",
 }
@@ -24,6 +35,10 @@ enum WorkerAction {
 enum WorkerFeedback {
   MqttConnect = "MqttConnect",
   MqttReconnect = "MqttReconnect",
+  /** 已经安排了下一次重连 */
+  MqttReconnectScheduled = "MqttReconnectScheduled",
+  /** 超过了最大重连次数，不再重连 */
+  MqttReconnectExhausted = "MqttReconnectExhausted",
   MqttClose = "MqttClose",
   MqttDisconnect = "MqttDisconnect",
   MqttOffline = "MqttOffline",
@@ -32,6 +47,16 @@ enum WorkerFeedback {
   MqttMessage = "MqttMessage",
   MqttSubscribeReject = "MqttSubscribeReject",
   MqttSubscribeResolve = "MqttSubscribeResolve",
+  /** 连接参数和SharedWorker中已有的连接不一致，SharedWorker拒绝了当前Browser Tab */
+  MqttIdentityMismatch = "MqttIdentityMismatch",
+  /** 心跳，Browser Tab需要回应{@link WorkerAction.Pong} */
+  Ping = "Ping",
+  /** 其他Browser Tab失联，转交给当前Browser Tab释放的业务 */
+  OrphanedBusinesses = "OrphanedBusinesses",
+  /** 当前Browser Tab成为Leader，其他Browser Tab需要重新登记连接和订阅，仅BroadcastChannelTransport使用 */
+  LeaderElected = "LeaderElected",
+  /** 对某一条指令的响应，只会单播给发送指令的Browser Tab，参考{@link WorkerMessage#id} */
+  Reply = "Reply",
 }
 
 /**
@@ -39,14 +64,57 @@ enum WorkerFeedback {
  */
 type WorkerMessage<T = any> = {
   args: T;
+  /**
+   * 关联ID，需要响应的指令会携带关联ID，SharedWorker通过{@link WorkerFeedback.Reply}响应同一个关联ID
+   */
+  id?: string;
   type: WorkerAction | WorkerFeedback;
 };
 
+/**
+ * {@link WorkerFeedback.Reply}的参数
+ *
+ * @remarks
+ *
+ * Error对象无法完整地通过postMessage传递（自定义属性会丢失），因此这里只传递可序列化的部分，参考{@link MqttTransportError}
+ */
+type WorkerReply<T = any> = {
+  error?: SerializedMqttError;
+  result?: T;
+};
+
+/**
+ * Browser Tab上报给SharedWorker的业务，Business对象无法通过postMessage传递，因此只传递可序列化的部分
+ */
+type WorkerBusiness = {
+  subject: string;
+  bid: number | string;
+};
+
+/**
+ * 默认的心跳策略：每10秒一次，30秒没有回应视为失联
+ */
+const DEFAULT_HEARTBEAT_POLICY: HeartbeatPolicy = {
+  interval: 10000,
+  timeout: 30000,
+};
+
+/**
+ * 等待指令响应的超时时间，毫秒，超时之后不再等待，参考{@link MqttRequestTimeoutError}
+ */
+const WORKER_REQUEST_TIMEOUT = 10000;
+
 class SharedWorkerMessage {
   static create(sn: WorkerMessage) {
     return sn;
   }
 }
 
-export { SharedWorkerMessage, WorkerAction, WorkerFeedback };
-export type { WorkerMessage };
+export {
+  DEFAULT_HEARTBEAT_POLICY,
+  SharedWorkerMessage,
+  WORKER_REQUEST_TIMEOUT,
+  WorkerAction,
+  WorkerFeedback,
+};
+export type { WorkerBusiness, WorkerMessage, WorkerReply };
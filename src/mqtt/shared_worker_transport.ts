@@ -1,4 +1,14 @@
-import { each, isArray, isFunction, isNil, isString } from "lodash";
+import {
+  each,
+  filter,
+  flatten,
+  isArray,
+  isFunction,
+  isNil,
+  isString,
+  map,
+  uniqueId,
+} from "lodash";
 import type {
   CloseCallback,
   IClientPublishOptions,
@@ -10,10 +20,20 @@ import type {
   PacketCallback,
 } from "mqtt";
 
-import type { Callable, ClientOptions, ITransport } from "./constants";
+import type { Business } from "./business";
+import type {
+  Callable,
+  HeartbeatPolicy,
+  ITransport,
+  ReconnectSchedule,
+  TransportConnection,
+  TransportCredentials,
+  TransportPublishOptions,
+} from "./constants";
 import {
   GUEST_CLIENT_ID,
   MqttEvent,
+  MqttProtocolVersion,
   MqttQoS,
   TOPIC,
   TOPIC_HEADER,
@@ -21,21 +41,57 @@ import {
   TransportEvent,
 } from "./constants";
 
-import type { WorkerMessage } from "./shared_worker_constants";
+import type { SerializedMqttError } from "./errors";
+import {
+  MqttIdentityMismatchError,
+  MqttRequestTimeoutError,
+  MqttTransportError,
+  isFailureReasonCode,
+} from "./errors";
+import { OutboundQueue } from "./outbound_queue";
+import type {
+  WorkerBusiness,
+  WorkerMessage,
+  WorkerReply,
+} from "./shared_worker_constants";
 import {
+  DEFAULT_HEARTBEAT_POLICY,
   SharedWorkerMessage,
+  WORKER_REQUEST_TIMEOUT,
   WorkerAction,
   WorkerFeedback,
 } from "./shared_worker_constants";
 
 class SharedWorkerTransport implements ITransport {
+  private __businesses = new Map<
+    /** MqttServiceWorker ID */ string,
+    WorkerBusiness[]
+  >();
+  /** 当前Browser Tab的业务引用租约的持有者，参考{@link ITransport#reportBusinesses} */
+  private __businessHolder: string | null = null;
   private __connected = false;
-  private __connection: { brokerUrl: string; opts: ClientOptions };
+  private __connection: TransportConnection;
+  /** 调用end之后，SharedWorker已经移除了当前Browser Tab，重连的时候需要重新发送WorkerAction.MqttConnect */
+  private __ended = false;
+  private __heartbeat: HeartbeatPolicy;
+  private __heartbeatWatchdog: ReturnType<typeof setInterval> | null = null;
   private __initialized = false;
   private __initializing = false;
+  private __lastPingAt = 0;
   private __listeners: Map</** Event */ string, /** Listener */ Set<Callable>> =
     new Map();
   private __mqttTopics = new Set<string>();
+  private __nextReconnectAt: number | null = null;
+  private __outboundQueue: OutboundQueue;
+  private __pendingReplies = new Map<
+    /** WorkerMessage ID */ string,
+    {
+      resolve: (result: any) => void;
+      reject: (error: Error) => void;
+      timer: ReturnType<typeof setTimeout>;
+    }
+  >();
+  private __reconnectAttempts = 0;
   private __reconnecting = false;
   private __sharedWorker: SharedWorker;
   private __handleReceivedFeedback: (
@@ -46,29 +102,63 @@ class SharedWorkerTransport implements ITransport {
   private __handleBeforeWindowUnload = () => {
     return;
   };
-  static create(connection: {
-    brokerUrl: string;
-    opts: ClientOptions;
-  }): ITransport {
+  private __handleWorkerError = (event: Event) => {
+    return;
+  };
+  static create(connection: TransportConnection): ITransport {
     return new SharedWorkerTransport(connection);
   }
 
-  constructor(connection: { brokerUrl: string; opts: ClientOptions }) {
+  constructor(connection: TransportConnection) {
     this.__connection = connection;
+    /**
+     * 同一个clientId的所有Browser Tab共享同一个SharedWorker，也就会共享同一个缓存键，
+     *   持久化的消息无法区分属于哪一个Browser Tab，因此这里的离线发布队列只保存在内存中
+     */
+    this.__outboundQueue = OutboundQueue.create({
+      key: connection.opts.clientId,
+      policy: connection.outboundQueue,
+    });
+    this.__heartbeat = {
+      ...DEFAULT_HEARTBEAT_POLICY,
+      ...connection.heartbeat,
+    };
     this.__handleReceivedFeedback = ((event: MessageEvent<WorkerMessage>) => {
       const digest: Record<string, any> = {
         [WorkerFeedback.MqttConnect]: (args: { connack: IConnackPacket }) => {
           this.__connected = true;
           this.__reconnecting = false;
+          this.__reconnectAttempts = 0;
+          this.__nextReconnectAt = null;
           this.dispatchEvent(MqttEvent.Connect, [args.connack]);
+          this.__flushOutboundQueue();
         },
 
         [WorkerFeedback.MqttReconnect]: () => {
           this.__connected = false;
           this.__reconnecting = true;
+          this.__nextReconnectAt = null;
           this.dispatchEvent(MqttEvent.Reconnect, []);
         },
 
+        [WorkerFeedback.MqttReconnectScheduled]: (args: ReconnectSchedule) => {
+          this.__reconnecting = true;
+          this.__reconnectAttempts = args.attempts;
+          this.__nextReconnectAt = args.nextReconnectAt;
+          this.dispatchEvent(TransportEvent.ReconnectScheduled, [args]);
+        },
+
+        [WorkerFeedback.MqttReconnectExhausted]: (args: {
+          attempts: number;
+        }) => {
+          this.__reconnecting = false;
+          this.__reconnectAttempts = args.attempts;
+          this.__nextReconnectAt = null;
+          this.dispatchEvent(TransportEvent.ReconnectExhausted, [
+            args.attempts,
+          ]);
+        },
+
         [WorkerFeedback.MqttClose]: () => {
           this.__connected = false;
           this.__reconnecting = false;
@@ -81,6 +171,15 @@ class SharedWorkerTransport implements ITransport {
           this.__connected = false;
           this.__reconnecting = false;
           this.dispatchEvent(MqttEvent.Disconnect, [args.packet]);
+          if (isFailureReasonCode(args.packet.reasonCode)) {
+            this.dispatchEvent(TransportEvent.ReasonCode, [
+              MqttTransportError.fromReasonCode(
+                args.packet.reasonCode,
+                args.packet.properties && args.packet.properties.reasonString
+              ),
+              "disconnect",
+            ]);
+          }
         },
 
         [WorkerFeedback.MqttOffline]: () => {
@@ -89,10 +188,10 @@ class SharedWorkerTransport implements ITransport {
           this.dispatchEvent(MqttEvent.Offline, []);
         },
 
-        [WorkerFeedback.MqttError]: (args: { error: Error }) => {
-          this.dispatchEvent(MqttEvent.Error, [args.error]);
-          this.end();
-          this.dispose();
+        [WorkerFeedback.MqttError]: (args: { error: SerializedMqttError }) => {
+          this.dispatchEvent(MqttEvent.Error, [
+            new MqttTransportError(args.error),
+          ]);
         },
 
         [WorkerFeedback.MqttEnd]: () => {
@@ -103,7 +202,7 @@ class SharedWorkerTransport implements ITransport {
 
         [WorkerFeedback.MqttMessage]: (args: {
           topic: string;
-          payload: Buffer;
+          payload: Uint8Array;
           packet: Packet;
         }) => {
           this.dispatchEvent(MqttEvent.Message, [
@@ -113,14 +212,84 @@ class SharedWorkerTransport implements ITransport {
           ]);
         },
 
-        [WorkerFeedback.MqttSubscribeReject]: (args: { error: Error }) => {
-          this.dispatchEvent(TransportEvent.SubscribeReject, [args.error]);
+        [WorkerFeedback.MqttIdentityMismatch]: (args: {
+          mismatches: string[];
+        }) => {
+          this.__stopHeartbeatWatchdog();
+          this.__connected = false;
+          this.__reconnecting = false;
+          this.dispatchEvent(MqttEvent.Error, [
+            new MqttIdentityMismatchError(args.mismatches),
+          ]);
+        },
+
+        [WorkerFeedback.Ping]: () => {
+          this.__lastPingAt = Date.now();
+          this.__sharedWorker.port.postMessage(
+            SharedWorkerMessage.create({
+              args: {},
+              type: WorkerAction.Pong,
+            })
+          );
+        },
+
+        [WorkerFeedback.OrphanedBusinesses]: (args: {
+          businesses: WorkerBusiness[];
+          holder: string;
+        }) => {
+          this.dispatchEvent(TransportEvent.OrphanedBusinesses, [
+            args.businesses,
+            args.holder,
+          ]);
+        },
+
+        [WorkerFeedback.MqttSubscribeReject]: (args: {
+          error: SerializedMqttError;
+        }) => {
+          this.dispatchEvent(TransportEvent.SubscribeReject, [
+            new MqttTransportError(args.error),
+          ]);
         },
 
         [WorkerFeedback.MqttSubscribeResolve]: (args: {
           granted: ISubscriptionGrant[];
         }) => {
           this.dispatchEvent(TransportEvent.SubscribeResolve, [args.granted]);
+          /**
+           * MQTT 3.1.1被拒绝的订阅返回128，MQTT 5.0返回的是Reason Code
+           */
+          each(args.granted, (g) => {
+            if (
+              this.protocolVersion === MqttProtocolVersion.V5 &&
+              isFailureReasonCode(g.qos)
+            ) {
+              this.dispatchEvent(TransportEvent.ReasonCode, [
+                MqttTransportError.fromReasonCode(g.qos),
+                "suback",
+                g.topic,
+              ]);
+            }
+          });
+        },
+
+        [WorkerFeedback.Reply]: (args: WorkerReply, id?: string) => {
+          if (isNil(id)) {
+            return;
+          }
+
+          const pending = this.__pendingReplies.get(id);
+          if (isNil(pending)) {
+            return;
+          }
+
+          this.__pendingReplies.delete(id);
+          clearTimeout(pending.timer);
+          if (isNil(args.error)) {
+            pending.resolve(args.result);
+            return;
+          }
+
+          pending.reject(new MqttTransportError(args.error));
         },
       };
 
@@ -129,12 +298,17 @@ class SharedWorkerTransport implements ITransport {
       const type = feedback.type;
       const run = digest[type];
       if (run) {
-        run(args);
+        run(args, feedback.id);
       }
     }).bind(this);
 
-    /** 用户直接关闭浏览器标签的时候触发 */
+    /**
+     * 用户直接关闭浏览器标签的时候触发
+     *
+     * 业务引用由MqttService#quit释放（参考quitBeforeBrowserTabUnload），SharedWorker不需要转交
+     */
     this.__handleBeforeWindowUnload = (() => {
+      this.__stopHeartbeatWatchdog();
       this.__sharedWorker.port.postMessage(
         SharedWorkerMessage.create({
           args: {},
@@ -157,6 +331,20 @@ class SharedWorkerTransport implements ITransport {
         name: `ClientID: ${connection.opts.clientId}`,
       }
     );
+
+    /**
+     * SharedWorker的脚本加载失败（例如CSP禁止、网络错误）的时候触发，这时候不会有任何反馈，
+     *   参考{@link TransportEvent.TransportUnavailable}
+     */
+    this.__handleWorkerError = ((event: Event) => {
+      console.error(
+        `${new Date().toLocaleString("zh-CN", {
+          hour12: false,
+        })} SharedWorkerTransport: shared worker is unavailable`
+      );
+      this.dispatchEvent(TransportEvent.TransportUnavailable, [event]);
+    }).bind(this);
+    this.__sharedWorker.addEventListener("error", this.__handleWorkerError);
   }
 
   get brokerUrl() {
@@ -171,6 +359,10 @@ class SharedWorkerTransport implements ITransport {
     return this.__connected;
   }
 
+  get dropPolicy() {
+    return this.__outboundQueue.dropPolicy;
+  }
+
   get isGuest() {
     return this.__connection.opts.clientId === GUEST_CLIENT_ID;
   }
@@ -179,6 +371,24 @@ class SharedWorkerTransport implements ITransport {
     return this.__connection.opts;
   }
 
+  get nextReconnectAt() {
+    return this.__nextReconnectAt;
+  }
+
+  get protocolVersion() {
+    return this.__connection.opts.protocolVersion === MqttProtocolVersion.V5
+      ? MqttProtocolVersion.V5
+      : MqttProtocolVersion.V311;
+  }
+
+  get queueDepth() {
+    return this.__outboundQueue.depth;
+  }
+
+  get reconnectAttempts() {
+    return this.__reconnectAttempts;
+  }
+
   get reconnecting() {
     return this.__reconnecting;
   }
@@ -193,6 +403,10 @@ class SharedWorkerTransport implements ITransport {
     this.__listeners.set(event, handlers);
   }
 
+  clearOutboundQueue() {
+    this.__outboundQueue.clear();
+  }
+
   connect() {
     if (this.__initialized || this.__initializing) {
       return;
@@ -205,22 +419,42 @@ class SharedWorkerTransport implements ITransport {
       this.__handleReceivedFeedback
     );
     this.__sharedWorker.port.start();
+    this.__postConnect();
+    this.__postBusinesses();
+    this.__startHeartbeatWatchdog();
+    window.addEventListener("beforeunload", this.__handleBeforeWindowUnload);
+
+    this.__initializing = false;
+    this.__initialized = true;
+  }
+
+  /**
+   * 请求SharedWorker接受当前Browser Tab，SharedWorker会检查连接身份，必要的时候创建Mqtt Client
+   */
+  private __postConnect() {
+    this.__ended = false;
     this.__sharedWorker.port.postMessage(
       SharedWorkerMessage.create({
         args: {
           brokerUrl: this.__connection.brokerUrl,
           opts: this.__connection.opts,
+          reconnectPolicy: this.__connection.reconnectPolicy,
+          heartbeat: this.__connection.heartbeat,
+          store: this.__connection.store,
         },
         type: WorkerAction.MqttConnect,
       })
     );
-    window.addEventListener("beforeunload", this.__handleBeforeWindowUnload);
-
-    this.__initializing = false;
-    this.__initialized = true;
   }
 
   dispose() {
+    this.__pendingReplies.forEach((pending) => {
+      clearTimeout(pending.timer);
+      pending.reject(new Error("SharedWorkerTransport is disposed"));
+    });
+    this.__pendingReplies.clear();
+    this.__stopHeartbeatWatchdog();
+
     this.__sharedWorker.port.postMessage(
       SharedWorkerMessage.create({
         args: {},
@@ -232,6 +466,7 @@ class SharedWorkerTransport implements ITransport {
       this.__handleReceivedFeedback
     );
     this.__sharedWorker.port.close();
+    this.__sharedWorker.removeEventListener("error", this.__handleWorkerError);
     window.removeEventListener("beforeunload", this.__handleBeforeWindowUnload);
 
     this.__initialized = false;
@@ -245,6 +480,36 @@ class SharedWorkerTransport implements ITransport {
     });
   }
 
+  /**
+   * 向SharedWorker发送需要响应的指令
+   *
+   * @param type 指令类型
+   * @param args 指令参数，必须能够被structured clone，不能包含函数
+   * @returns SharedWorker的响应
+   *
+   * @remarks
+   *
+   * 每一条指令都携带唯一的关联ID，SharedWorker执行完指令之后，只会把{@link WorkerFeedback.Reply}单播给当前Browser Tab；
+   *   超过{@link WORKER_REQUEST_TIMEOUT}没有响应，以{@link MqttRequestTimeoutError}结束，不再等待
+   */
+  private __request<T>(type: WorkerAction, args: Record<string, any>) {
+    return new Promise<T>((resolve, reject) => {
+      const id = uniqueId("WorkerMessage_");
+      const timer = setTimeout(() => {
+        this.__pendingReplies.delete(id);
+        reject(new MqttRequestTimeoutError(type, WORKER_REQUEST_TIMEOUT));
+      }, WORKER_REQUEST_TIMEOUT);
+      this.__pendingReplies.set(id, { resolve, reject, timer });
+      this.__sharedWorker.port.postMessage(
+        SharedWorkerMessage.create({
+          args,
+          id,
+          type,
+        })
+      );
+    });
+  }
+
   /**
    * 关闭MQTT Client和Broker之间的链接
    * @remarks
@@ -252,19 +517,30 @@ class SharedWorkerTransport implements ITransport {
    * 具体关闭Mqtt Client的时间是，调用end方法的Browser Tab是最后一个链接到SharedWorker的Browser Tab。
    */
   end(force?: boolean, opts?: Object, cb?: CloseCallback) {
-    if (isFunction(cb)) {
-      cb();
-    }
+    /** 调用end之后，SharedWorker不会再发送心跳 */
+    this.__stopHeartbeatWatchdog();
+    this.__ended = true;
 
-    this.__sharedWorker.port.postMessage(
-      SharedWorkerMessage.create({
-        args: {
-          force,
-          opts,
-        },
-        type: WorkerAction.MqttEnd,
-      })
-    );
+    /**
+     * SharedWorker响应之后（最后一个Browser Tab需要等Mqtt Client关闭）才调用cb，
+     *   超过{@link WORKER_REQUEST_TIMEOUT}没有响应，同样调用cb，不再等待
+     */
+    const done = () => {
+      if (isFunction(cb)) {
+        cb();
+      }
+    };
+    this.__request<void>(WorkerAction.MqttEnd, {
+      force,
+      opts,
+    }).then(done, (error: Error) => {
+      console.warn(
+        `${new Date().toLocaleString("zh-CN", {
+          hour12: false,
+        })} SharedWorkerTransport: end without acknowledgement\n  ${error}`
+      );
+      done();
+    });
   }
 
   /**
@@ -303,35 +579,163 @@ class SharedWorkerTransport implements ITransport {
   publish(
     topic: string,
     message: string,
-    opts: IClientPublishOptions = {
+    opts: TransportPublishOptions = {
       dup: false,
       qos: MqttQoS.AtLeastOnce,
       retain: false,
     },
     callback?: PacketCallback
   ) {
-    this.__sharedWorker.port.postMessage(
-      SharedWorkerMessage.create({
-        args: {
-          topic,
-          message,
-          opts,
-          callback,
-        },
-        type: WorkerAction.MqttPublish,
-      })
+    const { signal, ...options } = opts;
+    let published: Promise<Packet | undefined>;
+    /**
+     * SharedWorker中的MqttClient可能还没有创建，或者连接已经断开，这时候消息先进入离线发布队列；
+     *   队列中还有消息的时候，新消息也要排队，保证发布顺序
+     */
+    if (!this.__connected || this.__outboundQueue.depth > 0) {
+      published = this.__outboundQueue.enqueue(topic, message, options, signal);
+      this.__flushOutboundQueue();
+    } else {
+      published = this.__publish(topic, message, options);
+    }
+
+    return published.then(
+      (packet) => {
+        if (isFunction(callback)) {
+          callback(undefined, packet);
+        }
+        return packet;
+      },
+      (error: Error) => {
+        if (isFunction(callback)) {
+          callback(error);
+        }
+        throw error;
+      }
     );
   }
 
+  private __publish(
+    topic: string,
+    message: string,
+    opts: IClientPublishOptions
+  ) {
+    return this.__request<Packet | undefined>(WorkerAction.MqttPublish, {
+      topic,
+      message,
+      opts,
+    });
+  }
+
+  /**
+   * 连接建立之后，按照顺序发布离线发布队列中的消息
+   */
+  private __flushOutboundQueue() {
+    if (!this.__connected) {
+      return;
+    }
+
+    this.__outboundQueue.flush(
+      (m) => this.__publish(m.topic, m.message, m.opts),
+      () => this.__connected
+    );
+  }
+
+  /**
+   * 发起重连
+   *
+   * @remarks
+   *
+   * 调用过end的Browser Tab（例如MqttService#resume）已经被SharedWorker移除，需要重新发送WorkerAction.MqttConnect
+   */
   reconnect() {
+    if (this.__ended) {
+      this.__postConnect();
+    } else {
+      this.__sharedWorker.port.postMessage(
+        SharedWorkerMessage.create({
+          args: {},
+          type: WorkerAction.MqttReconnect,
+        })
+      );
+    }
+    this.__postBusinesses();
+    this.__startHeartbeatWatchdog();
+  }
+
+  replay(topic: string | string[]) {
+    return this.__request<number>(WorkerAction.MqttReplay, { topic });
+  }
+
+  reportBusinesses(reporter: string, businesses: Business[], holder: string) {
+    this.__businessHolder = holder;
+
+    const bs: WorkerBusiness[] = map(
+      filter(businesses, (f) => !isNil(f.bid)),
+      (f) => ({ subject: f.subject, bid: f.bid as number | string })
+    );
+    if (bs.length === 0) {
+      this.__businesses.delete(reporter);
+    } else {
+      this.__businesses.set(reporter, bs);
+    }
+
+    this.__postBusinesses();
+  }
+
+  /**
+   * 把当前Browser Tab所有MqttServiceWorker关注的业务上报给SharedWorker
+   *
+   * @remarks
+   *
+   * SharedWorker调用end之后会忘记当前Browser Tab上报的业务，因此重连的时候需要重新上报
+   */
+  private __postBusinesses() {
     this.__sharedWorker.port.postMessage(
       SharedWorkerMessage.create({
-        args: {},
-        type: WorkerAction.MqttReconnect,
+        args: {
+          businesses: flatten(Array.from(this.__businesses.values())),
+          holder: this.__businessHolder,
+        },
+        type: WorkerAction.ReportBusinesses,
       })
     );
   }
 
+  /**
+   * 超过{@link HeartbeatPolicy#timeout}没有收到SharedWorker的Ping，派发{@link TransportEvent.Evicted}
+   */
+  private __startHeartbeatWatchdog() {
+    this.__stopHeartbeatWatchdog();
+
+    this.__lastPingAt = Date.now();
+    this.__heartbeatWatchdog = setInterval(() => {
+      if (Date.now() - this.__lastPingAt <= this.__heartbeat.timeout) {
+        return;
+      }
+
+      console.error(
+        `${new Date().toLocaleString("zh-CN", {
+          hour12: false,
+        })} SharedWorkerTransport: no heartbeat for ${
+          this.__heartbeat.timeout
+        }ms`
+      );
+
+      this.__stopHeartbeatWatchdog();
+      this.__connected = false;
+      this.__reconnecting = false;
+      this.dispatchEvent(TransportEvent.Evicted, []);
+    }, this.__heartbeat.interval);
+  }
+
+  private __stopHeartbeatWatchdog() {
+    if (this.__heartbeatWatchdog !== null) {
+      clearInterval(this.__heartbeatWatchdog);
+    }
+    this.__heartbeatWatchdog = null;
+  }
+
   removeEventListener(event: MqttEvent | TransportEvent, callable?: Callable) {
     if (isNil(callable)) {
       this.__listeners.delete(event);
@@ -359,14 +763,15 @@ class SharedWorkerTransport implements ITransport {
       });
     }
 
-    this.__sharedWorker.port.postMessage(
-      SharedWorkerMessage.create({
-        args: {
-          topic,
-          options,
-        },
-        type: WorkerAction.MqttSubscribe,
-      })
+    return this.__request<ISubscriptionGrant[]>(WorkerAction.MqttSubscribe, {
+      topic,
+      options,
+    });
+  }
+
+  transferOutboundQueue(transport: ITransport) {
+    return this.__outboundQueue.transfer((m, signal) =>
+      transport.publish(m.topic, m.message, { ...m.opts, signal })
     );
   }
 
@@ -385,14 +790,38 @@ class SharedWorkerTransport implements ITransport {
       });
     }
 
+    return this.__request<Packet | undefined>(WorkerAction.MqttUnsubscribe, {
+      topic,
+      opts,
+    }).then(
+      (packet) => {
+        if (isFunction(callback)) {
+          callback(undefined, packet);
+        }
+        return packet;
+      },
+      (error: Error) => {
+        if (isFunction(callback)) {
+          callback(error);
+        }
+        throw error;
+      }
+    );
+  }
+
+  updateCredentials(credentials: TransportCredentials) {
+    this.__connection = {
+      ...this.__connection,
+      opts: {
+        ...this.__connection.opts,
+        ...credentials,
+      },
+    };
+
     this.__sharedWorker.port.postMessage(
       SharedWorkerMessage.create({
-        args: {
-          topic,
-          opts,
-          callback,
-        },
-        type: WorkerAction.MqttUnsubscribe,
+        args: credentials,
+        type: WorkerAction.MqttUpdateCredentials,
       })
     );
   }
@@ -0,0 +1,216 @@
+import { each, filter, isArray, uniq } from "lodash";
+import type { ISubscriptionGrant } from "mqtt";
+
+/**
+ * 共享订阅的前缀，例如：$share/group/iot/v1/c/123/#
+ */
+const SHARED_SUBSCRIPTION_PREFIX = /^\$share\/[^/]+\//;
+
+/**
+ * 判断Mqtt主题是否匹配订阅时使用的主题过滤器
+ *
+ * @param filter 主题过滤器，支持单层通配符+和多层通配符#
+ * @param topic Broker推送消息时使用的主题
+ * @returns
+ *
+ * @remarks
+ *
+ * 按照MQTT协议的约定：
+ *   1. #只能出现在过滤器的最后一层，同时匹配父级主题本身，例如：a/#匹配a、a/b、a/b/c
+ *   2. +匹配且仅匹配一层，例如：a/+匹配a/b，不匹配a、a/b/c
+ *   3. 以$开头的主题（例如：$SYS/...）不会被以通配符开头的过滤器匹配
+ *
+ * @see [MQTT Version 3.1.1 - Topic wildcards](http://docs.oasis-open.org/mqtt/mqtt/v3.1.1/os/mqtt-v3.1.1-os.html#_Toc398718107)
+ *
+ * @example
+ *
+ * matchTopic("iot/v1/c/123/#", "iot/v1/c/123/device/online"); // true
+ * matchTopic("iot/v1/c/+/device", "iot/v1/c/123/device"); // true
+ * matchTopic("iot/v1/c/+", "iot/v1/c/123/device"); // false
+ */
+function matchTopic(filter: string, topic: string) {
+  const fs = filter.replace(SHARED_SUBSCRIPTION_PREFIX, "").split("/");
+  const ts = topic.split("/");
+
+  if (topic.startsWith("$") && (fs[0] === "+" || fs[0] === "#")) {
+    return false;
+  }
+
+  for (let i = 0; i < fs.length; i++) {
+    if (fs[i] === "#") {
+      return i === fs.length - 1;
+    }
+    if (i >= ts.length) {
+      return false;
+    }
+    if (fs[i] !== "+" && fs[i] !== ts[i]) {
+      return false;
+    }
+  }
+
+  return fs.length === ts.length;
+}
+
+/**
+ * 记录每一个Mqtt主题被哪些订阅者（SharedWorker中是MessagePort，也就是Browser Tab）订阅
+ *
+ * @remarks
+ *
+ * 多个Browser Tab共享同一个Mqtt Client的时候，某一个Browser Tab取消订阅，不能影响其他仍然需要这个主题的Browser Tab。
+ *   因此只有第一个订阅者订阅的时候，才需要向Broker发送SUBSCRIBE；
+ *   只有最后一个订阅者取消订阅的时候，才需要向Broker发送UNSUBSCRIBE。
+ *
+ * @example
+ *
+ * const registry = SubscriptionRegistry.create<MessagePort>();
+ * const fresh = registry.acquire(port, ["iot/v1/c/123/#"]); // 需要发送SUBSCRIBE的主题
+ * const ports = registry.subscribersMatching("iot/v1/c/123/device"); // 需要接收消息的订阅者
+ * const stale = registry.releaseAll(port); // 需要发送UNSUBSCRIBE的主题
+ */
+class SubscriptionRegistry<P = MessagePort> {
+  private __grants = new Map</** Topic */ string, ISubscriptionGrant>();
+  private __subscribers = new Map</** Topic */ string, Set<P>>();
+
+  static create<P = MessagePort>() {
+    return new SubscriptionRegistry<P>();
+  }
+
+  /**
+   * 所有至少有一个订阅者的主题
+   */
+  get topics() {
+    return Array.from(this.__subscribers.keys());
+  }
+
+  /**
+   * 登记订阅
+   *
+   * @param subscriber 订阅者
+   * @param topic Mqtt主题
+   * @returns 此前没有任何订阅者的主题，也就是需要向Broker发送SUBSCRIBE的主题
+   */
+  acquire(subscriber: P, topic: string | string[]) {
+    const fresh: string[] = [];
+    each(this.__normalize(topic), (t) => {
+      const subscribers = this.__subscribers.get(t) || new Set<P>();
+      if (subscribers.size === 0) {
+        fresh.push(t);
+      }
+      subscribers.add(subscriber);
+      this.__subscribers.set(t, subscribers);
+    });
+    return fresh;
+  }
+
+  clear() {
+    this.__grants.clear();
+    this.__subscribers.clear();
+  }
+
+  /**
+   * 记录Broker返回的SUBACK
+   *
+   * @param granted
+   */
+  grant(granted: ISubscriptionGrant[]) {
+    each(granted, (g) => {
+      this.__grants.set(g.topic, g);
+    });
+  }
+
+  /**
+   * 获取Broker返回的SUBACK
+   *
+   * @param topic Mqtt主题
+   * @returns
+   */
+  grantOf(topic: string) {
+    return this.__grants.get(topic);
+  }
+
+  has(topic: string) {
+    return this.__subscribers.has(topic);
+  }
+
+  /**
+   * 释放订阅
+   *
+   * @param subscriber 订阅者
+   * @param topic Mqtt主题
+   * @returns 已经没有任何订阅者的主题，也就是需要向Broker发送UNSUBSCRIBE的主题
+   */
+  release(subscriber: P, topic: string | string[]) {
+    const stale: string[] = [];
+    each(this.__normalize(topic), (t) => {
+      const subscribers = this.__subscribers.get(t);
+      if (!subscribers || !subscribers.has(subscriber)) {
+        return;
+      }
+
+      subscribers.delete(subscriber);
+      if (subscribers.size === 0) {
+        this.__subscribers.delete(t);
+        this.__grants.delete(t);
+        stale.push(t);
+      }
+    });
+    return stale;
+  }
+
+  /**
+   * 释放订阅者的所有订阅
+   *
+   * @param subscriber 订阅者
+   * @returns 已经没有任何订阅者的主题，也就是需要向Broker发送UNSUBSCRIBE的主题
+   */
+  releaseAll(subscriber: P) {
+    return this.release(subscriber, this.topicsOf(subscriber));
+  }
+
+  /**
+   * 订阅了某个主题的所有订阅者
+   *
+   * @param topic Mqtt主题
+   * @returns
+   */
+  subscribersOf(topic: string) {
+    return Array.from((this.__subscribers.get(topic) || new Set<P>()).values());
+  }
+
+  /**
+   * 主题过滤器能够匹配某个主题的所有订阅者，每个订阅者只会出现一次
+   *
+   * @param topic Broker推送消息时使用的主题
+   * @returns
+   */
+  subscribersMatching(topic: string) {
+    const matched = new Set<P>();
+    this.__subscribers.forEach((subscribers, f) => {
+      if (!matchTopic(f, topic)) {
+        return;
+      }
+      subscribers.forEach((subscriber) => {
+        matched.add(subscriber);
+      });
+    });
+    return Array.from(matched.values());
+  }
+
+  /**
+   * 订阅者订阅的所有主题
+   *
+   * @param subscriber 订阅者
+   * @returns
+   */
+  topicsOf(subscriber: P) {
+    return filter(this.topics, (t) =>
+      (this.__subscribers.get(t) || new Set<P>()).has(subscriber)
+    );
+  }
+
+  private __normalize(topic: string | string[]) {
+    return uniq(isArray(topic) ? topic : [topic]);
+  }
+}
+
+export { SubscriptionRegistry, matchTopic };
@@ -1,2 +1,3 @@
+export * from "./broadcast_channel_transport";
 export * from "./classical_transport";
 export * from "./shared_worker_transport";
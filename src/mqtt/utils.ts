@@ -49,4 +49,11 @@ function getSeq() {
   return String(Date.now() + _uuid).slice(-9);
 }
 
-export { formatDate, getExpireTimestamp, getSeq };
+/**
+ * 生成Browser Tab ID，lodash.uniqueId只在当前Browser Tab内唯一，这里需要跨Browser Tab唯一
+ */
+function uniqueTabId() {
+  return `${Date.now().toString(36)}_${Math.random().toString(36).slice(2)}`;
+}
+
+export { formatDate, getExpireTimestamp, getSeq, uniqueTabId };
@@ -0,0 +1,98 @@
+import { PREFIX_HASH } from "@platform/core/infra";
+
+import type { WillPayloadContext, WillPayloadProvider } from "./constants";
+
+/**
+ * 计算HMAC-SHA256，返回十六进制字符串
+ *
+ * @param key 密钥
+ * @param message 消息
+ * @returns
+ */
+async function hmacSha256(key: string, message: string) {
+  const encoder = new TextEncoder();
+  const cryptoKey = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(key),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    cryptoKey,
+    encoder.encode(message)
+  );
+  return Array.from(new Uint8Array(signature))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * 内置的遗言payload生成方式，参考{@link TransportBuilder#willPayload}
+ *
+ * @example
+ *
+ * const transportBuilder: TransportBuilder = {
+ *   ...SUPPORTED_TRANSPORT_BUILDER.sharedWorker,
+ *   willPayload: WillPayloadProviders.ticket(),
+ * };
+ */
+const WillPayloadProviders = {
+  /**
+   * 使用Mqtt密码对clientId和时间戳签名：HMAC-SHA256(password, `${clientId}.${signedAt}`)
+   *
+   * @remarks
+   *
+   * Mqtt密码由API下发，API可以用同样的方式验证签名，不需要额外的请求
+   */
+  hmac(): WillPayloadProvider {
+    return async (context: WillPayloadContext) => {
+      const { clientId, password } = context;
+      const signedAt = Date.now();
+      const signature = await hmacSha256(password, `${clientId}.${signedAt}`);
+      return {
+        signedAt,
+        signature,
+      };
+    };
+  },
+  /**
+   * 向API申请一张短时有效、只能用于断开通知的票据
+   *
+   * @param url 申请票据的API
+   */
+  ticket(url = "/v2/client/getDisconnectTicket"): WillPayloadProvider {
+    return async (context: WillPayloadContext) => {
+      const { clientId, env } = context;
+      const { data } = await env.api.get<string>(
+        url,
+        {
+          clientId,
+        },
+        {
+          apiChange: PREFIX_HASH.building,
+          isCatch: false,
+        }
+      );
+      return {
+        ticket: data,
+      };
+    };
+  },
+  /**
+   * 旧的做法：把token的签名部分放进遗言
+   *
+   * @deprecated 遗言以明文发布到广播主题，token的签名部分会因此泄露，只在API还不支持其他方式的时候使用
+   */
+  legacyTokenSignature(): WillPayloadProvider {
+    return async (context: WillPayloadContext) => {
+      const { token } = context;
+      return {
+        token: token.split(".")[2],
+      };
+    };
+  },
+};
+
+export { WillPayloadProviders };